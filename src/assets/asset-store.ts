@@ -1,6 +1,8 @@
 import type { SyncResult, BlobContent } from '../types/index.js';
 import type { AssetStoreOptions, InitAssetStoreOptions } from './types.js';
 import { findBlobBySource } from '../introspection/source-lookup.js';
+import { loadBlobContent } from '../sync/lazy.js';
+import { ConfigurationError } from '../errors/index.js';
 
 /**
  * In-memory asset store built on top of azure-venv's blob sync.
@@ -44,30 +46,40 @@ export class AssetStore {
    * @param key - Asset key. If it contains `@`, used as a full source expression.
    *              Otherwise, the default registry is appended: `key@registry`.
    * @throws {Error} If the asset is not found.
+   * @throws ConfigurationError If the store was synced in lazy mode; use loadAsset().
    */
   getAsset(key: string): string {
+    this.requireEager('getAsset', 'loadAsset');
     const expression = this.resolveExpression(key);
 
-    // Check cache (only if caching is enabled)
-    if (this.cacheTTL > 0) {
-      const cached = this.cache.get(expression);
-      if (cached && Date.now() - cached.timestamp < this.cacheTTL) {
-        return cached.data;
-      }
+    const cached = this.getCachedString(expression);
+    if (cached !== undefined) {
+      return cached;
     }
 
-    const blob = findBlobBySource(this.blobs, expression);
-    if (!blob) {
-      throw new Error(`Asset not found: ${expression}`);
-    }
+    const data = this.requireBlob(expression).content.toString('utf-8');
+    this.setCachedString(expression, data);
+    return data;
+  }
 
-    const data = blob.content.toString('utf-8');
+  /**
+   * Retrieve an asset as a UTF-8 string, downloading it on first use if the store
+   * was synced in lazy mode. Equivalent to getAsset() for eagerly synced stores.
+   *
+   * @param key - Asset key (same resolution rules as getAsset).
+   * @throws {Error} If the asset is not found.
+   * @throws AzureVenvError subclasses if the lazy download fails.
+   */
+  async loadAsset(key: string): Promise<string> {
+    const expression = this.resolveExpression(key);
 
-    // Update cache if enabled
-    if (this.cacheTTL > 0) {
-      this.cache.set(expression, { data, timestamp: Date.now() });
+    const cached = this.getCachedString(expression);
+    if (cached !== undefined) {
+      return cached;
     }
 
+    const data = (await loadBlobContent(this.requireBlob(expression))).toString('utf-8');
+    this.setCachedString(expression, data);
     return data;
   }
 
@@ -76,14 +88,21 @@ export class AssetStore {
    *
    * @param key - Asset key (same resolution rules as getAsset).
    * @throws {Error} If the asset is not found.
+   * @throws ConfigurationError If the store was synced in lazy mode; use loadRawAsset().
    */
   getRawAsset(key: string): Buffer {
-    const expression = this.resolveExpression(key);
-    const blob = findBlobBySource(this.blobs, expression);
-    if (!blob) {
-      throw new Error(`Asset not found: ${expression}`);
-    }
-    return blob.content;
+    this.requireEager('getRawAsset', 'loadRawAsset');
+    return this.requireBlob(this.resolveExpression(key)).content;
+  }
+
+  /**
+   * Retrieve an asset as a raw Buffer, downloading it on first use in lazy mode.
+   *
+   * @param key - Asset key (same resolution rules as getAsset).
+   * @throws {Error} If the asset is not found.
+   */
+  async loadRawAsset(key: string): Promise<Buffer> {
+    return loadBlobContent(this.requireBlob(this.resolveExpression(key)));
   }
 
   /**
@@ -91,12 +110,25 @@ export class AssetStore {
    *
    * @param key - Asset key (same resolution rules as getAsset).
    * @throws {Error} If the asset is not found or is not valid JSON.
+   * @throws ConfigurationError If the store was synced in lazy mode; use loadJsonAsset().
    */
   getJsonAsset<T = unknown>(key: string): T {
+    this.requireEager('getJsonAsset', 'loadJsonAsset');
     const data = this.getAsset(key);
     return JSON.parse(data) as T;
   }
 
+  /**
+   * Retrieve and parse a JSON asset, downloading it on first use in lazy mode.
+   *
+   * @param key - Asset key (same resolution rules as getAsset).
+   * @throws {Error} If the asset is not found or is not valid JSON.
+   */
+  async loadJsonAsset<T = unknown>(key: string): Promise<T> {
+    const data = await this.loadAsset(key);
+    return JSON.parse(data) as T;
+  }
+
   /**
    * Look up a blob by asset key without throwing.
    *
@@ -138,6 +170,7 @@ export class AssetStore {
 
   /**
    * Re-sync blobs from Azure and update the store.
+   * Blobs unchanged since the last sync (same ETag) keep their content and are not downloaded again.
    * Only available if the store was created via `initAssetStore()`.
    *
    * @throws {Error} If the store was not created via initAssetStore().
@@ -152,11 +185,57 @@ export class AssetStore {
 
     // Lazy import to avoid circular dependency
     const { doInitAssetStore } = await import('./init-asset-store.js');
-    const newStore = await doInitAssetStore(this._refreshConfig);
+    const newStore = await doInitAssetStore(this._refreshConfig, this.blobs);
     this.blobs = newStore.blobs;
     this.cache.clear();
   }
 
+  /**
+   * Reject a synchronous getter on a store whose blobs were listed in lazy mode, whatever
+   * the cache holds, so that callers fail the same way on every call.
+   *
+   * @throws ConfigurationError If the store was synced in lazy mode.
+   */
+  private requireEager(method: string, alternative: string): void {
+    if (this.blobs.some((blob) => blob.load !== undefined)) {
+      throw new ConfigurationError(
+        `${method}() is not available on an asset store synced in lazy mode; use ${alternative}()`,
+        'loadMode',
+      );
+    }
+  }
+
+  /**
+   * Find the blob of a source expression.
+   *
+   * @throws {Error} If the asset is not found.
+   */
+  private requireBlob(expression: string): BlobContent {
+    const blob = findBlobBySource(this.blobs, expression);
+    if (!blob) {
+      throw new Error(`Asset not found: ${expression}`);
+    }
+    return blob;
+  }
+
+  /** Return the cached string of an expression, if caching is enabled and the entry is fresh. */
+  private getCachedString(expression: string): string | undefined {
+    if (this.cacheTTL > 0) {
+      const cached = this.cache.get(expression);
+      if (cached && Date.now() - cached.timestamp < this.cacheTTL) {
+        return cached.data;
+      }
+    }
+    return undefined;
+  }
+
+  /** Cache the string of an expression, if caching is enabled. */
+  private setCachedString(expression: string, data: string): void {
+    if (this.cacheTTL > 0) {
+      this.cache.set(expression, { data, timestamp: Date.now() });
+    }
+  }
+
   /**
    * Resolve a short asset key to a full source expression.
    * If the key contains `@`, it's returned as-is.
@@ -1,14 +1,22 @@
 import type { InitAssetStoreOptions } from './types.js';
-import type { SyncResult } from '../types/index.js';
+import type { BlobContent, SyncResult } from '../types/index.js';
 import { AssetStore } from './asset-store.js';
-import { initAzureVenv } from '../initialize.js';
+import { syncAzureVenv } from '../initialize.js';
+import { DEFAULT_LAZY_CACHE_SIZE } from '../config/validator.js';
+import { DEFAULT_ENV_PRECEDENCE } from '../env/precedence.js';
 import { ConfigurationError } from '../errors/index.js';
 
 /**
  * Internal: performs the Azure sync with temporary process.env overrides.
  * Returns the SyncResult (not a full AssetStore) so refresh() can use it.
+ *
+ * @param options - Asset store init options.
+ * @param previousBlobs - Blobs currently held by the store; unchanged ones are not downloaded again.
  */
-export async function doInitAssetStore(options: InitAssetStoreOptions): Promise<SyncResult> {
+export async function doInitAssetStore(
+  options: InitAssetStoreOptions,
+  previousBlobs?: readonly BlobContent[],
+): Promise<SyncResult> {
   // Capture current values
   const savedVenv = process.env.AZURE_VENV;
   const savedSas = process.env.AZURE_VENV_SAS_TOKEN;
@@ -18,10 +26,33 @@ export async function doInitAssetStore(options: InitAssetStoreOptions): Promise<
     process.env.AZURE_VENV = options.url;
     process.env.AZURE_VENV_SAS_TOKEN = options.sasToken;
 
-    const syncResult = await initAzureVenv({
+    // Synced without initAzureVenv so that the env accessor keeps the application's details
+    const syncResult = await syncAzureVenv({
+      // The asset container is always SAS-authenticated, regardless of AZURE_VENV_AUTH_MODE
+      authMode: 'sas',
+      urlStyle: options.urlStyle ?? 'standard',
       logLevel: options.logLevel,
       concurrency: options.concurrency,
       timeout: options.timeout,
+      maxRetries: options.maxRetries,
+      retryDelay: options.retryDelay,
+      source: options.source,
+      loadMode: options.loadMode ?? 'eager',
+      lazyCacheSize: options.lazyCacheSize ?? DEFAULT_LAZY_CACHE_SIZE,
+      previous: previousBlobs !== undefined ? { blobs: previousBlobs } : undefined,
+      // The asset container is synced alone and whole: the application's AZURE_VENV_* sources,
+      // filters, size limits, offline cache and .env handling describe its own container
+      sources: [],
+      envFiles: null,
+      include: [],
+      exclude: [],
+      maxBlobSize: null,
+      memoryBudget: null,
+      lazyOversized: false,
+      cacheDir: null,
+      expand: false,
+      precedence: DEFAULT_ENV_PRECEDENCE.order,
+      precedenceOverrides: DEFAULT_ENV_PRECEDENCE.overrides,
     });
 
     return syncResult;
@@ -1,4 +1,5 @@
-import type { LogLevel } from '../config/types.js';
+import type { BlobUrlStyle, LoadMode, LogLevel } from '../config/types.js';
+import type { BlobSource } from '../source/types.js';
 
 /**
  * Options for creating an AssetStore from an existing SyncResult.
@@ -22,6 +23,9 @@ export interface InitAssetStoreOptions {
   /** Azure Blob Storage URL for the asset container (e.g., https://account.blob.core.windows.net/container/). */
   readonly url: string;
 
+  /** URL style of url (the application's AZURE_VENV_URL_STYLE does not apply). Default: 'standard'. */
+  readonly urlStyle?: BlobUrlStyle;
+
   /** SAS token for accessing the asset container. */
   readonly sasToken: string;
 
@@ -39,4 +43,19 @@ export interface InitAssetStoreOptions {
 
   /** Per-blob download timeout in ms. Default: 30000. */
   readonly timeout?: number;
+
+  /** Retries after a transient Azure failure. Default: 3. */
+  readonly maxRetries?: number;
+
+  /** Delay in ms before the first retry, doubled for each further retry. Default: 1000. */
+  readonly retryDelay?: number;
+
+  /** Blob source to read the asset container from instead of Azure (e.g. a fake source in tests). */
+  readonly source?: BlobSource;
+
+  /** 'lazy' lists the assets at init and downloads each on first use (see AssetStore.loadAsset). Default: 'eager'. */
+  readonly loadMode?: LoadMode;
+
+  /** Capacity in bytes of the LRU cache of lazily loaded assets. Default: 64 MiB. */
+  readonly lazyCacheSize?: number;
 }
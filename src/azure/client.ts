@@ -3,23 +3,92 @@ import {
   AnonymousCredential,
   RestError,
   BlockBlobClient,
+  StorageSharedKeyCredential,
 } from '@azure/storage-blob';
+import type { StoragePipelineOptions } from '@azure/storage-blob';
+import { ClientSecretCredential, DefaultAzureCredential } from '@azure/identity';
 
+import type { AzureVenvAuth } from '../config/types.js';
 import type { BlobClientConfig, BlobInfo } from './types.js';
+import type { BlobSource } from '../source/types.js';
 import type { Logger } from '../logging/logger.js';
 import { sanitize } from '../logging/logger.js';
 import { AuthenticationError, AzureConnectionError, SyncError } from '../errors/index.js';
+import { isCredentialError, isRetryableError, retryBackoff, sleep } from './retry.js';
+import { abortError } from '../source/abort.js';
+
+/**
+ * Return the secret value of the auth settings, used to redact it from messages.
+ * Empty string for modes without a static secret (Azure AD via TokenCredential).
+ */
+export function authSecret(auth: AzureVenvAuth): string {
+  switch (auth.mode) {
+    case 'sas':
+      return auth.sasToken;
+    case 'client-secret':
+      return auth.clientSecret;
+    case 'account-key':
+      return auth.accountKey;
+    case 'connection-string':
+      return auth.connectionString;
+    case 'default-credential':
+    case 'none':
+      return '';
+  }
+}
+
+/**
+ * Build a ContainerClient authenticated according to the configured auth mode.
+ * The SDK's own retry policy is disabled: AzureVenvBlobClient retries whole
+ * operations itself, so that timeouts and error classification are uniform.
+ */
+function createContainerClient(config: BlobClientConfig): ContainerClient {
+  const containerUrl = `${config.accountUrl}/${config.containerName}`;
+  const auth = config.auth;
+  const pipelineOptions: StoragePipelineOptions = { retryOptions: { maxTries: 1 } };
+
+  switch (auth.mode) {
+    case 'sas':
+      return new ContainerClient(`${containerUrl}?${auth.sasToken}`, new AnonymousCredential(), pipelineOptions);
+    case 'default-credential':
+      return new ContainerClient(containerUrl, auth.credential ?? new DefaultAzureCredential(), pipelineOptions);
+    case 'client-secret':
+      return new ContainerClient(
+        containerUrl,
+        new ClientSecretCredential(auth.tenantId, auth.clientId, auth.clientSecret),
+        pipelineOptions,
+      );
+    case 'account-key':
+      return new ContainerClient(
+        containerUrl,
+        new StorageSharedKeyCredential(auth.accountName, auth.accountKey),
+        pipelineOptions,
+      );
+    case 'connection-string':
+      return new ContainerClient(auth.connectionString, config.containerName, pipelineOptions);
+    case 'none':
+      return new ContainerClient(containerUrl, new AnonymousCredential(), pipelineOptions);
+  }
+}
 
 /**
  * Wrapper around @azure/storage-blob SDK providing the operations needed by azure-venv.
+ * This is the Azure Blob Storage implementation of BlobSource.
  *
- * All methods sanitize SAS tokens from error messages before propagation.
+ * All methods sanitize SAS tokens (and other static secrets) from error messages before propagation.
  * The constructor does NOT validate the connection -- validation happens on first operation.
+ *
+ * Every operation is attempted up to 1 + maxRetries times. Each attempt is aborted after
+ * `timeout` ms; timeouts and transient failures (see isRetryableError) are retried with
+ * exponential backoff starting at `retryDelay` ms, other failures are raised immediately.
  */
-export class AzureVenvBlobClient {
+export class AzureVenvBlobClient implements BlobSource {
   private readonly containerClient: ContainerClient;
   private readonly logger: Logger;
-  private readonly sasToken: string;
+  private readonly secret: string;
+  private readonly maxRetries: number;
+  private readonly retryDelay: number;
+  private readonly timeout: number;
 
   /**
    * @param config - Connection configuration.
@@ -27,16 +96,15 @@ export class AzureVenvBlobClient {
    */
   constructor(config: BlobClientConfig, logger: Logger) {
     this.logger = logger;
-    this.sasToken = config.sasToken;
-
-    const containerUrl = `${config.accountUrl}/${config.containerName}?${config.sasToken}`;
-    this.containerClient = new ContainerClient(
-      containerUrl,
-      new AnonymousCredential(),
-    );
+    this.secret = authSecret(config.auth);
+    this.maxRetries = config.maxRetries;
+    this.retryDelay = config.retryDelay;
+    this.timeout = config.timeout;
+    this.containerClient = createContainerClient(config);
 
     this.logger.debug(
-      `AzureVenvBlobClient initialized for container "${config.containerName}"`,
+      `AzureVenvBlobClient initialized for container "${config.containerName}" (auth mode: ${config.auth.mode}, ` +
+      `timeout: ${config.timeout} ms, max retries: ${config.maxRetries})`,
     );
   }
 
@@ -46,16 +114,17 @@ export class AzureVenvBlobClient {
    * @param prefix - Virtual directory prefix (with trailing '/' or empty for container root).
    * @returns Array of BlobInfo for each blob found.
    *
-   * @throws AzureConnectionError on network/timeout errors.
+   * @throws AzureConnectionError on network/timeout errors (after retries).
    * @throws AuthenticationError on 403 responses.
+   * @throws SyncAbortedError if the signal is aborted.
    */
-  async listBlobs(prefix: string): Promise<BlobInfo[]> {
+  async listBlobs(prefix: string, signal?: AbortSignal): Promise<BlobInfo[]> {
     this.logger.debug(`Listing blobs with prefix: "${prefix}"`);
 
-    try {
+    return this.withRetry(`Failed to list blobs with prefix "${prefix}"`, signal, async (abortSignal) => {
       const blobs: BlobInfo[] = [];
 
-      for await (const blob of this.containerClient.listBlobsFlat({ prefix, includeMetadata: true })) {
+      for await (const blob of this.containerClient.listBlobsFlat({ prefix, includeMetadata: true, abortSignal })) {
         const blobInfo: BlobInfo = {
           name: blob.name,
           etag: blob.properties.etag ?? '',
@@ -71,9 +140,7 @@ export class AzureVenvBlobClient {
 
       this.logger.debug(`Listed ${blobs.length} blob(s) under prefix "${prefix}"`);
       return blobs;
-    } catch (error: unknown) {
-      throw this.translateError(error, `Failed to list blobs with prefix "${prefix}"`);
-    }
+    });
   }
 
   /**
@@ -82,41 +149,107 @@ export class AzureVenvBlobClient {
    * @param blobName - Full blob name in the container.
    * @returns Buffer containing the blob content.
    *
-   * @throws AzureConnectionError on network/timeout errors.
+   * @throws AzureConnectionError on network/timeout errors (after retries).
    * @throws AuthenticationError on 403 responses.
+   * @throws SyncAbortedError if the signal is aborted.
    */
-  async downloadToBuffer(blobName: string): Promise<Buffer> {
+  async downloadToBuffer(blobName: string, signal?: AbortSignal): Promise<Buffer> {
     this.logger.debug(`Downloading blob "${blobName}" to buffer`);
 
-    try {
+    return this.withRetry(`Failed to download blob "${blobName}" to buffer`, signal, async (abortSignal) => {
       const blockBlobClient: BlockBlobClient =
         this.containerClient.getBlockBlobClient(blobName);
 
-      const buffer = await blockBlobClient.downloadToBuffer();
+      // Interrupted body streams are retried as a whole attempt, not by the SDK
+      const buffer = await blockBlobClient.downloadToBuffer(0, undefined, {
+        abortSignal,
+        maxRetryRequestsPerBlock: 0,
+      });
 
       this.logger.debug(
         `Downloaded blob "${blobName}" to buffer (${buffer.length} bytes)`,
       );
 
       return buffer;
-    } catch (error: unknown) {
-      throw this.translateError(error, `Failed to download blob "${blobName}" to buffer`);
+    });
+  }
+
+  /**
+   * Run an operation with a per-attempt timeout, retrying transient failures with exponential backoff.
+   *
+   * @param context - Description used as the prefix of error messages.
+   * @param signal - Caller's signal; aborting it stops the attempt in flight and any further retries.
+   * @param operation - One attempt; must honor the abort signal, which fires after `timeout` ms
+   *   or when the caller's signal is aborted.
+   * @returns The operation's result.
+   *
+   * @throws SyncAbortedError as soon as the caller's signal is aborted.
+   * @throws The translated error of the last attempt, or of the first non-retryable failure.
+   */
+  private async withRetry<T>(
+    context: string,
+    signal: AbortSignal | undefined,
+    operation: (abortSignal: AbortSignal) => Promise<T>,
+  ): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      if (signal?.aborted) {
+        throw abortError(signal);
+      }
+
+      const controller = new AbortController();
+      let timedOut = false;
+      const timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, this.timeout);
+      const onAbort = (): void => controller.abort();
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      try {
+        return await operation(controller.signal);
+      } catch (error: unknown) {
+        if (signal?.aborted) {
+          throw abortError(signal);
+        }
+
+        // The SDK reports our timeout as a plain abort; name it for what it is
+        const failure = timedOut
+          ? new Error(`timed out after ${this.timeout} ms`)
+          : error;
+
+        if (attempt >= this.maxRetries || !isRetryableError(failure)) {
+          throw this.translateError(failure, context);
+        }
+
+        const delay = retryBackoff(attempt, this.retryDelay);
+        this.logger.warn(
+          sanitize(
+            `${context} (attempt ${attempt + 1} of ${this.maxRetries + 1}): ` +
+            `${failure instanceof Error ? failure.message : String(failure)}; retrying in ${delay} ms`,
+            this.secret,
+          ),
+        );
+        await sleep(delay, signal);
+      } finally {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+      }
     }
   }
 
   /**
    * Translate an SDK or filesystem error into the appropriate library error type.
-   * Always sanitizes SAS tokens from error messages.
+   * Always sanitizes SAS tokens and other static secrets from error messages.
    */
   private translateError(error: unknown, context: string): Error {
     // Handle Azure RestError
     if (error instanceof RestError) {
       const sanitizedMessage = sanitize(
         `${context}: ${error.message}`,
-        this.sasToken,
+        this.secret,
       );
 
-      if (error.statusCode === 403) {
+      if (error.statusCode === 401 || error.statusCode === 403) {
         this.logger.error(`Authentication failed: ${sanitizedMessage}`);
         return new AuthenticationError(sanitizedMessage);
       }
@@ -131,11 +264,21 @@ export class AzureVenvBlobClient {
       return new AzureConnectionError(sanitizedMessage, error.statusCode);
     }
 
+    // Azure AD credentials that cannot produce a token are an authentication failure, not a network one
+    if (isCredentialError(error)) {
+      const sanitizedMessage = sanitize(
+        `${context}: ${(error as Error).message}`,
+        this.secret,
+      );
+      this.logger.error(`Authentication failed: ${sanitizedMessage}`);
+      return new AuthenticationError(sanitizedMessage);
+    }
+
     // Handle network-level errors (no RestError, e.g., DNS failure, ETIMEDOUT)
     if (error instanceof Error) {
       const sanitizedMessage = sanitize(
         `${context}: ${error.message}`,
-        this.sasToken,
+        this.secret,
       );
       this.logger.error(`Network error: ${sanitizedMessage}`);
       return new AzureConnectionError(sanitizedMessage);
@@ -144,7 +287,7 @@ export class AzureVenvBlobClient {
     // Unknown error type
     const sanitizedMessage = sanitize(
       `${context}: ${String(error)}`,
-      this.sasToken,
+      this.secret,
     );
     this.logger.error(`Unknown error: ${sanitizedMessage}`);
     return new AzureConnectionError(sanitizedMessage);
@@ -0,0 +1,72 @@
+import { RestError } from '@azure/storage-blob';
+
+/** HTTP status codes of transient Azure failures worth retrying. */
+const RETRYABLE_STATUS_CODES: ReadonlySet<number> = new Set([408, 429, 500, 502, 503, 504]);
+
+/** Upper bound of the delay between two attempts, however many retries are configured. */
+export const MAX_RETRY_DELAY_MS = 60000;
+
+/**
+ * Error names of @azure/identity failures: bad or unavailable credentials never heal by retrying.
+ */
+const CREDENTIAL_ERROR_NAMES: ReadonlySet<string> = new Set([
+  'AuthenticationError',
+  'AggregateAuthenticationError',
+  'CredentialUnavailableError',
+]);
+
+/**
+ * Decide whether a failed Azure operation may succeed if attempted again.
+ *
+ * @param error - Raw error thrown by the SDK (before translation into library errors).
+ * @returns True for transient failures.
+ *
+ * Contract:
+ *   - RestError: retryable for 408, 429 and 5xx gateway/server errors, or when no response was received
+ *   - Other HTTP statuses (400, 403, 404, 409, 412, ...) are fatal
+ *   - Aborts and credential failures are fatal
+ *   - Any other Error is a network-level failure (ECONNRESET, ETIMEDOUT, DNS) and retryable
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof RestError) {
+    return error.statusCode === undefined || RETRYABLE_STATUS_CODES.has(error.statusCode);
+  }
+  if (error instanceof Error) {
+    return error.name !== 'AbortError' && !isCredentialError(error);
+  }
+  return false;
+}
+
+/**
+ * Whether an error is an @azure/identity failure to obtain a token (matched by name, since
+ * the identity library may be loaded in another copy than the one this package imports).
+ */
+export function isCredentialError(error: unknown): boolean {
+  return error instanceof Error && CREDENTIAL_ERROR_NAMES.has(error.name);
+}
+
+/**
+ * Exponential backoff delay before a retry.
+ *
+ * @param retry - Zero-based retry number (0 for the first retry).
+ * @param retryDelay - Delay before the first retry in milliseconds.
+ * @returns retryDelay * 2^retry, capped at MAX_RETRY_DELAY_MS.
+ */
+export function retryBackoff(retry: number, retryDelay: number): number {
+  return Math.min(retryDelay * 2 ** retry, MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * Resolve after the given number of milliseconds, or as soon as the signal is aborted.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const done = (): void => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done, { once: true });
+  });
+}
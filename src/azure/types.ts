@@ -1,3 +1,5 @@
+import type { AzureVenvAuth } from '../config/types.js';
+
 /**
  * Metadata for a single blob returned from listing.
  */
@@ -21,12 +23,15 @@ export interface BlobClientConfig {
   /** Container name. */
   readonly containerName: string;
 
-  /** SAS token string (without leading '?'). */
-  readonly sasToken: string;
+  /** Authentication settings (SAS token, Azure AD credential, shared key or connection string). */
+  readonly auth: AzureVenvAuth;
 
-  /** Maximum retry count for SDK operations. Default: 3. */
+  /** Retries after a retryable failure (network error, timeout, 408/429/5xx). Default: 3. */
   readonly maxRetries: number;
 
-  /** Per-operation timeout in milliseconds. Default: 30000. */
+  /** Delay in milliseconds before the first retry, doubled for each further retry. Default: 1000. */
+  readonly retryDelay: number;
+
+  /** Timeout in milliseconds of each attempt of an operation. Default: 30000. */
   readonly timeout: number;
 }
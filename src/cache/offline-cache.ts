@@ -0,0 +1,187 @@
+import * as path from 'node:path';
+import { createCipheriv, createDecipheriv, createHash, randomBytes, scrypt } from 'node:crypto';
+import { mkdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+
+import type { OfflineCacheConfig, ParsedBlobUrl } from '../config/types.js';
+import type { BlobContent } from '../types/index.js';
+import type { Logger } from '../logging/logger.js';
+import type { RemoteEnvFile } from '../env/remote-files.js';
+
+/** File signature and format version of cache files. */
+const CACHE_MAGIC = Buffer.from('AZVC\x01', 'latin1');
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const KEY_LENGTH = 32;
+
+/**
+ * Last successful sync as stored in the offline cache.
+ */
+export interface CachedSync {
+  /** When the entry was written (epoch milliseconds). */
+  readonly savedAt: number;
+
+  /** Parsed remote .env files that existed, in merge order, with their ETags. */
+  readonly remoteEnvFiles: readonly RemoteEnvFile[];
+
+  /** Blob contents, sorted by relativePath. */
+  readonly blobs: readonly BlobContent[];
+}
+
+/**
+ * JSON shape of a cache entry before encryption.
+ */
+interface SerializedSync {
+  readonly sourceId: string;
+  readonly savedAt: number;
+  readonly remoteEnvFiles: readonly RemoteEnvFile[];
+  readonly blobs: ReadonlyArray<Omit<BlobContent, 'content'> & { readonly content: string }>;
+}
+
+/** Derive the AES-256 key from the cache passphrase. */
+function deriveKey(passphrase: string, salt: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(passphrase, salt, KEY_LENGTH, (error, key) => (error ? reject(error) : resolve(key)));
+  });
+}
+
+/**
+ * Encrypted-at-rest store of the last successful sync of one blob source.
+ *
+ * Each source (account URL, container and prefix) has its own file in the cache directory.
+ * Files are encrypted with AES-256-GCM under a key derived (scrypt) from the configured
+ * passphrase and written atomically with owner-only permissions.
+ *
+ * Cache failures never fail a sync: save() and load() log and carry on.
+ */
+export class OfflineCache {
+  private readonly settings: OfflineCacheConfig;
+  private readonly sourceId: string;
+  private readonly logger: Logger;
+
+  /** Path of the cache file of this source. */
+  readonly filePath: string;
+
+  /**
+   * @param settings - Resolved cache settings.
+   * @param blobUrl - Parsed AZURE_VENV URL identifying the cached source.
+   * @param logger - Logger instance.
+   */
+  constructor(settings: OfflineCacheConfig, blobUrl: ParsedBlobUrl, logger: Logger) {
+    this.settings = settings;
+    this.sourceId = `${blobUrl.accountUrl}/${blobUrl.containerName}/${blobUrl.prefix}`;
+    this.logger = logger;
+
+    const fileId = createHash('sha256').update(this.sourceId).digest('hex').slice(0, 32);
+    this.filePath = path.join(settings.dir, `${fileId}.cache`);
+  }
+
+  /**
+   * Persist a successful sync, replacing the previous entry.
+   *
+   * @param entry - Remote .env files and blobs of the sync.
+   * @param now - Current time in epoch milliseconds.
+   */
+  async save(entry: Omit<CachedSync, 'savedAt'>, now: number = Date.now()): Promise<void> {
+    const payload: SerializedSync = {
+      sourceId: this.sourceId,
+      savedAt: now,
+      remoteEnvFiles: entry.remoteEnvFiles,
+      blobs: entry.blobs.map((blob) => ({ ...blob, content: blob.content.toString('base64') })),
+    };
+
+    const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+    try {
+      const salt = randomBytes(SALT_LENGTH);
+      const iv = randomBytes(IV_LENGTH);
+      const cipher = createCipheriv('aes-256-gcm', await deriveKey(this.settings.key, salt), iv);
+      cipher.setAAD(CACHE_MAGIC);
+      const ciphertext = Buffer.concat([cipher.update(JSON.stringify(payload), 'utf-8'), cipher.final()]);
+
+      await mkdir(this.settings.dir, { recursive: true, mode: 0o700 });
+      await writeFile(tmpPath, Buffer.concat([CACHE_MAGIC, salt, iv, cipher.getAuthTag(), ciphertext]), {
+        mode: 0o600,
+      });
+      await rename(tmpPath, this.filePath);
+
+      this.logger.debug(`Offline cache saved (${entry.blobs.length} blob(s)) to ${this.filePath}`);
+    } catch (error: unknown) {
+      await rm(tmpPath, { force: true }).catch(() => undefined);
+      this.logger.warn(
+        `Failed to save offline cache: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Read the last successful sync of this source.
+   *
+   * @param now - Current time in epoch milliseconds.
+   * @returns The cached sync, or null if there is none, it is older than the configured
+   *   maximum age, or it cannot be decrypted (wrong key or corrupted file).
+   */
+  async load(now: number = Date.now()): Promise<CachedSync | null> {
+    let data: Buffer;
+    try {
+      data = await readFile(this.filePath);
+    } catch (error: unknown) {
+      this.logger.debug(
+        `No offline cache available: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      return null;
+    }
+
+    let payload: SerializedSync;
+    try {
+      payload = await this.decrypt(data);
+    } catch {
+      this.logger.warn(
+        `Offline cache at ${this.filePath} could not be decrypted (wrong AZURE_VENV_CACHE_KEY or corrupted file)`,
+      );
+      return null;
+    }
+
+    if (payload.sourceId !== this.sourceId) {
+      this.logger.warn(`Offline cache at ${this.filePath} belongs to a different source, ignoring it`);
+      return null;
+    }
+
+    const age = now - payload.savedAt;
+    if (this.settings.maxAge !== null && age > this.settings.maxAge) {
+      this.logger.warn(
+        `Offline cache is ${age}ms old, older than AZURE_VENV_CACHE_MAX_AGE (${this.settings.maxAge}ms), ignoring it`,
+      );
+      return null;
+    }
+
+    return {
+      savedAt: payload.savedAt,
+      remoteEnvFiles: payload.remoteEnvFiles,
+      blobs: payload.blobs.map((blob) => ({ ...blob, content: Buffer.from(blob.content, 'base64') })),
+    };
+  }
+
+  /**
+   * Decrypt and parse a cache file.
+   *
+   * @throws Error if the file is not a cache file, the key is wrong or the content was tampered with.
+   */
+  private async decrypt(data: Buffer): Promise<SerializedSync> {
+    if (!data.subarray(0, CACHE_MAGIC.length).equals(CACHE_MAGIC)) {
+      throw new Error('Not an azure-venv cache file');
+    }
+
+    let offset = CACHE_MAGIC.length;
+    const salt = data.subarray(offset, (offset += SALT_LENGTH));
+    const iv = data.subarray(offset, (offset += IV_LENGTH));
+    const tag = data.subarray(offset, (offset += TAG_LENGTH));
+    const ciphertext = data.subarray(offset);
+
+    const decipher = createDecipheriv('aes-256-gcm', await deriveKey(this.settings.key, salt), iv);
+    decipher.setAAD(CACHE_MAGIC);
+    decipher.setAuthTag(tag);
+    const plaintext = Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+
+    return JSON.parse(plaintext.toString('utf-8')) as SerializedSync;
+  }
+}
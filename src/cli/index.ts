@@ -31,6 +31,13 @@ function printSyncSummary(result: SyncResult): void {
     }
   }
 
+  if (result.skippedBlobs.length > 0) {
+    console.log(`  Skipped blobs:`);
+    for (const blob of result.skippedBlobs) {
+      console.log(`    - ${blob.blobName} (${(blob.size / 1024).toFixed(1)} KB, ${blob.reason})`);
+    }
+  }
+
   const envSourceKeys = Object.keys(result.envSources);
   if (envSourceKeys.length > 0) {
     console.log(`  Env sources:    ${envSourceKeys.length} variable(s) tracked`);
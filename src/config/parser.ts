@@ -1,28 +1,54 @@
-import { ParsedBlobUrl } from './types.js';
+import { fileURLToPath } from 'node:url';
+
+import { BlobUrlStyle, ParsedBlobUrl } from './types.js';
 import { ConfigurationError } from '../errors/index.js';
 
+/**
+ * Host suffixes of the recognised Azure Blob Storage endpoints (virtual-host style).
+ * Private-link names (e.g. `<account>.privatelink.blob.core.windows.net`) match as well.
+ */
+export const RECOGNIZED_BLOB_ENDPOINT_SUFFIXES: readonly string[] = [
+  '.blob.core.windows.net', // Azure public cloud
+  '.blob.core.chinacloudapi.cn', // Azure China
+  '.blob.core.usgovcloudapi.net', // Azure US Government
+];
+
 /**
  * Parse an AZURE_VENV URL string into its component parts.
  *
  * @param azureVenvUrl - The AZURE_VENV environment variable value.
- *   Format: https://<account>.blob.core.windows.net/<container>[/<prefix>]
+ *   Format ('standard' and 'custom-host'): https://<account>.<host>/<container>[/<prefix>]
+ *   Format ('path-style'): http(s)://<host>[:port]/<account>/<container>[/<prefix>]
+ *   Format ('local'): file:///<directory>
+ * @param style - URL style. Default: 'standard'.
+ *   - 'standard': host must end with a recognised endpoint suffix
+ *     (RECOGNIZED_BLOB_ENDPOINT_SUFFIXES); HTTPS only.
+ *   - 'custom-host': any host (custom domain, private DNS, Azure Stack);
+ *     account name is the first host label; HTTPS only.
+ *   - 'path-style': any host, account name is the first path segment
+ *     (Azurite and other emulators); HTTP is allowed.
+ *   - 'local': a local directory served by LocalDirectoryBlobSource. Selected automatically
+ *     for file:// URLs whatever the requested style.
  *
- * @returns ParsedBlobUrl with accountUrl, containerName, and prefix.
+ * @returns ParsedBlobUrl with accountUrl, accountName, containerName, prefix and style.
  *
  * @throws ConfigurationError with parameter='AZURE_VENV' if:
  *   - URL is not a valid URL (cannot be parsed by new URL())
- *   - URL scheme is not 'https:'
- *   - URL host does not end with '.blob.core.windows.net'
- *   - URL path does not contain at least one segment (container name)
+ *   - URL scheme is not 'https:' (or 'http:' in path-style, 'file:' in local style)
+ *   - URL host is not a recognised endpoint (style 'standard')
+ *   - URL path does not contain the account name (path-style) and container name
  *
  * Contract:
- *   - accountUrl is always "https://<host>" with no trailing slash
- *   - containerName is always the first path segment
+ *   - accountUrl is always "<scheme>://<host[:port]>[/<account>]" with no trailing slash
+ *     (the account segment is only present in path-style)
+ *   - containerName is always the path segment following the account
  *   - prefix is always empty string OR a path ending with '/'
  *   - prefix never starts with '/'
+ *   - local style: accountUrl is 'file://', accountName and prefix are empty and
+ *     containerName is the absolute directory path
  *   - SAS token must NOT be part of the URL
  */
-export function parseBlobUrl(azureVenvUrl: string): ParsedBlobUrl {
+export function parseBlobUrl(azureVenvUrl: string, style: BlobUrlStyle = 'standard'): ParsedBlobUrl {
   // Attempt to parse URL
   let parsed: URL;
   try {
@@ -34,18 +60,43 @@ export function parseBlobUrl(azureVenvUrl: string): ParsedBlobUrl {
     );
   }
 
-  // Validate HTTPS protocol
-  if (parsed.protocol !== 'https:') {
+  // file:// URLs always denote a local directory source
+  if (parsed.protocol === 'file:') {
+    return {
+      accountUrl: 'file://',
+      accountName: '',
+      containerName: fileURLToPath(parsed).replace(/[\\/]+$/, '') || '/',
+      prefix: '',
+      style: 'local',
+    };
+  }
+  if (style === 'local') {
     throw new ConfigurationError(
-      `AZURE_VENV must use HTTPS scheme, got "${parsed.protocol}"`,
+      `AZURE_VENV must be a file:// URL when AZURE_VENV_URL_STYLE is "local", got "${parsed.protocol}"`,
       'AZURE_VENV',
     );
   }
 
-  // Validate host ends with .blob.core.windows.net
-  if (!parsed.hostname.endsWith('.blob.core.windows.net')) {
+  // Validate protocol: HTTPS, or HTTP for path-style (emulator) URLs
+  const allowedProtocols = style === 'path-style' ? ['https:', 'http:'] : ['https:'];
+  if (!allowedProtocols.includes(parsed.protocol)) {
     throw new ConfigurationError(
-      `AZURE_VENV host must end with ".blob.core.windows.net", got "${parsed.hostname}"`,
+      style === 'path-style'
+        ? `AZURE_VENV must use HTTP or HTTPS scheme, got "${parsed.protocol}"`
+        : `AZURE_VENV must use HTTPS scheme, got "${parsed.protocol}"`,
+      'AZURE_VENV',
+    );
+  }
+
+  // Validate host is a recognised Azure Blob endpoint (unless custom hosts were opted into)
+  const hostname = parsed.hostname.toLowerCase();
+  if (
+    style === 'standard' &&
+    !RECOGNIZED_BLOB_ENDPOINT_SUFFIXES.some((suffix) => hostname.endsWith(suffix))
+  ) {
+    throw new ConfigurationError(
+      `AZURE_VENV host must end with one of ${RECOGNIZED_BLOB_ENDPOINT_SUFFIXES.map((s) => `"${s}"`).join(', ')}, ` +
+      `got "${parsed.hostname}". Set AZURE_VENV_URL_STYLE to "custom-host" or "path-style" for other endpoints.`,
       'AZURE_VENV',
     );
   }
@@ -55,7 +106,25 @@ export function parseBlobUrl(azureVenvUrl: string): ParsedBlobUrl {
     .split('/')
     .filter((segment) => segment.length > 0);
 
-  // Validate that at least one path segment exists (container name)
+  // Path-style URLs carry the account name as the first path segment
+  let accountName: string;
+  let accountUrl: string;
+  if (style === 'path-style') {
+    const accountSegment = pathSegments.shift();
+    if (accountSegment === undefined) {
+      throw new ConfigurationError(
+        'AZURE_VENV path-style URL must contain an account name in the path',
+        'AZURE_VENV',
+      );
+    }
+    accountName = accountSegment;
+    accountUrl = `${parsed.protocol}//${parsed.host}/${accountSegment}`;
+  } else {
+    accountName = hostname.split('.')[0];
+    accountUrl = `${parsed.protocol}//${parsed.host}`;
+  }
+
+  // Validate that a path segment exists for the container name
   if (pathSegments.length === 0) {
     throw new ConfigurationError(
       'AZURE_VENV URL must contain a container name in the path',
@@ -63,10 +132,7 @@ export function parseBlobUrl(azureVenvUrl: string): ParsedBlobUrl {
     );
   }
 
-  // Build accountUrl (protocol + host, no trailing slash)
-  const accountUrl = `${parsed.protocol}//${parsed.hostname}`;
-
-  // First segment is the container name
+  // First remaining segment is the container name
   const containerName = pathSegments[0];
 
   // Remaining segments form the prefix
@@ -77,7 +143,9 @@ export function parseBlobUrl(azureVenvUrl: string): ParsedBlobUrl {
 
   return {
     accountUrl,
+    accountName,
     containerName,
     prefix,
+    style,
   };
 }
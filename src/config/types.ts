@@ -1,21 +1,59 @@
+import type { TokenCredential } from '@azure/core-auth';
+
+import type { BlobSource } from '../source/types.js';
+import type { SecretResolver } from '../env/secrets.js';
+import type { EnvSchema } from '../env/schema.js';
+import type { EnvPrecedence, EnvSource, SyncResult } from '../types/index.js';
+
+/**
+ * How the AZURE_VENV URL is interpreted.
+ *
+ * - 'standard': https://<account>.<recognised Azure blob endpoint>/<container>[/<prefix>]
+ * - 'custom-host': https://<account>.<any host>/<container>[/<prefix>] (custom domains, private DNS)
+ * - 'path-style': http(s)://<host[:port]>/<account>/<container>[/<prefix>] (Azurite, emulators)
+ * - 'local': file:///<directory> (offline development against a local directory)
+ */
+export type BlobUrlStyle = 'standard' | 'custom-host' | 'path-style' | 'local';
+
 /**
  * Parsed components of the AZURE_VENV URL.
  *
  * Given: https://myaccount.blob.core.windows.net/mycontainer/config/prod
  * Result:
  *   accountUrl: "https://myaccount.blob.core.windows.net"
+ *   accountName: "myaccount"
  *   containerName: "mycontainer"
  *   prefix: "config/prod/"
+ *
+ * Given (path-style): http://127.0.0.1:10000/devstoreaccount1/mycontainer
+ * Result:
+ *   accountUrl: "http://127.0.0.1:10000/devstoreaccount1"
+ *   accountName: "devstoreaccount1"
+ *   containerName: "mycontainer"
+ *   prefix: ""
+ *
+ * Given (local): file:///srv/config
+ * Result:
+ *   accountUrl: "file://"
+ *   accountName: ""
+ *   containerName: "/srv/config"
+ *   prefix: ""
  */
 export interface ParsedBlobUrl {
-  /** Full account URL including protocol and host. Example: "https://myaccount.blob.core.windows.net" */
+  /** Full account URL including protocol and host (and the account segment for path-style URLs). Example: "https://myaccount.blob.core.windows.net" */
   readonly accountUrl: string;
 
+  /** Storage account name. Example: "myaccount" */
+  readonly accountName: string;
+
   /** Container name extracted from the URL path. Example: "mycontainer" */
   readonly containerName: string;
 
   /** Virtual directory prefix with trailing slash, or empty string for container root. Example: "config/prod/" */
   readonly prefix: string;
+
+  /** URL style the AZURE_VENV value was parsed with. */
+  readonly style: BlobUrlStyle;
 }
 
 /**
@@ -23,6 +61,84 @@ export interface ParsedBlobUrl {
  */
 export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
 
+/**
+ * When blob content is downloaded.
+ *
+ * - 'eager': every blob is read into memory during the sync. Default.
+ * - 'lazy': the sync only lists blobs; content is downloaded on first use (BlobContent.load)
+ *   and kept in an LRU cache of AZURE_VENV_LAZY_CACHE_SIZE bytes.
+ */
+export type LoadMode = 'eager' | 'lazy';
+
+/**
+ * Authentication mode for Azure Blob Storage.
+ *
+ * - 'sas': SAS token (AZURE_VENV_SAS_TOKEN). Default.
+ * - 'default-credential': Azure AD via DefaultAzureCredential (workload/managed identity,
+ *   environment, Azure CLI), or the TokenCredential passed in AzureVenvOptions.credential.
+ * - 'client-secret': Azure AD service principal (AZURE_VENV_TENANT_ID, AZURE_VENV_CLIENT_ID,
+ *   AZURE_VENV_CLIENT_SECRET).
+ * - 'account-key': Storage account shared key (AZURE_VENV_ACCOUNT_KEY).
+ * - 'connection-string': Storage connection string (AZURE_VENV_CONNECTION_STRING).
+ */
+export type AuthMode = 'sas' | 'default-credential' | 'client-secret' | 'account-key' | 'connection-string';
+
+/**
+ * Resolved authentication settings, discriminated by mode.
+ * Secret fields must never be logged directly.
+ */
+export type AzureVenvAuth =
+  | { readonly mode: 'sas'; readonly sasToken: string }
+  | { readonly mode: 'default-credential'; readonly credential?: TokenCredential }
+  | {
+      readonly mode: 'client-secret';
+      readonly tenantId: string;
+      readonly clientId: string;
+      readonly clientSecret: string;
+    }
+  | { readonly mode: 'account-key'; readonly accountName: string; readonly accountKey: string }
+  | { readonly mode: 'connection-string'; readonly connectionString: string }
+  /** No credentials: local directory sources (file:// AZURE_VENV URLs). */
+  | { readonly mode: 'none' };
+
+/**
+ * Resolved settings of the encrypted offline cache (last-known-good sync).
+ */
+export interface OfflineCacheConfig {
+  /** Absolute directory holding the cache files. */
+  readonly dir: string;
+
+  /** Passphrase the cache encryption key is derived from. Never log this value directly. */
+  readonly key: string;
+
+  /** Maximum age in milliseconds of a cache entry that may be served, or null for no limit. */
+  readonly maxAge: number | null;
+}
+
+/**
+ * An additional blob source synced alongside AZURE_VENV (AZURE_VENV_<n> or AzureVenvOptions.sources).
+ * It shares the operational settings (concurrency, retries, filters, limits) of the primary configuration.
+ */
+export interface AdditionalSourceConfig {
+  /** Namespace of the source: its blobs' relativePath starts with `<name>/`. */
+  readonly name: string;
+
+  /** Parsed blob URL of the source. */
+  readonly blobUrl: ParsedBlobUrl;
+
+  /** Resolved authentication settings: SAS, or none for file:// URLs. */
+  readonly auth: AzureVenvAuth;
+
+  /** SAS token string (without leading '?'). Empty string for file:// URLs. Never log this value directly. */
+  readonly sasToken: string;
+
+  /** Expiry date of the SAS token, if determinable from its 'se' parameter. */
+  readonly sasExpiry: Date | null;
+
+  /** Remote .env blobs of the source, merged in order. Default: [`<prefix>.env`]. */
+  readonly envFiles: readonly string[];
+}
+
 /**
  * Full validated configuration object produced by the config validator.
  * All required fields are guaranteed to be present and valid.
@@ -32,7 +148,10 @@ export interface AzureVenvConfig {
   /** Parsed blob URL components */
   readonly blobUrl: ParsedBlobUrl;
 
-  /** SAS token string (without leading '?'). Never log this value directly. */
+  /** Resolved authentication settings. */
+  readonly auth: AzureVenvAuth;
+
+  /** SAS token string (without leading '?'). Empty string unless auth mode is 'sas'. Never log this value directly. */
   readonly sasToken: string;
 
   /** ISO 8601 expiry date of the SAS token, if determinable. Parsed from AZURE_VENV_SAS_EXPIRY or the token's 'se' parameter. */
@@ -44,9 +163,15 @@ export interface AzureVenvConfig {
   /** Maximum number of parallel blob downloads. Default: 5. */
   readonly concurrency: number;
 
-  /** Per-blob download timeout in milliseconds. Default: 30000. */
+  /** Per-blob download timeout in milliseconds, applied to each attempt. Default: 30000. */
   readonly timeout: number;
 
+  /** Retries after a retryable Azure failure (network error, timeout, 408/429/5xx). Default: 3. */
+  readonly maxRetries: number;
+
+  /** Delay in milliseconds before the first retry, doubled for each further retry. Default: 1000. */
+  readonly retryDelay: number;
+
   /** Logging verbosity. Default: 'info'. */
   readonly logLevel: LogLevel;
 
@@ -56,25 +181,120 @@ export interface AzureVenvConfig {
   /** Path to local .env file, relative to rootDir. Default: '.env'. */
   readonly envPath: string;
 
+  /**
+   * Remote .env blobs (container-relative names), merged in order: later files override earlier ones.
+   * Default: [`<prefix>.env`].
+   */
+  readonly envFiles: readonly string[];
+
+  /**
+   * Whether `${NAME}` references in local and remote .env values are expanded after precedence
+   * is applied. Default: false.
+   */
+  readonly expand: boolean;
+
+  /**
+   * Order of the OS, remote and local tiers, globally and per key. Also applied when watch mode
+   * re-applies the remote .env. Default: os, remote, local for every key.
+   */
+  readonly precedence: EnvPrecedence;
+
   /** Polling interval in milliseconds for watch mode. Default: 30000 (30s). */
   readonly pollInterval: number;
 
   /** Whether watch mode is enabled after initial sync. Default: false. */
   readonly watchEnabled: boolean;
+
+  /** Offline cache settings, or null when AZURE_VENV_CACHE_DIR is not set. */
+  readonly cache: OfflineCacheConfig | null;
+
+  /** Glob patterns (relative to the prefix) a blob must match one of to be synced. Empty: all blobs. Default: []. */
+  readonly include: readonly string[];
+
+  /** Glob patterns (relative to the prefix) of blobs never synced. Takes precedence over include. Default: []. */
+  readonly exclude: readonly string[];
+
+  /** Largest blob in bytes that is read into memory, or null for no limit. Default: null. */
+  readonly maxBlobSize: number | null;
+
+  /** Maximum total bytes of blob content held in memory, or null for no limit. Default: null. */
+  readonly memoryBudget: number | null;
+
+  /** Whether blobs skipped by the size limits can be downloaded on demand (SkippedBlob.load). Default: false. */
+  readonly lazyOversized: boolean;
+
+  /** Whether blob content is read during the sync or on first use. Default: 'eager'. */
+  readonly loadMode: LoadMode;
+
+  /** Capacity in bytes of the LRU cache holding lazily loaded content. Default: memoryBudget or 64 MiB. */
+  readonly lazyCacheSize: number;
+
+  /**
+   * Namespace of this configuration's blobs: empty for the primary AZURE_VENV source,
+   * the source name in the configuration of an additional source.
+   */
+  readonly sourceName: string;
+
+  /**
+   * Sources synced after AZURE_VENV, in precedence order: the remote .env of AZURE_VENV wins
+   * over those of additional sources, and an earlier additional source over a later one. Default: [].
+   */
+  readonly additionalSources: readonly AdditionalSourceConfig[];
+}
+
+/**
+ * An additional blob source passed in AzureVenvOptions.sources.
+ */
+export interface AzureVenvSourceOptions {
+  /** Namespace of the source's blobs (letters, digits, '.', '_' and '-'). */
+  name: string;
+
+  /** Blob URL of the source, in the same form as AZURE_VENV (parsed with the same URL style). */
+  url: string;
+
+  /** SAS token of the source. Not needed for file:// URLs. */
+  sasToken?: string;
+
+  /** Remote .env blobs of the source (container-relative names, lowest precedence first). Default: `<prefix>.env` */
+  envFiles?: string[];
+
+  /** Blob source to read from instead of the one selected by url. */
+  source?: BlobSource;
 }
 
 /**
  * User-provided partial options for initAzureVenv().
- * All fields are optional. Required config (AZURE_VENV, AZURE_VENV_SAS_TOKEN)
- * is read from process.env, not from this object.
+ * All fields are optional. Required config (AZURE_VENV and the credentials of the
+ * selected auth mode) is read from process.env, not from this object.
  */
-export interface AzureVenvOptions {
+export interface AzureVenvOptions<TEnv = unknown> {
   /** Application root directory. Default: process.cwd() */
   rootDir?: string;
 
   /** Path to local .env file relative to rootDir. Default: '.env' */
   envPath?: string;
 
+  /**
+   * Override the remote .env blobs (container-relative names, lowest precedence first);
+   * null for `<prefix>.env`. Default: reads AZURE_VENV_ENV_FILES (comma-separated) or `<prefix>.env`
+   */
+  envFiles?: string[] | null;
+
+  /** Override variable expansion in .env values. Default: reads AZURE_VENV_EXPAND or false */
+  expand?: boolean;
+
+  /**
+   * Override the order of the tiers, highest precedence first, e.g. ['local', 'remote', 'os'].
+   * Default: reads AZURE_VENV_PRECEDENCE or ['os', 'remote', 'local']
+   */
+  precedence?: readonly EnvSource[];
+
+  /**
+   * Override the order of individual keys, e.g. { DB_URL: ['local', 'os', 'remote'] }.
+   * Replaces AZURE_VENV_PRECEDENCE_OVERRIDES. Default: reads AZURE_VENV_PRECEDENCE_OVERRIDES or none
+   */
+  precedenceOverrides?: Readonly<Record<string, readonly EnvSource[]>>;
+
   /** Override fail-on-error behavior. Default: reads AZURE_VENV_FAIL_ON_ERROR or false */
   failOnError?: boolean;
 
@@ -84,6 +304,12 @@ export interface AzureVenvOptions {
   /** Override per-blob timeout in ms. Default: reads AZURE_VENV_TIMEOUT or 30000 */
   timeout?: number;
 
+  /** Override retry count for retryable Azure failures. Default: reads AZURE_VENV_MAX_RETRIES or 3 */
+  maxRetries?: number;
+
+  /** Override initial retry backoff in ms. Default: reads AZURE_VENV_RETRY_DELAY or 1000 */
+  retryDelay?: number;
+
   /** Override log level. Default: reads AZURE_VENV_LOG_LEVEL or 'info' */
   logLevel?: LogLevel;
 
@@ -92,6 +318,98 @@ export interface AzureVenvOptions {
 
   /** Override watch mode enabled flag. Default: reads AZURE_VENV_WATCH_ENABLED or false */
   watchEnabled?: boolean;
+
+  /** Override AZURE_VENV URL style. Default: reads AZURE_VENV_URL_STYLE or 'standard' */
+  urlStyle?: BlobUrlStyle;
+
+  /** Override offline cache directory (relative to rootDir); null disables the cache. Default: reads AZURE_VENV_CACHE_DIR or disabled */
+  cacheDir?: string | null;
+
+  /** Override offline cache passphrase. Default: reads AZURE_VENV_CACHE_KEY */
+  cacheKey?: string;
+
+  /** Override maximum age in ms of a servable cache entry. Default: reads AZURE_VENV_CACHE_MAX_AGE or no limit */
+  cacheMaxAge?: number;
+
+  /**
+   * Override the additional sources synced alongside AZURE_VENV, in precedence order.
+   * Default: reads AZURE_VENV_<n>, AZURE_VENV_SAS_TOKEN_<n>, AZURE_VENV_NAME_<n> and
+   * AZURE_VENV_ENV_FILES_<n> for n = 1, 2, ...; none when unset. Not supported in watch mode.
+   */
+  sources?: AzureVenvSourceOptions[];
+
+  /** Override blob include globs. Default: reads AZURE_VENV_INCLUDE (comma-separated) or all blobs */
+  include?: string[];
+
+  /** Override blob exclude globs. Default: reads AZURE_VENV_EXCLUDE (comma-separated) or none */
+  exclude?: string[];
+
+  /** Override maximum size in bytes of a blob read into memory; null for no limit. Default: reads AZURE_VENV_MAX_BLOB_SIZE or no limit */
+  maxBlobSize?: number | null;
+
+  /** Override total in-memory blob budget in bytes; null for no limit. Default: reads AZURE_VENV_MEMORY_BUDGET or no limit */
+  memoryBudget?: number | null;
+
+  /** Override on-demand loading of skipped blobs. Default: reads AZURE_VENV_LAZY_OVERSIZED or false */
+  lazyOversized?: boolean;
+
+  /** Override when blob content is downloaded. Default: reads AZURE_VENV_LOAD_MODE or 'eager' */
+  loadMode?: LoadMode;
+
+  /** Override lazy content cache capacity in bytes. Default: reads AZURE_VENV_LAZY_CACHE_SIZE, memoryBudget or 64 MiB */
+  lazyCacheSize?: number;
+
+  /**
+   * Override authentication mode. Default: reads AZURE_VENV_AUTH_MODE, or
+   * 'default-credential' when `credential` is provided, or 'sas'.
+   */
+  authMode?: AuthMode;
+
+  /**
+   * Azure AD credential to use instead of DefaultAzureCredential.
+   * Only valid with auth mode 'default-credential'.
+   */
+  credential?: TokenCredential;
+
+  /**
+   * Blob source to read from instead of the one selected by AZURE_VENV
+   * (Azure Blob Storage, or a local directory for file:// URLs).
+   * AZURE_VENV must still be set; its prefix is applied to the injected source.
+   */
+  source?: BlobSource;
+
+  /**
+   * Result of a previous sync of the same source. Blobs whose ETag (or content MD5) is unchanged
+   * reuse its content instead of being downloaded again; see SyncResult.reused.
+   * Default: the offline cache entry, when AZURE_VENV_CACHE_DIR is set.
+   */
+  previous?: Pick<SyncResult, 'blobs'>;
+
+  /**
+   * Cancels the initial sync. Blobs read before the abort are returned in a partial
+   * SyncResult flagged timedOut (or SyncAbortedError is thrown when failOnError is true).
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Upper bound in milliseconds on the initial sync, counted from the start of the call.
+   * When it passes, the sync stops as if `signal` had been aborted. Default: no deadline.
+   */
+  deadlineMs?: number;
+
+  /**
+   * Resolves secret references (`@keyvault(...)`, `secretref://...`) in remote .env values,
+   * at load time and whenever watch mode re-applies the remote .env.
+   * Default: none; a reference is then unresolvable (see SecretResolutionError).
+   */
+  secretResolver?: SecretResolver;
+
+  /**
+   * Schema the merged variables (SyncResult.envDetails.variables) must match after the sync (and after
+   * each watch mode re-apply), e.g. a Zod object schema. Its parsed output is returned in SyncResult.env.
+   * Default: none (SyncResult.env is undefined).
+   */
+  envSchema?: EnvSchema<TEnv>;
 }
 
 /**
@@ -105,7 +423,30 @@ export interface RawEnvConfig {
   AZURE_VENV_FAIL_ON_ERROR?: string;
   AZURE_VENV_CONCURRENCY?: string;
   AZURE_VENV_TIMEOUT?: string;
+  AZURE_VENV_MAX_RETRIES?: string;
+  AZURE_VENV_RETRY_DELAY?: string;
   AZURE_VENV_LOG_LEVEL?: string;
   AZURE_VENV_POLL_INTERVAL?: string;
   AZURE_VENV_WATCH_ENABLED?: string;
+  AZURE_VENV_URL_STYLE?: string;
+  AZURE_VENV_CACHE_DIR?: string;
+  AZURE_VENV_CACHE_KEY?: string;
+  AZURE_VENV_CACHE_MAX_AGE?: string;
+  AZURE_VENV_INCLUDE?: string;
+  AZURE_VENV_EXCLUDE?: string;
+  AZURE_VENV_MAX_BLOB_SIZE?: string;
+  AZURE_VENV_MEMORY_BUDGET?: string;
+  AZURE_VENV_LAZY_OVERSIZED?: string;
+  AZURE_VENV_LOAD_MODE?: string;
+  AZURE_VENV_LAZY_CACHE_SIZE?: string;
+  AZURE_VENV_ENV_FILES?: string;
+  AZURE_VENV_EXPAND?: string;
+  AZURE_VENV_PRECEDENCE?: string;
+  AZURE_VENV_PRECEDENCE_OVERRIDES?: string;
+  AZURE_VENV_AUTH_MODE?: string;
+  AZURE_VENV_TENANT_ID?: string;
+  AZURE_VENV_CLIENT_ID?: string;
+  AZURE_VENV_CLIENT_SECRET?: string;
+  AZURE_VENV_ACCOUNT_KEY?: string;
+  AZURE_VENV_CONNECTION_STRING?: string;
 }
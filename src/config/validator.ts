@@ -1,21 +1,68 @@
+import * as path from 'node:path';
 import { z } from 'zod';
-import { AzureVenvConfig, AzureVenvOptions } from './types.js';
+import {
+  AdditionalSourceConfig,
+  AuthMode,
+  AzureVenvAuth,
+  AzureVenvConfig,
+  AzureVenvOptions,
+  BlobUrlStyle,
+  OfflineCacheConfig,
+  ParsedBlobUrl,
+} from './types.js';
+import type { EnvPrecedence, EnvSource } from '../types/index.js';
 import { ConfigurationError, AuthenticationError } from '../errors/index.js';
 import { parseBlobUrl } from './parser.js';
+import { splitGlobList } from '../sync/filter.js';
+import { defaultEnvBlobName } from '../env/remote-files.js';
+import { DEFAULT_ENV_PRECEDENCE } from '../env/precedence.js';
+
+/** Names of additional sources: a single path segment, used as their blobs' namespace. */
+const SOURCE_NAME_PATTERN = /^[A-Za-z0-9._-]+$/;
+
+/**
+ * Split a comma-separated list of blob names (AZURE_VENV_ENV_FILES).
+ * Entries are trimmed and empty entries dropped.
+ */
+function splitNameList(value: string): string[] {
+  return value.split(',').map((name) => name.trim()).filter((name) => name !== '');
+}
+
+/** Multipliers of the unit suffixes accepted by byte size settings. */
+const BYTE_UNITS: Readonly<Record<string, number>> = {
+  '': 1,
+  b: 1,
+  kb: 1024,
+  mb: 1024 ** 2,
+  gb: 1024 ** 3,
+};
+
+/**
+ * Zod schema of a byte size env var: a positive integer with an optional
+ * KB/MB/GB suffix (binary multiples, case-insensitive). Example: "512MB".
+ */
+function byteSize(name: string) {
+  return z
+    .string()
+    .regex(/^\d+\s*(b|kb|mb|gb)?$/i, `${name} must be a positive integer of bytes, optionally with a KB, MB or GB suffix`)
+    .transform((value) => {
+      const [, amount, unit = ''] = /^(\d+)\s*([a-z]*)$/i.exec(value) ?? [];
+      return Number(amount) * BYTE_UNITS[unit.toLowerCase()];
+    })
+    .refine((n) => n > 0, `${name} must be greater than 0`);
+}
 
 /**
  * Zod schema for validating raw environment variables.
  * Used internally by validateConfig().
  *
- * Required fields (AZURE_VENV, AZURE_VENV_SAS_TOKEN) have no defaults --
- * their absence is detected BEFORE Zod validation in validateConfig().
+ * AZURE_VENV has no default -- its absence is detected BEFORE Zod validation in
+ * validateConfig(). Credentials are optional here; the ones required by the
+ * selected auth mode are checked after validation.
  */
 const azureVenvEnvSchema = z.object({
-  AZURE_VENV: z.string().url().refine(
-    (url) => url.startsWith('https://'),
-    { message: 'AZURE_VENV must use HTTPS scheme' },
-  ),
-  AZURE_VENV_SAS_TOKEN: z.string().min(1, 'AZURE_VENV_SAS_TOKEN must not be empty'),
+  AZURE_VENV: z.string().url(),
+  AZURE_VENV_SAS_TOKEN: z.string().min(1, 'AZURE_VENV_SAS_TOKEN must not be empty').optional(),
   AZURE_VENV_SAS_EXPIRY: z.string().optional(),
   AZURE_VENV_FAIL_ON_ERROR: z
     .enum(['true', 'false'])
@@ -33,6 +80,18 @@ const azureVenvEnvSchema = z.object({
     .default('30000')
     .transform(Number)
     .refine((n) => n >= 1000 && n <= 300000, 'AZURE_VENV_TIMEOUT must be between 1000 and 300000'),
+  AZURE_VENV_MAX_RETRIES: z
+    .string()
+    .regex(/^\d+$/, 'AZURE_VENV_MAX_RETRIES must be a non-negative integer')
+    .default('3')
+    .transform(Number)
+    .refine((n) => n <= 10, 'AZURE_VENV_MAX_RETRIES must be between 0 and 10'),
+  AZURE_VENV_RETRY_DELAY: z
+    .string()
+    .regex(/^\d+$/, 'AZURE_VENV_RETRY_DELAY must be a non-negative integer')
+    .default('1000')
+    .transform(Number)
+    .refine((n) => n <= 60000, 'AZURE_VENV_RETRY_DELAY must be between 0 and 60000'),
   AZURE_VENV_LOG_LEVEL: z.enum(['debug', 'info', 'warn', 'error']).default('info'),
   AZURE_VENV_POLL_INTERVAL: z
     .string()
@@ -44,8 +103,46 @@ const azureVenvEnvSchema = z.object({
     .enum(['true', 'false'])
     .default('false')
     .transform((v) => v === 'true'),
+  AZURE_VENV_URL_STYLE: z.enum(['standard', 'custom-host', 'path-style', 'local']).default('standard'),
+  AZURE_VENV_AUTH_MODE: z
+    .enum(['sas', 'default-credential', 'client-secret', 'account-key', 'connection-string'])
+    .optional(),
+  AZURE_VENV_TENANT_ID: z.string().optional(),
+  AZURE_VENV_CLIENT_ID: z.string().optional(),
+  AZURE_VENV_CLIENT_SECRET: z.string().optional(),
+  AZURE_VENV_ACCOUNT_KEY: z.string().optional(),
+  AZURE_VENV_CONNECTION_STRING: z.string().optional(),
+  AZURE_VENV_CACHE_DIR: z.string().optional(),
+  AZURE_VENV_CACHE_KEY: z.string().optional(),
+  AZURE_VENV_CACHE_MAX_AGE: z
+    .string()
+    .regex(/^[1-9]\d*$/, 'AZURE_VENV_CACHE_MAX_AGE must be a positive integer')
+    .transform(Number)
+    .optional(),
+  AZURE_VENV_INCLUDE: z.string().transform(splitGlobList).optional(),
+  AZURE_VENV_EXCLUDE: z.string().transform(splitGlobList).optional(),
+  AZURE_VENV_MAX_BLOB_SIZE: byteSize('AZURE_VENV_MAX_BLOB_SIZE').optional(),
+  AZURE_VENV_MEMORY_BUDGET: byteSize('AZURE_VENV_MEMORY_BUDGET').optional(),
+  AZURE_VENV_LAZY_OVERSIZED: z
+    .enum(['true', 'false'])
+    .default('false')
+    .transform((v) => v === 'true'),
+  AZURE_VENV_LOAD_MODE: z.enum(['eager', 'lazy']).default('eager'),
+  AZURE_VENV_LAZY_CACHE_SIZE: byteSize('AZURE_VENV_LAZY_CACHE_SIZE').optional(),
+  AZURE_VENV_ENV_FILES: z.string().transform(splitNameList).optional(),
+  AZURE_VENV_EXPAND: z
+    .enum(['true', 'false'])
+    .default('false')
+    .transform((v) => v === 'true'),
+  AZURE_VENV_PRECEDENCE: z.string().transform(splitNameList).optional(),
+  AZURE_VENV_PRECEDENCE_OVERRIDES: z.string().optional(),
 });
 
+/** Default capacity of the lazy content cache when neither a cache size nor a memory budget is set. */
+export const DEFAULT_LAZY_CACHE_SIZE = 64 * 1024 ** 2;
+
+type ValidatedEnv = z.infer<typeof azureVenvEnvSchema>;
+
 /**
  * Parse SAS expiry from either the AZURE_VENV_SAS_EXPIRY env var or the 'se' parameter
  * within the SAS token itself.
@@ -134,6 +231,328 @@ function checkSasExpiry(expiry: Date | null): void {
   }
 }
 
+/**
+ * Return a credential setting required by the selected auth mode.
+ *
+ * @throws ConfigurationError naming the missing variable.
+ */
+function requireAuthSetting(value: string | undefined, name: string, mode: AuthMode): string {
+  if (!value) {
+    throw new ConfigurationError(
+      `${name} is required when AZURE_VENV_AUTH_MODE is "${mode}"`,
+      name,
+    );
+  }
+  return value;
+}
+
+/**
+ * Build the authentication settings for the selected mode from validated env vars.
+ *
+ * @param mode - Resolved auth mode.
+ * @param validated - Zod-validated environment values.
+ * @param blobUrl - Parsed AZURE_VENV URL (account name for shared key auth).
+ * @param options - User-provided options (TokenCredential injection).
+ */
+function resolveAuth(
+  mode: AuthMode,
+  validated: ValidatedEnv,
+  blobUrl: ParsedBlobUrl,
+  options?: AzureVenvOptions,
+): AzureVenvAuth {
+  if (options?.credential !== undefined && mode !== 'default-credential') {
+    throw new ConfigurationError(
+      `The credential option requires auth mode "default-credential", got "${mode}"`,
+      'credential',
+    );
+  }
+
+  switch (mode) {
+    case 'sas': {
+      const sasToken = requireAuthSetting(validated.AZURE_VENV_SAS_TOKEN, 'AZURE_VENV_SAS_TOKEN', mode);
+      // Strip leading '?' from SAS token if present
+      return { mode, sasToken: sasToken.startsWith('?') ? sasToken.slice(1) : sasToken };
+    }
+    case 'default-credential':
+      return { mode, credential: options?.credential };
+    case 'client-secret':
+      return {
+        mode,
+        tenantId: requireAuthSetting(validated.AZURE_VENV_TENANT_ID, 'AZURE_VENV_TENANT_ID', mode),
+        clientId: requireAuthSetting(validated.AZURE_VENV_CLIENT_ID, 'AZURE_VENV_CLIENT_ID', mode),
+        clientSecret: requireAuthSetting(validated.AZURE_VENV_CLIENT_SECRET, 'AZURE_VENV_CLIENT_SECRET', mode),
+      };
+    case 'account-key':
+      return {
+        mode,
+        accountName: blobUrl.accountName,
+        accountKey: requireAuthSetting(validated.AZURE_VENV_ACCOUNT_KEY, 'AZURE_VENV_ACCOUNT_KEY', mode),
+      };
+    case 'connection-string':
+      return {
+        mode,
+        connectionString: requireAuthSetting(
+          validated.AZURE_VENV_CONNECTION_STRING,
+          'AZURE_VENV_CONNECTION_STRING',
+          mode,
+        ),
+      };
+  }
+}
+
+/**
+ * Build the offline cache settings from validated env vars and options.
+ *
+ * @param validated - Zod-validated environment values.
+ * @param rootDir - Application root, base of a relative cache directory.
+ * @param options - User-provided options overrides.
+ * @returns Cache settings, or null when no cache directory is configured.
+ *
+ * @throws ConfigurationError if a cache directory is set without a cache key.
+ */
+function resolveCache(
+  validated: ValidatedEnv,
+  rootDir: string,
+  options?: AzureVenvOptions,
+): OfflineCacheConfig | null {
+  const dir = options?.cacheDir !== undefined ? options.cacheDir : validated.AZURE_VENV_CACHE_DIR;
+  if (!dir) {
+    return null;
+  }
+
+  const key = options?.cacheKey ?? validated.AZURE_VENV_CACHE_KEY;
+  if (!key) {
+    throw new ConfigurationError(
+      'AZURE_VENV_CACHE_KEY is required when AZURE_VENV_CACHE_DIR is set',
+      'AZURE_VENV_CACHE_KEY',
+    );
+  }
+
+  return {
+    dir: path.resolve(rootDir, dir),
+    key,
+    maxAge: options?.cacheMaxAge ?? validated.AZURE_VENV_CACHE_MAX_AGE ?? null,
+  };
+}
+
+/**
+ * Resolve the ordered list of remote .env blobs of a source.
+ *
+ * @param envFiles - Configured blob names, or undefined for the default.
+ * @param prefix - The blob prefix, used for the default `<prefix>.env`.
+ * @param param - Setting the list came from, for error messages.
+ * @returns Container-relative blob names, lowest precedence first.
+ *
+ * @throws ConfigurationError if the list is empty or names a blob twice.
+ */
+function resolveEnvFiles(
+  envFiles: readonly string[] | undefined,
+  prefix: string,
+  param: string,
+): readonly string[] {
+  if (envFiles === undefined) {
+    return [defaultEnvBlobName(prefix)];
+  }
+
+  if (envFiles.length === 0 || envFiles.some((name) => name.trim() === '')) {
+    throw new ConfigurationError(`${param} must list at least one blob name, without empty entries`, param);
+  }
+  const duplicate = envFiles.find((name, index) => envFiles.indexOf(name) !== index);
+  if (duplicate !== undefined) {
+    throw new ConfigurationError(`${param} lists "${duplicate}" more than once`, param);
+  }
+
+  return [...envFiles];
+}
+
+/**
+ * Check that a precedence order names each of the OS, remote and local tiers once.
+ *
+ * @param order - Tier names, highest precedence first.
+ * @param param - Setting the order came from, for error messages.
+ * @returns The order as EnvSource values.
+ *
+ * @throws ConfigurationError if a name is not a tier, or a tier is missing or repeated.
+ */
+function parseTierOrder(order: readonly string[], param: string): readonly EnvSource[] {
+  const tiers = DEFAULT_ENV_PRECEDENCE.order;
+  const valid = order.length === tiers.length
+    && tiers.every((tier) => order.filter((name) => name === tier).length === 1);
+  if (!valid) {
+    throw new ConfigurationError(`${param} must list os, remote and local once each, e.g. "os,remote,local"`, param);
+  }
+  return order as readonly EnvSource[];
+}
+
+/**
+ * Resolve the tier precedence from options, AZURE_VENV_PRECEDENCE and AZURE_VENV_PRECEDENCE_OVERRIDES.
+ *
+ * AZURE_VENV_PRECEDENCE_OVERRIDES holds `;`-separated `<KEY>=<order>` entries,
+ * e.g. "DB_URL=local,os,remote;API_KEY=remote,os,local".
+ *
+ * @throws ConfigurationError if an order is invalid, or an override entry is malformed or repeats a key.
+ */
+function resolvePrecedence(validated: ValidatedEnv, options?: AzureVenvOptions): EnvPrecedence {
+  const order = options?.precedence !== undefined
+    ? parseTierOrder(options.precedence, 'precedence')
+    : validated.AZURE_VENV_PRECEDENCE !== undefined
+      ? parseTierOrder(validated.AZURE_VENV_PRECEDENCE, 'AZURE_VENV_PRECEDENCE')
+      : DEFAULT_ENV_PRECEDENCE.order;
+
+  const overrides: Record<string, readonly EnvSource[]> = {};
+  if (options?.precedenceOverrides !== undefined) {
+    for (const [key, keyOrder] of Object.entries(options.precedenceOverrides)) {
+      overrides[key] = parseTierOrder(keyOrder, `precedenceOverrides.${key}`);
+    }
+  } else if (validated.AZURE_VENV_PRECEDENCE_OVERRIDES !== undefined) {
+    const param = 'AZURE_VENV_PRECEDENCE_OVERRIDES';
+    for (const entry of validated.AZURE_VENV_PRECEDENCE_OVERRIDES.split(';')) {
+      if (entry.trim() === '') {
+        continue;
+      }
+      const separator = entry.indexOf('=');
+      const key = entry.slice(0, separator).trim();
+      if (separator === -1 || key === '') {
+        throw new ConfigurationError(`${param} entries must look like KEY=os,remote,local, got "${entry.trim()}"`, param);
+      }
+      if (Object.hasOwn(overrides, key)) {
+        throw new ConfigurationError(`${param} lists "${key}" more than once`, param);
+      }
+      overrides[key] = parseTierOrder(splitNameList(entry.slice(separator + 1)), param);
+    }
+  }
+
+  return { order, overrides };
+}
+
+/**
+ * An additional source as configured, before validation.
+ */
+interface SourceInput {
+  readonly name: string;
+  readonly url: string;
+  readonly sasToken?: string;
+  readonly envFiles?: readonly string[];
+
+  /** Setting holding each field, for error messages. */
+  readonly params: { readonly name: string; readonly url: string; readonly sasToken: string; readonly envFiles: string };
+}
+
+/**
+ * Read the additional sources from the numbered env vars (AZURE_VENV_<n> and companions), by ascending n.
+ *
+ * @throws ConfigurationError if AZURE_VENV_SAS_TOKEN_<n> is set without AZURE_VENV_<n>.
+ */
+function numberedSourceInputs(env: Record<string, string | undefined>): SourceInput[] {
+  const numbers = new Set<number>();
+  for (const key of Object.keys(env)) {
+    const match = /^AZURE_VENV_(?:SAS_TOKEN_)?(\d+)$/.exec(key);
+    if (match !== null && env[key]) {
+      numbers.add(Number(match[1]));
+    }
+  }
+
+  return [...numbers].sort((a, b) => a - b).map((n) => {
+    const params = {
+      name: `AZURE_VENV_NAME_${n}`,
+      url: `AZURE_VENV_${n}`,
+      sasToken: `AZURE_VENV_SAS_TOKEN_${n}`,
+      envFiles: `AZURE_VENV_ENV_FILES_${n}`,
+    };
+    const url = env[params.url];
+    if (!url) {
+      throw new ConfigurationError(`${params.sasToken} is set but ${params.url} is missing. Both must be provided.`, params.url);
+    }
+    const envFiles = env[params.envFiles];
+
+    return {
+      name: env[params.name] || `source${n}`,
+      url,
+      sasToken: env[params.sasToken] || undefined,
+      envFiles: envFiles ? splitNameList(envFiles) : undefined,
+      params,
+    };
+  });
+}
+
+/**
+ * Validate one additional source.
+ *
+ * @throws ConfigurationError if the name or URL is invalid, or a non-local source has no SAS token.
+ * @throws AuthenticationError if the SAS token has expired.
+ */
+function resolveAdditionalSource(input: SourceInput, urlStyle: BlobUrlStyle): AdditionalSourceConfig {
+  const { params } = input;
+  if (!SOURCE_NAME_PATTERN.test(input.name)) {
+    throw new ConfigurationError(
+      `${params.name} must consist of letters, digits, '.', '_' and '-', got "${input.name}"`,
+      params.name,
+    );
+  }
+
+  let blobUrl: ParsedBlobUrl;
+  try {
+    blobUrl = parseBlobUrl(input.url, urlStyle);
+  } catch (error: unknown) {
+    if (error instanceof ConfigurationError) {
+      throw new ConfigurationError(`${params.url}: ${error.message}`, params.url);
+    }
+    throw error;
+  }
+
+  const envFiles = resolveEnvFiles(input.envFiles, blobUrl.prefix, params.envFiles);
+  if (blobUrl.style === 'local') {
+    return { name: input.name, blobUrl, auth: { mode: 'none' }, sasToken: '', sasExpiry: null, envFiles };
+  }
+
+  if (!input.sasToken) {
+    throw new ConfigurationError(`${params.url} is set but ${params.sasToken} is missing. Both must be provided.`, params.sasToken);
+  }
+  const sasToken = input.sasToken.startsWith('?') ? input.sasToken.slice(1) : input.sasToken;
+  const sasExpiry = parseSasExpiry(undefined, sasToken);
+  checkSasExpiry(sasExpiry);
+
+  return { name: input.name, blobUrl, auth: { mode: 'sas', sasToken }, sasToken, sasExpiry, envFiles };
+}
+
+/**
+ * Resolve the additional sources from AzureVenvOptions.sources, or else the numbered env vars.
+ *
+ * @param env - Environment variables record.
+ * @param urlStyle - URL style of AZURE_VENV, applied to every source URL.
+ * @param options - User-provided options overrides.
+ * @returns The sources in precedence order.
+ *
+ * @throws ConfigurationError if a source is invalid or two sources share a name.
+ * @throws AuthenticationError if a SAS token has expired.
+ */
+function resolveAdditionalSources(
+  env: Record<string, string | undefined>,
+  urlStyle: BlobUrlStyle,
+  options?: AzureVenvOptions,
+): AdditionalSourceConfig[] {
+  const inputs: SourceInput[] = options?.sources?.map((source, index) => ({
+    ...source,
+    params: {
+      name: `sources[${index}].name`,
+      url: `sources[${index}].url`,
+      sasToken: `sources[${index}].sasToken`,
+      envFiles: `sources[${index}].envFiles`,
+    },
+  })) ?? numberedSourceInputs(env);
+
+  const sources = inputs.map((input) => resolveAdditionalSource(input, urlStyle));
+  const duplicate = sources.find((source, index) => sources.findIndex((other) => other.name === source.name) !== index);
+  if (duplicate !== undefined) {
+    throw new ConfigurationError(
+      `Additional source name "${duplicate.name}" is used more than once`,
+      inputs[sources.indexOf(duplicate)].params.name,
+    );
+  }
+
+  return sources;
+}
+
 /**
  * Check process.env for AZURE_VENV configuration and validate if present.
  *
@@ -144,19 +563,30 @@ function checkSasExpiry(expiry: Date | null): void {
  * @returns AzureVenvConfig if AZURE_VENV is set and configuration is valid.
  *
  * @throws ConfigurationError if:
- *   - AZURE_VENV is set but AZURE_VENV_SAS_TOKEN is missing
- *   - AZURE_VENV fails URL validation (delegates to parseBlobUrl)
+ *   - AZURE_VENV_SAS_TOKEN is set but AZURE_VENV is missing
+ *   - AZURE_VENV is set but the credentials required by the auth mode are missing
+ *     (AZURE_VENV_SAS_TOKEN for the default 'sas' mode; file:// URLs need none)
+ *   - AZURE_VENV fails URL validation for its AZURE_VENV_URL_STYLE (delegates to parseBlobUrl)
  *   - AZURE_VENV_SAS_TOKEN is empty string
+ *   - AZURE_VENV_AUTH_MODE is not a known mode
+ *   - options.credential is provided with an auth mode other than 'default-credential'
+ *   - AZURE_VENV_CACHE_DIR is set without AZURE_VENV_CACHE_KEY
+ *   - An additional source (AZURE_VENV_<n> or options.sources) is set without AZURE_VENV,
+ *     has an invalid name or URL, lacks its SAS token, or shares its name with another
  *   - Any optional parameter has an invalid value
  *
  * @throws AuthenticationError if:
- *   - SAS token is detected as expired (via 'se' param or AZURE_VENV_SAS_EXPIRY)
+ *   - SAS token is detected as expired (via 'se' param or AZURE_VENV_SAS_EXPIRY),
+ *     or the SAS token of an additional source is expired (via its 'se' param)
  *
  * Contract:
  *   - Options override env vars override defaults
  *   - Returns a fully resolved AzureVenvConfig with all fields populated
  *   - Operational defaults: failOnError=false,
- *     concurrency=5, timeout=30000, logLevel='info'
+ *     concurrency=5, timeout=30000, maxRetries=3, retryDelay=1000, logLevel='info', authMode='sas', include=[], exclude=[],
+ *     no blob size limit or memory budget, loadMode='eager', lazyCacheSize=memoryBudget or 64 MiB,
+ *     envFiles=[`<prefix>.env`], expand=false, precedence=os,remote,local without overrides, additionalSources=[]
+ *   - SAS expiry is only checked in 'sas' mode
  *   - Warns if SAS token expires within 7 days
  */
 export function validateConfig(
@@ -168,6 +598,14 @@ export function validateConfig(
 
   // If AZURE_VENV is not set
   if (!azureVenv) {
+    // Additional sources are synced alongside AZURE_VENV, never instead of it
+    const additional = options?.sources?.length
+      ? 'sources'
+      : Object.keys(env).find((key) => /^AZURE_VENV_\d+$/.test(key) && env[key]);
+    if (additional !== undefined) {
+      throw new ConfigurationError(`${additional} is set but AZURE_VENV is missing. Both must be provided.`, 'AZURE_VENV');
+    }
+
     // If AZURE_VENV_SAS_TOKEN is also not set, the library is not configured -- return null
     if (!sasToken) {
       return null;
@@ -179,31 +617,44 @@ export function validateConfig(
     );
   }
 
-  // AZURE_VENV is set but AZURE_VENV_SAS_TOKEN is missing -- partial config error
-  if (!sasToken) {
-    throw new ConfigurationError(
-      'AZURE_VENV is set but AZURE_VENV_SAS_TOKEN is missing. Both must be provided.',
-      'AZURE_VENV_SAS_TOKEN',
-    );
-  }
-
-  // At this point both azureVenv and sasToken are guaranteed to be non-empty strings
-
   // Build the raw env object for Zod validation, filtering out undefined values
   const rawEnv: Record<string, string> = {
     AZURE_VENV: azureVenv,
-    AZURE_VENV_SAS_TOKEN: sasToken,
   };
 
   // Include optional env vars only if they are defined
   const optionalKeys = [
+    'AZURE_VENV_SAS_TOKEN',
     'AZURE_VENV_SAS_EXPIRY',
     'AZURE_VENV_FAIL_ON_ERROR',
     'AZURE_VENV_CONCURRENCY',
     'AZURE_VENV_TIMEOUT',
+    'AZURE_VENV_MAX_RETRIES',
+    'AZURE_VENV_RETRY_DELAY',
     'AZURE_VENV_LOG_LEVEL',
     'AZURE_VENV_POLL_INTERVAL',
     'AZURE_VENV_WATCH_ENABLED',
+    'AZURE_VENV_URL_STYLE',
+    'AZURE_VENV_AUTH_MODE',
+    'AZURE_VENV_TENANT_ID',
+    'AZURE_VENV_CLIENT_ID',
+    'AZURE_VENV_CLIENT_SECRET',
+    'AZURE_VENV_ACCOUNT_KEY',
+    'AZURE_VENV_CONNECTION_STRING',
+    'AZURE_VENV_CACHE_DIR',
+    'AZURE_VENV_CACHE_KEY',
+    'AZURE_VENV_CACHE_MAX_AGE',
+    'AZURE_VENV_INCLUDE',
+    'AZURE_VENV_EXCLUDE',
+    'AZURE_VENV_MAX_BLOB_SIZE',
+    'AZURE_VENV_MEMORY_BUDGET',
+    'AZURE_VENV_LAZY_OVERSIZED',
+    'AZURE_VENV_LOAD_MODE',
+    'AZURE_VENV_LAZY_CACHE_SIZE',
+    'AZURE_VENV_ENV_FILES',
+    'AZURE_VENV_EXPAND',
+    'AZURE_VENV_PRECEDENCE',
+    'AZURE_VENV_PRECEDENCE_OVERRIDES',
   ] as const;
 
   for (const key of optionalKeys) {
@@ -229,33 +680,80 @@ export function validateConfig(
 
   const validated = parseResult.data;
 
-  // Parse the AZURE_VENV URL (delegates detailed validation to parseBlobUrl)
-  const blobUrl = parseBlobUrl(validated.AZURE_VENV);
+  // Resolve the auth mode: options override env var; an injected credential implies Azure AD
+  const authMode: AuthMode = options?.authMode
+    ?? validated.AZURE_VENV_AUTH_MODE
+    ?? (options?.credential !== undefined ? 'default-credential' : 'sas');
 
-  // Strip leading '?' from SAS token if present
-  const cleanSasToken = validated.AZURE_VENV_SAS_TOKEN.startsWith('?')
-    ? validated.AZURE_VENV_SAS_TOKEN.slice(1)
-    : validated.AZURE_VENV_SAS_TOKEN;
+  // Parse the AZURE_VENV URL (delegates scheme, host and path validation to parseBlobUrl)
+  const urlStyle = options?.urlStyle ?? validated.AZURE_VENV_URL_STYLE;
+  const blobUrl = parseBlobUrl(validated.AZURE_VENV, urlStyle);
+  const isLocal = blobUrl.style === 'local';
 
-  // Parse SAS expiry
-  const sasExpiry = parseSasExpiry(validated.AZURE_VENV_SAS_EXPIRY, cleanSasToken);
+  // SAS mode keeps its historical error message for the most common misconfiguration
+  if (!isLocal && authMode === 'sas' && !sasToken) {
+    throw new ConfigurationError(
+      'AZURE_VENV is set but AZURE_VENV_SAS_TOKEN is missing. Both must be provided.',
+      'AZURE_VENV_SAS_TOKEN',
+    );
+  }
+
+  // Local directory sources need no credentials
+  const auth: AzureVenvAuth = isLocal
+    ? { mode: 'none' }
+    : resolveAuth(authMode, validated, blobUrl, options);
+  const cleanSasToken = auth.mode === 'sas' ? auth.sasToken : '';
+
+  // Parse SAS expiry (only meaningful for SAS authentication)
+  const sasExpiry = auth.mode === 'sas'
+    ? parseSasExpiry(validated.AZURE_VENV_SAS_EXPIRY, cleanSasToken)
+    : null;
 
   // Check if SAS token is expired (throws AuthenticationError if so)
   checkSasExpiry(sasExpiry);
 
+  const rootDir = options?.rootDir ?? process.cwd();
+  const memoryBudget = options?.memoryBudget !== undefined
+    ? options.memoryBudget
+    : validated.AZURE_VENV_MEMORY_BUDGET ?? null;
+
   // Build the final config, applying options overrides over env vars over defaults
   const config: AzureVenvConfig = {
     blobUrl,
+    auth,
     sasToken: cleanSasToken,
     sasExpiry,
     failOnError: options?.failOnError ?? validated.AZURE_VENV_FAIL_ON_ERROR,
     concurrency: options?.concurrency ?? validated.AZURE_VENV_CONCURRENCY,
     timeout: options?.timeout ?? validated.AZURE_VENV_TIMEOUT,
+    maxRetries: options?.maxRetries ?? validated.AZURE_VENV_MAX_RETRIES,
+    retryDelay: options?.retryDelay ?? validated.AZURE_VENV_RETRY_DELAY,
     logLevel: options?.logLevel ?? validated.AZURE_VENV_LOG_LEVEL,
-    rootDir: options?.rootDir ?? process.cwd(),
+    rootDir,
     envPath: options?.envPath ?? '.env',
+    envFiles: resolveEnvFiles(
+      options?.envFiles !== undefined ? options.envFiles ?? undefined : validated.AZURE_VENV_ENV_FILES,
+      blobUrl.prefix,
+      options?.envFiles !== undefined ? 'envFiles' : 'AZURE_VENV_ENV_FILES',
+    ),
+    expand: options?.expand ?? validated.AZURE_VENV_EXPAND,
+    precedence: resolvePrecedence(validated, options),
     pollInterval: options?.pollInterval ?? validated.AZURE_VENV_POLL_INTERVAL,
     watchEnabled: options?.watchEnabled ?? validated.AZURE_VENV_WATCH_ENABLED,
+    cache: resolveCache(validated, rootDir, options),
+    include: options?.include ?? validated.AZURE_VENV_INCLUDE ?? [],
+    exclude: options?.exclude ?? validated.AZURE_VENV_EXCLUDE ?? [],
+    maxBlobSize: options?.maxBlobSize !== undefined ? options.maxBlobSize : validated.AZURE_VENV_MAX_BLOB_SIZE ?? null,
+    memoryBudget,
+    lazyOversized: options?.lazyOversized ?? validated.AZURE_VENV_LAZY_OVERSIZED,
+    loadMode: options?.loadMode ?? validated.AZURE_VENV_LOAD_MODE,
+    lazyCacheSize: options?.lazyCacheSize
+      ?? validated.AZURE_VENV_LAZY_CACHE_SIZE
+      ?? memoryBudget
+      ?? DEFAULT_LAZY_CACHE_SIZE,
+    sourceName: '',
+    // file:// URLs are recognised whatever the style, so a local primary source leaves the others on 'standard'
+    additionalSources: resolveAdditionalSources(env, urlStyle === 'local' ? 'standard' : urlStyle, options),
   };
 
   return config;
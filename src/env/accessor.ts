@@ -0,0 +1,236 @@
+import type { EnvDetails, EnvSource } from '../types/index.js';
+import { NO_OP_SYNC_RESULT } from '../types/index.js';
+import { ConfigurationError } from '../errors/index.js';
+
+/**
+ * Typed read access to environment variables, reporting the tier each value came from.
+ *
+ * Each getter returns undefined for a variable that is not set (or set to an empty string),
+ * or defaultValue when one is given. getString alone returns an empty string as it is.
+ *
+ * Contract:
+ *   - A value that cannot be parsed throws ConfigurationError naming the key and its EnvSource;
+ *     error.parameter is the key
+ *   - Error messages never include values
+ */
+export interface EnvAccessor {
+  /** The value as it is. */
+  getString(key: string): string | undefined;
+  getString(key: string, defaultValue: string): string;
+
+  /** A decimal integer, e.g. "8080" or "-1". */
+  getInt(key: string): number | undefined;
+  getInt(key: string, defaultValue: number): number;
+
+  /** true/false, 1/0, yes/no or on/off (case-insensitive). */
+  getBool(key: string): boolean | undefined;
+  getBool(key: string, defaultValue: boolean): boolean;
+
+  /**
+   * A duration in milliseconds: a number of milliseconds ("1500") or amounts with
+   * ms, s, m, h or d units ("500ms", "2.5s", "1h30m").
+   */
+  getDuration(key: string): number | undefined;
+  getDuration(key: string, defaultValue: number): number;
+
+  /** A JSON document. The parsed value is not validated against T. */
+  getJson<T = unknown>(key: string): T | undefined;
+  getJson<T>(key: string, defaultValue: T): T;
+
+  /** A comma-separated list; entries are trimmed and empty entries dropped. */
+  getList(key: string): string[] | undefined;
+  getList(key: string, defaultValue: readonly string[]): string[];
+
+  /**
+   * The value of a variable that must be set.
+   *
+   * @throws ConfigurationError if the variable is not set or empty.
+   */
+  require(key: string): string;
+
+  /** Tier the value of key came from, or undefined if it is not set. */
+  sourceOf(key: string): EnvSource | undefined;
+}
+
+/** Accepted spellings of getBool. */
+const BOOLEANS: Readonly<Record<string, boolean>> = {
+  true: true,
+  false: false,
+  1: true,
+  0: false,
+  yes: true,
+  no: false,
+  on: true,
+  off: false,
+};
+
+/** Milliseconds per unit of getDuration. */
+const DURATION_UNITS: Readonly<Record<string, number>> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+/** One or more amounts with a unit, e.g. "1h30m". */
+const DURATION_PATTERN = /^(?:\d+(?:\.\d+)?(?:ms|s|m|h|d))+$/i;
+
+/** Amount and unit of each part of a duration. */
+const DURATION_PART = /(\d+(?:\.\d+)?)(ms|s|m|h|d)/gi;
+
+/** Environment details read by the env accessor: those of the latest sync or watch update. */
+let boundEnvDetails: EnvDetails = NO_OP_SYNC_RESULT.envDetails;
+
+/**
+ * Point the env accessor at the environment details of a sync or watch update.
+ *
+ * Called by initAzureVenv and watchAzureVenv; not part of the public API.
+ */
+export function bindEnvDetails(envDetails: EnvDetails): void {
+  boundEnvDetails = envDetails;
+}
+
+/**
+ * Typed access to the live environment of the application.
+ *
+ * Reads follow the latest initAzureVenv result or watch update, so sources reflect the
+ * current tiers without holding on to a SyncResult. Before the first sync, every variable
+ * is read from process.env and reported as 'os'.
+ *
+ * Contract:
+ *   - The asset store's sync (initAssetStore) does not rebind the accessor
+ *   - A watch poll whose variables fail the env schema leaves the previous details bound
+ *
+ * @example
+ * ```typescript
+ * await initAzureVenv();
+ * const port = env.getInt('PORT', 8080);
+ * ```
+ */
+export const env: EnvAccessor = buildAccessor(() => boundEnvDetails, () => process.env);
+
+/**
+ * Create an accessor over the environment described by a sync result.
+ *
+ * @param envDetails - SyncResult.envDetails, or the envDetails of a watch snapshot.
+ * @param env - Variables not tracked by envDetails are read from here. Default: process.env.
+ * @returns Accessor reading envDetails.variables first.
+ *
+ * Contract:
+ *   - Tracked keys report the source of envDetails; other keys found in env are reported as 'os'
+ *   - Reads are live for untracked keys only: a new snapshot needs a new accessor (env follows it)
+ *
+ * @example
+ * ```typescript
+ * const env = createEnvAccessor(result.envDetails);
+ * const port = env.getInt('PORT', 8080);
+ * const timeout = env.getDuration('REQUEST_TIMEOUT', 30000);
+ * ```
+ */
+export function createEnvAccessor(
+  envDetails: EnvDetails,
+  env: Readonly<Record<string, string | undefined>> = process.env,
+): EnvAccessor {
+  return buildAccessor(() => envDetails, () => env);
+}
+
+/**
+ * Accessor over the environment details and variables returned by the getters at each read.
+ */
+function buildAccessor(
+  details: () => EnvDetails,
+  variables: () => Readonly<Record<string, string | undefined>>,
+): EnvAccessor {
+  const lookup = (key: string): { value: string; source: EnvSource } | undefined => {
+    const envDetails = details();
+    if (key in envDetails.variables) {
+      return { value: envDetails.variables[key], source: envDetails.sources[key] };
+    }
+    const value = variables()[key];
+    return value !== undefined ? { value, source: 'os' } : undefined;
+  };
+
+  /** Where a value came from, for error messages. */
+  const describe = (key: string, source: EnvSource): string => {
+    const file = source === 'remote' ? details().remoteFiles[key] : undefined;
+    return `${source}${file !== undefined ? `, ${file}` : ''}`;
+  };
+
+  /** Parse a set, non-empty value; parse returns undefined for an invalid one. */
+  const typed = <T>(
+    key: string,
+    expected: string,
+    parse: (value: string) => T | undefined,
+    defaultValue: T | undefined,
+  ): T | undefined => {
+    const entry = lookup(key);
+    if (entry === undefined || entry.value === '') {
+      return defaultValue;
+    }
+    const parsed = parse(entry.value.trim());
+    if (parsed === undefined) {
+      throw new ConfigurationError(`${key} must be ${expected} (source: ${describe(key, entry.source)})`, key);
+    }
+    return parsed;
+  };
+
+  return {
+    getString: ((key: string, defaultValue?: string) => lookup(key)?.value ?? defaultValue) as EnvAccessor['getString'],
+
+    getInt: ((key: string, defaultValue?: number) =>
+      typed(key, 'an integer', (value) => {
+        const n = Number(value);
+        return /^[+-]?\d+$/.test(value) && Number.isSafeInteger(n) ? n : undefined;
+      }, defaultValue)) as EnvAccessor['getInt'],
+
+    getBool: ((key: string, defaultValue?: boolean) =>
+      typed(key, 'true, false, 1, 0, yes, no, on or off', (value) => BOOLEANS[value.toLowerCase()], defaultValue,
+      )) as EnvAccessor['getBool'],
+
+    getDuration: ((key: string, defaultValue?: number) =>
+      typed(key, 'a duration such as 1500, 500ms, 30s or 1h30m', (value) => {
+        if (/^\d+$/.test(value)) {
+          return Number(value);
+        }
+        if (!DURATION_PATTERN.test(value)) {
+          return undefined;
+        }
+        let ms = 0;
+        for (const [, amount, unit] of value.matchAll(DURATION_PART)) {
+          ms += Number(amount) * DURATION_UNITS[unit.toLowerCase()];
+        }
+        return Math.round(ms);
+      }, defaultValue)) as EnvAccessor['getDuration'],
+
+    getJson: (<T>(key: string, defaultValue?: T) =>
+      typed<{ json: T }>(key, 'valid JSON', (value) => {
+        // Boxed so that a JSON null is told apart from a parse failure; the parser's message may quote the value
+        try {
+          return { json: JSON.parse(value) as T };
+        } catch {
+          return undefined;
+        }
+      }, defaultValue !== undefined ? { json: defaultValue } : undefined)?.json) as EnvAccessor['getJson'],
+
+    getList: ((key: string, defaultValue?: readonly string[]) =>
+      typed(key, 'a comma-separated list', (value) =>
+        value.split(',').map((entry) => entry.trim()).filter((entry) => entry !== ''),
+      defaultValue !== undefined ? [...defaultValue] : undefined)) as EnvAccessor['getList'],
+
+    require: (key: string): string => {
+      const entry = lookup(key);
+      if (entry === undefined || entry.value === '') {
+        throw new ConfigurationError(
+          entry === undefined
+            ? `${key} is required but not set`
+            : `${key} is required but empty (source: ${describe(key, entry.source)})`,
+          key,
+        );
+      }
+      return entry.value;
+    },
+
+    sourceOf: (key: string): EnvSource | undefined => lookup(key)?.source,
+  };
+}
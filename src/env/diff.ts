@@ -0,0 +1,75 @@
+import type { EnvChangeEvent, EnvDetails, EnvVariableChange } from '../types/index.js';
+
+/**
+ * Compare two environment states and report per-key differences.
+ *
+ * @param previous - Environment details before re-application.
+ * @param next - Environment details after re-application.
+ * @param includeValues - Whether to include variable values in the result.
+ *   Defaults to false so secrets are not propagated to callers that only need key names.
+ * @param timestamp - When the change was applied. Default: now.
+ * @returns Change event with added, changed and removed keys (each sorted by key).
+ *
+ * Contract:
+ *   - A key is 'added' if it is tracked in next but not in previous
+ *   - A key is 'removed' if it is tracked in previous but not in next
+ *   - A key is 'changed' if its value or its source tier differs
+ *   - Values are only present on the result when includeValues is true
+ *   - This is a pure function apart from the default timestamp
+ */
+export function diffEnvDetails(
+  previous: EnvDetails,
+  next: EnvDetails,
+  includeValues = false,
+  timestamp: Date = new Date(),
+): EnvChangeEvent {
+  const added: EnvVariableChange[] = [];
+  const changed: EnvVariableChange[] = [];
+  const removed: EnvVariableChange[] = [];
+
+  for (const key of Object.keys(next.variables).sort()) {
+    const value = next.variables[key];
+    const source = next.sources[key];
+
+    if (!(key in previous.variables)) {
+      added.push({ key, source, ...(includeValues ? { value } : {}) });
+      continue;
+    }
+
+    const previousValue = previous.variables[key];
+    const previousSource = previous.sources[key];
+
+    if (previousValue !== value || previousSource !== source) {
+      changed.push({
+        key,
+        source,
+        previousSource,
+        ...(includeValues ? { value, previousValue } : {}),
+      });
+    }
+  }
+
+  for (const key of Object.keys(previous.variables).sort()) {
+    if (!(key in next.variables)) {
+      removed.push({
+        key,
+        previousSource: previous.sources[key],
+        ...(includeValues ? { previousValue: previous.variables[key] } : {}),
+      });
+    }
+  }
+
+  return {
+    added,
+    changed,
+    removed,
+    timestamp,
+  };
+}
+
+/**
+ * Whether an env change event contains at least one added, changed or removed key.
+ */
+export function hasEnvChanges(event: EnvChangeEvent): boolean {
+  return event.added.length + event.changed.length + event.removed.length > 0;
+}
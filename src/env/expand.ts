@@ -0,0 +1,166 @@
+import type { EnvRecord, EnvLoadResult } from '../types/index.js';
+import type { Logger } from '../logging/logger.js';
+import { EnvExpansionError } from '../errors/index.js';
+
+/** Variable names that can be referenced. */
+const NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/** Start of an unbraced reference name (`$NAME`). */
+const NAME_START = /[A-Za-z_]/;
+
+/** Character of an unbraced reference name. */
+const NAME_CHAR = /[A-Za-z0-9_]/;
+
+/**
+ * Expand `${NAME}` references in the .env values applied by applyPrecedence, like dotenv-expand.
+ *
+ * Syntax:
+ *   - `${NAME}` and `$NAME`: the value of NAME; empty when NAME is not defined
+ *   - `${NAME:-default}`: default when NAME is undefined or empty (the default may contain references)
+ *   - `\$`: a literal '$'
+ *
+ * @param envResult - Result of applyPrecedence.
+ * @param logger - Logger instance.
+ * @param options.secretKeys - Keys resolved from secret references; their values are never expanded.
+ * @param options.failOnError - Throw on a reference cycle instead of leaving its keys unexpanded.
+ * @returns envResult with the expanded values in variables.
+ *
+ * @throws EnvExpansionError if values reference each other in a cycle and failOnError is true.
+ *
+ * Contract:
+ *   - MUTATES process.env: each expanded key is set to its expanded value
+ *   - Only values of the local and remote tiers are expanded; OS values and secrets are used as they are
+ *   - A reference resolves to the winning value of a tracked key (expanded first), else to process.env
+ *   - Keys of a cycle keep their unexpanded values (failOnError=false); the error is logged
+ *   - Logs key names only, never values
+ */
+export function expandVariables(
+  envResult: EnvLoadResult,
+  logger: Logger,
+  options: { readonly secretKeys?: readonly string[]; readonly failOnError: boolean },
+): EnvLoadResult {
+  const raw = envResult.variables;
+  const secretKeys = new Set(options.secretKeys ?? []);
+  const expandable = new Set(
+    [...envResult.localKeys, ...envResult.remoteKeys].filter((key) => !secretKeys.has(key)),
+  );
+  const expanded = new Map<string, string>();
+
+  const expandKey = (key: string, stack: string[]): string => {
+    const known = expanded.get(key);
+    if (known !== undefined) {
+      return known;
+    }
+    const cycleStart = stack.indexOf(key);
+    if (cycleStart !== -1) {
+      const keys = stack.slice(cycleStart);
+      throw new EnvExpansionError(
+        `Variables reference each other in a cycle: ${[...keys, key].join(' -> ')}`,
+        keys,
+      );
+    }
+    const value = expandValue(raw[key], [...stack, key]);
+    expanded.set(key, value);
+    return value;
+  };
+
+  const lookup = (name: string, stack: string[]): string | undefined => {
+    if (expandable.has(name)) {
+      return expandKey(name, stack);
+    }
+    return raw[name] ?? process.env[name];
+  };
+
+  const expandValue = (value: string, stack: string[]): string => {
+    let result = '';
+    let i = 0;
+    while (i < value.length) {
+      const char = value[i];
+      if (char === '\\' && value[i + 1] === '$') {
+        result += '$';
+        i += 2;
+      } else if (char === '$' && value[i + 1] === '{') {
+        const end = closingBrace(value, i + 2);
+        const body = end === -1 ? '' : value.slice(i + 2, end);
+        const separator = body.indexOf(':-');
+        const name = separator === -1 ? body : body.slice(0, separator);
+        if (!NAME_PATTERN.test(name)) {
+          // Not a reference: keep the text as written
+          result += char;
+          i++;
+          continue;
+        }
+        const resolved = lookup(name, stack);
+        result += separator !== -1 && !resolved
+          ? expandValue(body.slice(separator + 2), stack)
+          : resolved ?? '';
+        i = end + 1;
+      } else if (char === '$' && NAME_START.test(value[i + 1] ?? '')) {
+        let end = i + 1;
+        while (end < value.length && NAME_CHAR.test(value[end])) {
+          end++;
+        }
+        result += lookup(value.slice(i + 1, end), stack) ?? '';
+        i = end;
+      } else {
+        result += char;
+        i++;
+      }
+    }
+    return result;
+  };
+
+  for (const key of expandable) {
+    // A cycle leaves its keys unexpanded; retry the key, which may depend on the cycle without being part of it
+    for (;;) {
+      try {
+        expandKey(key, []);
+        break;
+      } catch (error: unknown) {
+        if (!(error instanceof EnvExpansionError) || options.failOnError) {
+          throw error;
+        }
+        logger.error(`${error.message}; leaving them unexpanded`);
+        for (const cycleKey of error.keys) {
+          expanded.set(cycleKey, raw[cycleKey]);
+        }
+      }
+    }
+  }
+
+  const variables: EnvRecord = { ...raw };
+  let count = 0;
+  for (const [key, value] of expanded) {
+    if (value !== raw[key]) {
+      process.env[key] = value;
+      variables[key] = value;
+      count++;
+      logger.debug(`Variable '${key}' expanded`);
+    }
+  }
+
+  if (count > 0) {
+    logger.info(`Expanded references in ${count} variable(s)`);
+  }
+
+  return { ...envResult, variables };
+}
+
+/**
+ * Index of the '}' closing a `${` whose body starts at start, skipping nested `${...}`; -1 if unclosed.
+ */
+function closingBrace(value: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < value.length; i++) {
+    if (value[i] === '$' && value[i + 1] === '{') {
+      depth++;
+      i++;
+    } else if (value[i] === '}') {
+      if (depth === 0) {
+        return i;
+      }
+      depth--;
+    }
+  }
+  return -1;
+}
@@ -1,10 +1,16 @@
-import type { EnvRecord, EnvLoadResult, EnvSource } from '../types/index.js';
+import type { EnvRecord, EnvLoadResult, EnvPrecedence, EnvSource } from '../types/index.js';
 import type { Logger } from '../logging/logger.js';
 
+/** Default precedence: OS variables, then the remote .env, then the local .env. */
+export const DEFAULT_ENV_PRECEDENCE: EnvPrecedence = {
+  order: ['os', 'remote', 'local'],
+  overrides: {},
+};
+
 /**
  * Apply the three-tier environment variable precedence model to process.env.
  *
- * Precedence (highest to lowest):
+ * Default precedence (highest to lowest), configurable per key through options.precedence:
  *   1. OS environment variables (already in process.env before library init)
  *   2. Remote .env from Azure Blob Storage
  *   3. Local .env file
@@ -14,17 +20,25 @@ import type { Logger } from '../logging/logger.js';
  * @param localEnv - Parsed key-value pairs from local .env file.
  * @param remoteEnv - Parsed key-value pairs from remote .env file. Empty record if no remote .env.
  * @param logger - Logger instance.
- * @returns EnvLoadResult with the merged variables, source tracking, and per-tier key lists.
+ * @param previousRemoteKeys - Keys applied from the remote tier by the previous call
+ *   (EnvLoadResult.remoteKeys). Used when re-applying precedence, e.g. in watch mode.
+ * @param options.precedence - Order of the tiers (AzureVenvConfig.precedence). Default: DEFAULT_ENV_PRECEDENCE.
+ * @param options.osEnv - process.env as captured with osEnvSnapshot; the OS values restored when an
+ *   outranking tier no longer defines a key. Default: process.env (exact unless a tier outranked OS before).
+ * @returns EnvLoadResult with the merged variables, source tracking, per-tier key lists,
+ *   and the previously remote keys that were removed or restored.
  *
  * Contract:
  *   - MUTATES process.env (this is the intended side effect)
- *   - For each key in localEnv:
- *     - If key is in osEnvSnapshot: do NOT override (OS wins)
- *     - Otherwise: set process.env[key] = localEnv[key], record source='local'
- *   - For each key in remoteEnv:
- *     - If key is in osEnvSnapshot: do NOT override (OS wins)
- *     - Otherwise: set process.env[key] = remoteEnv[key], record source='remote'
- *       (this overrides any local .env value for the same key)
+ *   - For each key in localEnv or remoteEnv, the first tier of its order that defines it wins:
+ *     - OS: process.env[key] keeps (or gets back) its OS value, record source='os' and the key in osKeys
+ *     - Otherwise: set process.env[key] to the winning value, record source='local' or 'remote'
+ *   - localKeys and remoteKeys list the keys each tier defines that OS does not outrank, whether or
+ *     not the other .env tier wins (with the default order, every .env key not defined by the OS)
+ *   - For each key in previousRemoteKeys that is no longer in remoteEnv:
+ *     - If key is in localEnv or osEnvSnapshot: already reset to that value above (or to the OS value
+ *       here), record in restoredKeys
+ *     - Otherwise: delete process.env[key], record in removedKeys
  *   - Return EnvLoadResult with complete source tracking
  *   - Log summary at info level: "Applied N local vars, M remote vars, K OS-preserved vars"
  *   - Log each variable source at debug level (key name only, never values)
@@ -34,53 +48,81 @@ export function applyPrecedence(
   localEnv: Readonly<EnvRecord>,
   remoteEnv: Readonly<EnvRecord>,
   logger: Logger,
+  previousRemoteKeys: readonly string[] = [],
+  options: {
+    readonly precedence?: EnvPrecedence;
+    readonly osEnv?: Readonly<Record<string, string | undefined>>;
+  } = {},
 ): EnvLoadResult {
+  const precedence = options.precedence ?? DEFAULT_ENV_PRECEDENCE;
+  const osEnv = options.osEnv ?? process.env;
   const variables: EnvRecord = {};
   const sources: Record<string, EnvSource> = {};
-  const localKeys: string[] = [];
-  const remoteKeys: string[] = [];
   const osKeys: string[] = [];
+  const removedKeys: string[] = [];
+  const restoredKeys: string[] = [];
 
-  // Step 1: Apply local .env values (lowest priority among .env sources)
-  for (const key of Object.keys(localEnv)) {
-    if (osEnvSnapshot.has(key)) {
-      // OS wins - track this key as OS-preserved
-      if (!osKeys.includes(key)) {
-        osKeys.push(key);
-      }
-      logger.debug(`Variable '${key}' preserved from OS environment (local .env skipped)`);
-      continue;
+  const tiers: Readonly<Record<EnvSource, (key: string) => boolean>> = {
+    os: (key) => osEnvSnapshot.has(key),
+    remote: (key) => key in remoteEnv,
+    local: (key) => key in localEnv,
+  };
+  const orderOf = (key: string): readonly EnvSource[] =>
+    Object.hasOwn(precedence.overrides, key) ? precedence.overrides[key] : precedence.order;
+  const beatsOs = (key: string, tier: EnvSource): boolean =>
+    !osEnvSnapshot.has(key) || orderOf(key).indexOf(tier) < orderOf(key).indexOf('os');
+  const localKeys = Object.keys(localEnv).filter((key) => beatsOs(key, 'local'));
+  const remoteKeys = Object.keys(remoteEnv).filter((key) => beatsOs(key, 'remote'));
+
+  /** Put the OS value of a key back into process.env after an outranking tier set it. */
+  const restoreOsValue = (key: string): string | undefined => {
+    const osValue = osEnv[key] ?? process.env[key];
+    if (osValue !== undefined && process.env[key] !== osValue) {
+      process.env[key] = osValue;
     }
-    process.env[key] = localEnv[key];
-    variables[key] = localEnv[key];
-    sources[key] = 'local';
-    localKeys.push(key);
-    logger.debug(`Variable '${key}' set from local .env`);
-  }
+    return osValue;
+  };
+
+  // Step 1: Apply the winning tier of each key in the local and remote .env
+  for (const key of new Set([...Object.keys(localEnv), ...Object.keys(remoteEnv)])) {
+    const winner = orderOf(key).find((tier) => tiers[tier](key));
 
-  // Step 2: Apply remote .env values (overrides local, but not OS)
-  for (const key of Object.keys(remoteEnv)) {
-    if (osEnvSnapshot.has(key)) {
+    if (winner === 'os') {
       // OS wins - track this key as OS-preserved
-      if (!osKeys.includes(key)) {
-        osKeys.push(key);
+      const osValue = restoreOsValue(key);
+      osKeys.push(key);
+      if (osValue !== undefined) {
+        variables[key] = osValue;
+        sources[key] = 'os';
       }
-      logger.debug(`Variable '${key}' preserved from OS environment (remote .env skipped)`);
+      logger.debug(`Variable '${key}' preserved from OS environment (.env value skipped)`);
       continue;
     }
-    process.env[key] = remoteEnv[key];
-    variables[key] = remoteEnv[key];
-    sources[key] = 'remote';
-    remoteKeys.push(key);
-    logger.debug(`Variable '${key}' set from remote .env`);
+
+    const value = winner === 'remote' ? remoteEnv[key] : localEnv[key];
+    process.env[key] = value;
+    variables[key] = value;
+    sources[key] = winner === 'remote' ? 'remote' : 'local';
+    logger.debug(`Variable '${key}' set from ${sources[key]} .env`);
   }
 
-  // For OS-preserved keys, capture their current values in the variables map
-  for (const key of osKeys) {
-    const osValue = process.env[key];
-    if (osValue !== undefined) {
-      variables[key] = osValue;
-      sources[key] = 'os';
+  // Step 2: Revert keys that were remote before but are gone from the remote .env
+  for (const key of previousRemoteKeys) {
+    if (key in remoteEnv) {
+      continue;
+    }
+    if (key in localEnv) {
+      restoredKeys.push(key);
+      logger.debug(`Variable '${key}' restored to ${sources[key] === 'os' ? 'OS' : 'local .env'} value (no longer in remote .env)`);
+    } else if (osEnvSnapshot.has(key)) {
+      // Untracked again, like any OS variable no .env file defines
+      restoreOsValue(key);
+      restoredKeys.push(key);
+      logger.debug(`Variable '${key}' restored to OS value (no longer in remote .env)`);
+    } else {
+      delete process.env[key];
+      removedKeys.push(key);
+      logger.debug(`Variable '${key}' removed (no longer in remote .env)`);
     }
   }
 
@@ -88,11 +130,19 @@ export function applyPrecedence(
     `Applied ${localKeys.length} local vars, ${remoteKeys.length} remote vars, ${osKeys.length} OS-preserved vars`,
   );
 
+  if (removedKeys.length > 0 || restoredKeys.length > 0) {
+    logger.info(
+      `Reverted ${removedKeys.length} removed and ${restoredKeys.length} restored var(s) no longer in remote .env`,
+    );
+  }
+
   return {
     variables,
     sources,
     localKeys,
     remoteKeys,
     osKeys,
+    removedKeys,
+    restoredKeys,
   };
 }
@@ -0,0 +1,60 @@
+import type { EnvRecord } from '../types/index.js';
+
+/**
+ * One remote .env file, parsed.
+ */
+export interface RemoteEnvFile {
+  /** Full blob name (container-relative), e.g. "shared/.env". */
+  readonly blobName: string;
+
+  /** Parsed key-value pairs. */
+  readonly env: Readonly<EnvRecord>;
+
+  /** ETag of the blob when it was read, if known. Seeds watch mode change detection. */
+  readonly etag?: string;
+}
+
+/**
+ * Remote .env files merged into the remote tier.
+ */
+export interface MergedRemoteEnv {
+  /** Merged key-value pairs. */
+  readonly env: EnvRecord;
+
+  /** Blob name of the file that supplied each key's value. */
+  readonly origins: Record<string, string>;
+}
+
+/**
+ * Name of the remote .env blob read when AZURE_VENV_ENV_FILES is not set.
+ *
+ * @param prefix - The blob prefix (virtual directory).
+ * @returns `<prefix>.env`, or ".env" without a prefix.
+ */
+export function defaultEnvBlobName(prefix: string): string {
+  return prefix ? `${prefix}.env` : '.env';
+}
+
+/**
+ * Merge remote .env files into a single remote tier.
+ *
+ * @param files - Parsed files in configured order (AZURE_VENV_ENV_FILES).
+ * @returns The merged variables and the file each value came from.
+ *
+ * Contract:
+ *   - Files are applied in order: a key in a later file overrides the same key in an earlier one
+ *   - origins has exactly the keys of env
+ */
+export function mergeRemoteEnvFiles(files: readonly RemoteEnvFile[]): MergedRemoteEnv {
+  const env: EnvRecord = {};
+  const origins: Record<string, string> = {};
+
+  for (const file of files) {
+    for (const [key, value] of Object.entries(file.env)) {
+      env[key] = value;
+      origins[key] = file.blobName;
+    }
+  }
+
+  return { env, origins };
+}
@@ -0,0 +1,82 @@
+import type { SyncResult } from '../types/index.js';
+import { EnvValidationError } from '../errors/index.js';
+
+/**
+ * Problem reported by an EnvSchema for one value.
+ */
+export interface EnvSchemaIssue {
+  /** Path of the value in the validated object; the first segment is the variable name. */
+  readonly path: readonly PropertyKey[];
+  readonly message: string;
+}
+
+/**
+ * Outcome of EnvSchema.safeParse.
+ */
+export type EnvSchemaResult<T> =
+  | { readonly success: true; readonly data: T }
+  | { readonly success: false; readonly error: { readonly issues: readonly EnvSchemaIssue[] } };
+
+/**
+ * Schema of the application environment, passed as AzureVenvOptions.envSchema.
+ *
+ * Any object with a Zod-compatible safeParse fits: a Zod 3 or 4 object schema such as
+ * `z.object({ PORT: z.coerce.number(), DB_URL: z.string().url() })`.
+ */
+export interface EnvSchema<T> {
+  /**
+   * Validate and convert the environment.
+   *
+   * @param input - Variables of the merged environment, as strings.
+   */
+  safeParse(input: unknown): EnvSchemaResult<T>;
+}
+
+/**
+ * Validate the merged environment against a schema.
+ *
+ * @param schema - The application's env schema.
+ * @param env - The merged variables (EnvDetails.variables).
+ * @returns The parsed config object produced by the schema.
+ *
+ * @throws EnvValidationError listing every failed variable.
+ *
+ * Contract:
+ *   - The schema receives a copy of env without undefined entries; env is not modified
+ *   - Error messages name variables and schema messages only, never values
+ */
+export function parseEnv<T>(schema: EnvSchema<T>, env: Readonly<Record<string, string | undefined>>): T {
+  const input: Record<string, string> = {};
+  for (const [key, value] of Object.entries(env)) {
+    if (value !== undefined) {
+      input[key] = value;
+    }
+  }
+
+  const result = schema.safeParse(input);
+  if (result.success) {
+    return result.data;
+  }
+
+  const issues = result.error.issues.map((issue) => ({
+    key: issue.path.length > 0 ? issue.path.map(String).join('.') : '(root)',
+    message: issue.message,
+  }));
+  throw new EnvValidationError(
+    `Environment validation failed: ${issues.map((issue) => `${issue.key}: ${issue.message}`).join('; ')}`,
+    issues,
+  );
+}
+
+/**
+ * Attach the parsed config object of the merged environment to a sync result.
+ *
+ * @param result - Result of the sync (its env is ignored).
+ * @param schema - AzureVenvOptions.envSchema, if any.
+ * @returns result with env parsed from result.envDetails.variables, or undefined without a schema.
+ *
+ * @throws EnvValidationError if the merged variables do not match the schema.
+ */
+export function withParsedEnv<T>(result: SyncResult<unknown>, schema: EnvSchema<T> | undefined): SyncResult<T | undefined> {
+  return { ...result, env: schema !== undefined ? parseEnv(schema, result.envDetails.variables) : undefined };
+}
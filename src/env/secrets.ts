@@ -0,0 +1,216 @@
+import * as path from 'node:path';
+import { readFile } from 'node:fs/promises';
+
+import type { EnvRecord } from '../types/index.js';
+import type { Logger } from '../logging/logger.js';
+import { SecretResolutionError } from '../errors/index.js';
+import { abortError } from '../source/abort.js';
+
+/**
+ * A reference to a secret held outside blob storage, parsed from a remote .env value.
+ *
+ * Two syntaxes are recognised; the whole value must be the reference:
+ *   - `@keyvault(name=<vault>;secret=<secret>[;version=<version>])`: provider 'keyvault',
+ *     name `<vault>/<secret>`
+ *   - `secretref://<provider>/<name>`: any provider, name may contain '/'
+ */
+export interface SecretReference {
+  /** Secret store: 'keyvault', or the provider of a secretref:// URL. */
+  readonly provider: string;
+
+  /** Secret name within the provider, e.g. "myvault/db-password". */
+  readonly name: string;
+
+  /** Pinned secret version, if the reference names one. */
+  readonly version?: string;
+
+  /** The reference as written in the .env file. */
+  readonly raw: string;
+}
+
+/**
+ * Backend that resolves secret references found in remote .env values.
+ *
+ * Contract:
+ *   - resolve returns the secret value; it rejects when the secret does not exist or cannot be read
+ *   - An operation whose signal is aborted rejects (the sync deadline or caller cancellation)
+ *   - Implementations never log secret values
+ */
+export interface SecretResolver {
+  /**
+   * Resolve one secret reference.
+   *
+   * @param reference - The parsed reference.
+   * @param signal - Cancels the resolution.
+   * @returns The secret value.
+   */
+  resolve(reference: SecretReference, signal?: AbortSignal): Promise<string>;
+}
+
+/**
+ * Remote tier after its secret references were resolved.
+ */
+export interface ResolvedRemoteEnv {
+  /** Remote variables with each reference replaced by its secret; unresolved keys are left out. */
+  readonly env: EnvRecord;
+
+  /** Keys whose value was resolved from a secret reference. */
+  readonly secretKeys: readonly string[];
+}
+
+/** Provider names of secretref:// URLs. */
+const PROVIDER_PATTERN = /^[A-Za-z0-9._-]+$/;
+
+/** Parameters accepted by `@keyvault(...)`. */
+const KEYVAULT_PARAMS: ReadonlySet<string> = new Set(['name', 'secret', 'version']);
+
+/**
+ * Whether a value uses one of the secret reference syntaxes, well-formed or not.
+ */
+export function isSecretReference(value: string): boolean {
+  return value.startsWith('@keyvault(') || value.startsWith('secretref://');
+}
+
+/**
+ * Parse a secret reference.
+ *
+ * @param value - A remote .env value.
+ * @returns The reference, or null when the value is not a reference.
+ *
+ * @throws Error if the value uses a reference syntax but is malformed
+ *   (unknown or missing keyvault parameter, empty provider or name).
+ */
+export function parseSecretReference(value: string): SecretReference | null {
+  if (value.startsWith('@keyvault(')) {
+    if (!value.endsWith(')')) {
+      throw new Error('missing closing parenthesis');
+    }
+    const params = new Map<string, string>();
+    for (const param of value.slice('@keyvault('.length, -1).split(';')) {
+      const separator = param.indexOf('=');
+      const key = param.slice(0, separator).trim();
+      const paramValue = param.slice(separator + 1).trim();
+      if (separator === -1 || !KEYVAULT_PARAMS.has(key) || paramValue === '' || params.has(key)) {
+        throw new Error(`invalid parameter "${param}"`);
+      }
+      params.set(key, paramValue);
+    }
+    const vault = params.get('name');
+    const secret = params.get('secret');
+    if (vault === undefined || secret === undefined) {
+      throw new Error('name and secret are required');
+    }
+    const version = params.get('version');
+    return { provider: 'keyvault', name: `${vault}/${secret}`, ...(version !== undefined ? { version } : {}), raw: value };
+  }
+
+  if (value.startsWith('secretref://')) {
+    const rest = value.slice('secretref://'.length);
+    const separator = rest.indexOf('/');
+    const provider = rest.slice(0, separator);
+    const name = rest.slice(separator + 1);
+    if (separator === -1 || !PROVIDER_PATTERN.test(provider) || name === '') {
+      throw new Error('expected secretref://<provider>/<name>');
+    }
+    return { provider, name, raw: value };
+  }
+
+  return null;
+}
+
+/**
+ * Resolve the secret references of the remote tier.
+ *
+ * @param env - Merged remote variables.
+ * @param resolver - Resolver of AzureVenvOptions.secretResolver, if any.
+ * @param logger - Logger instance.
+ * @param options.failOnError - Throw on the first unresolvable reference instead of leaving the key out.
+ * @param options.signal - Cancels the resolution.
+ * @returns The variables with references replaced, and the keys that were resolved.
+ *
+ * @throws SecretResolutionError if a reference cannot be resolved and failOnError is true.
+ * @throws SyncAbortedError if the signal is aborted while a reference is resolved.
+ *
+ * Contract:
+ *   - Values that are not references pass through unchanged; with none, the resolver is never called
+ *   - References are resolved concurrently
+ *   - An unresolvable key is left out of the remote tier (a local .env value then applies) and logged
+ *   - Logs key names and references only, never secret values
+ */
+export async function resolveSecretReferences(
+  env: Readonly<EnvRecord>,
+  resolver: SecretResolver | undefined,
+  logger: Logger,
+  options: { readonly failOnError: boolean; readonly signal?: AbortSignal },
+): Promise<ResolvedRemoteEnv> {
+  const resolved: EnvRecord = { ...env };
+  const secretKeys: string[] = [];
+
+  const resolveKey = async (key: string, value: string): Promise<void> => {
+    try {
+      const reference = parseSecretReference(value);
+      if (reference === null) {
+        return;
+      }
+      if (resolver === undefined) {
+        throw new Error('no secretResolver is configured');
+      }
+      resolved[key] = await resolver.resolve(reference, options.signal);
+      secretKeys.push(key);
+      logger.debug(`Variable '${key}' resolved from ${reference.provider} secret "${reference.name}"`);
+    } catch (error: unknown) {
+      if (options.signal?.aborted) {
+        throw abortError(options.signal);
+      }
+      const message = `Cannot resolve secret reference of '${key}' (${value}): ` +
+        `${error instanceof Error ? error.message : String(error)}`;
+      if (options.failOnError) {
+        throw new SecretResolutionError(message, key, value);
+      }
+      delete resolved[key];
+      logger.error(message);
+    }
+  };
+
+  await Promise.all(
+    Object.entries(env).filter(([, value]) => isSecretReference(value)).map(([key, value]) => resolveKey(key, value)),
+  );
+
+  if (secretKeys.length > 0) {
+    logger.info(`Resolved ${secretKeys.length} secret reference(s) in remote .env`);
+  }
+
+  secretKeys.sort();
+  return { env: resolved, secretKeys };
+}
+
+/**
+ * Secret resolver reading one file per secret, such as a mounted Kubernetes or Docker secret volume.
+ *
+ * The secret `<provider>/<name>` is read from `<rootDir>/<provider>/<name>`; a trailing newline
+ * is stripped. Pinned versions are ignored. For offline development and tests.
+ */
+export class FileSecretResolver implements SecretResolver {
+  private readonly rootDir: string;
+
+  /**
+   * @param rootDir - Directory holding one subdirectory per provider.
+   */
+  constructor(rootDir: string) {
+    this.rootDir = path.resolve(rootDir);
+  }
+
+  /**
+   * Read the file of a secret.
+   *
+   * @throws Error if the name leaves the root directory or the file cannot be read.
+   */
+  async resolve(reference: SecretReference, signal?: AbortSignal): Promise<string> {
+    const filePath = path.resolve(this.rootDir, reference.provider, ...reference.name.split('/'));
+    if (!filePath.startsWith(this.rootDir + path.sep)) {
+      throw new Error(`secret "${reference.provider}/${reference.name}" is outside ${this.rootDir}`);
+    }
+    const content = await readFile(filePath, { encoding: 'utf8', signal });
+    return content.replace(/\r?\n$/, '');
+  }
+}
@@ -23,11 +23,11 @@ export class AzureConnectionError extends AzureVenvError {
 }
 
 /**
- * Thrown when SAS token authentication fails.
+ * Thrown when authentication against Azure Blob Storage fails.
  *
  * Trigger conditions:
  * - SAS token is expired (403 with AuthenticationFailed)
- * - SAS token has insufficient permissions (403 with AuthorizationFailure)
+ * - SAS token, shared key or Azure AD identity has insufficient permissions (403 with AuthorizationFailure)
  * - SAS token is malformed
  * - Proactive expiry check detects the token has expired
  */
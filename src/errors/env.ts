@@ -0,0 +1,71 @@
+import { AzureVenvError } from './base.js';
+
+/**
+ * Thrown when a secret reference in a remote .env value cannot be resolved.
+ *
+ * Trigger conditions:
+ * - The value looks like a reference (`@keyvault(...)`, `secretref://...`) but is malformed
+ * - A reference is found but no AzureVenvOptions.secretResolver is configured
+ * - The SecretResolver rejects (secret missing, access denied, provider unreachable)
+ *
+ * Raised only when failOnError is true; otherwise the key is left out of the remote tier
+ * and the error is logged. The message names the key and the reference, never a secret value.
+ */
+export class SecretResolutionError extends AzureVenvError {
+  /** The environment variable whose value holds the reference. */
+  public readonly key: string;
+
+  /** The reference as written in the remote .env file. */
+  public readonly reference: string;
+
+  constructor(message: string, key: string, reference: string) {
+    super(message, 'SECRET_RESOLUTION_ERROR');
+    this.name = 'SecretResolutionError';
+    this.key = key;
+    this.reference = reference;
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+/**
+ * Thrown when variable expansion (AZURE_VENV_EXPAND) finds .env values that reference each other in a cycle.
+ *
+ * Trigger conditions:
+ * - `A=${B}` and `B=${A}`, across any tiers, or a value referencing its own key
+ *
+ * Raised only when failOnError is true; otherwise the keys of the cycle keep their unexpanded values
+ * and the error is logged.
+ */
+export class EnvExpansionError extends AzureVenvError {
+  /** Keys of the cycle, in reference order (the first key references the second, and so on; the last the first). */
+  public readonly keys: readonly string[];
+
+  constructor(message: string, keys: readonly string[]) {
+    super(message, 'ENV_EXPANSION_ERROR');
+    this.name = 'EnvExpansionError';
+    this.keys = keys;
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+/**
+ * Thrown when the merged environment does not match AzureVenvOptions.envSchema.
+ *
+ * Trigger conditions:
+ * - A variable required by the schema is missing from every tier
+ * - A variable does not have the shape the schema expects (number, URL, enum, ...)
+ *
+ * Always thrown by initAzureVenv and watchAzureVenv, whatever failOnError says. In watch mode a
+ * re-applied environment that fails validation is logged and the previous parsed config is kept.
+ */
+export class EnvValidationError extends AzureVenvError {
+  /** Failed variables ('(root)' for issues not tied to one) with the schema's message. */
+  public readonly issues: readonly { readonly key: string; readonly message: string }[];
+
+  constructor(message: string, issues: readonly { readonly key: string; readonly message: string }[]) {
+    super(message, 'ENV_VALIDATION_ERROR');
+    this.name = 'EnvValidationError';
+    this.issues = issues;
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
@@ -1,4 +1,5 @@
 export { AzureVenvError } from './base.js';
 export { ConfigurationError } from './config.js';
 export { AzureConnectionError, AuthenticationError } from './azure.js';
-export { SyncError, PathTraversalError } from './sync.js';
+export { SyncError, PathTraversalError, IntegrityError, SyncAbortedError } from './sync.js';
+export { SecretResolutionError, EnvExpansionError, EnvValidationError } from './env.js';
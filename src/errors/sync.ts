@@ -40,3 +40,59 @@ export class PathTraversalError extends AzureVenvError {
     Object.setPrototypeOf(this, new.target.prototype);
   }
 }
+
+/**
+ * Thrown when a downloaded blob does not match the hash published for it.
+ *
+ * Trigger conditions:
+ * - MD5 of the content differs from the Content-MD5 reported by the blob listing
+ * - SHA-256 of the content differs from the `content_sha256` blob metadata
+ *
+ * The blob is not loaded. The sync engine records it in SyncResult.failedBlobs;
+ * watch mode keeps the previous content and retries on the next poll.
+ */
+export class IntegrityError extends AzureVenvError {
+  /** The blob whose content failed verification. */
+  public readonly blobName: string;
+
+  /** Hash algorithm that detected the mismatch. */
+  public readonly algorithm: 'md5' | 'sha256';
+
+  /** Published hash (base64 for MD5, hex for SHA-256). */
+  public readonly expected: string;
+
+  /** Hash of the downloaded content, in the same encoding as expected. */
+  public readonly actual: string;
+
+  constructor(message: string, blobName: string, algorithm: 'md5' | 'sha256', expected: string, actual: string) {
+    super(message, 'INTEGRITY_ERROR');
+    this.name = 'IntegrityError';
+    this.blobName = blobName;
+    this.algorithm = algorithm;
+    this.expected = expected;
+    this.actual = actual;
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+/**
+ * Thrown when a sync is stopped before it completed.
+ *
+ * Trigger conditions:
+ * - The overall deadline (AzureVenvOptions.deadlineMs) passed
+ * - The caller's AbortSignal (AzureVenvOptions.signal) was aborted
+ *
+ * Blob sources raise it from the operation in flight. initAzureVenv turns it into a
+ * partial SyncResult flagged timedOut, or throws it when failOnError is true.
+ */
+export class SyncAbortedError extends AzureVenvError {
+  /** Why the sync was stopped. */
+  public readonly reason: 'deadline' | 'cancelled';
+
+  constructor(message: string, reason: 'deadline' | 'cancelled') {
+    super(message, 'SYNC_ABORTED');
+    this.name = 'SyncAbortedError';
+    this.reason = reason;
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
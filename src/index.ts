@@ -2,18 +2,30 @@
 export { initAzureVenv } from './initialize.js';
 
 // Configuration types
-export type { AzureVenvOptions, AzureVenvConfig, ParsedBlobUrl, LogLevel } from './config/types.js';
+export type { AzureVenvOptions, AzureVenvConfig, AzureVenvSourceOptions, AdditionalSourceConfig, ParsedBlobUrl, BlobUrlStyle, LogLevel, LoadMode, AuthMode, AzureVenvAuth, OfflineCacheConfig } from './config/types.js';
 
 // Result types
-export type { SyncResult, BlobContent, EnvSource, EnvRecord, EnvLoadResult, FileTreeNode, EnvDetails } from './types/index.js';
+export type { SyncResult, SourceSyncResult, BlobContent, SkippedBlob, SkipReason, EnvSource, EnvPrecedence, EnvRecord, EnvLoadResult, FileTreeNode, EnvDetails } from './types/index.js';
 
 // Watch mode
 export { watchAzureVenv } from './watch/watcher.js';
-export type { WatchOptions, WatchChangeEvent, WatchResult, WatchChangeType } from './types/index.js';
+export type {
+  WatchOptions,
+  WatchChangeEvent,
+  WatchChangeListener,
+  WatchResult,
+  WatchChangeType,
+  WatchSnapshot,
+  WatchClock,
+  EnvChangeEvent,
+  EnvChangeListener,
+  EnvVariableChange,
+} from './types/index.js';
 
 // Introspection utilities
 export { buildFileTree } from './introspection/file-tree.js';
 export { sortBlobs } from './introspection/manifest-reader.js';
+export { loadBlobContent } from './sync/lazy.js';
 export { findBlobBySource } from './introspection/source-lookup.js';
 
 // Asset store
@@ -25,6 +37,17 @@ export type { AssetStoreOptions, InitAssetStoreOptions } from './assets/types.js
 // Azure types
 export type { BlobInfo } from './azure/types.js';
 
+// Blob sources
+export { LocalDirectoryBlobSource } from './source/local.js';
+export type { BlobSource } from './source/types.js';
+
+// Secret references
+export { FileSecretResolver } from './env/secrets.js';
+export type { SecretResolver, SecretReference } from './env/secrets.js';
+export type { EnvSchema, EnvSchemaResult, EnvSchemaIssue } from './env/schema.js';
+export { createEnvAccessor, env } from './env/accessor.js';
+export type { EnvAccessor } from './env/accessor.js';
+
 // Logger
 export type { Logger } from './logging/logger.js';
 
@@ -35,4 +58,9 @@ export {
   AzureConnectionError,
   AuthenticationError,
   SyncError,
+  IntegrityError,
+  SyncAbortedError,
+  SecretResolutionError,
+  EnvExpansionError,
+  EnvValidationError,
 } from './errors/index.js';
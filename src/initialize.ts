@@ -1,58 +1,50 @@
 import * as path from 'node:path';
 
 import type { AzureVenvOptions } from './config/types.js';
-import type { SyncResult, EnvRecord, EnvDetails } from './types/index.js';
-import { buildFileTree } from './introspection/file-tree.js';
+import type { SyncResult } from './types/index.js';
 import { NO_OP_SYNC_RESULT } from './types/index.js';
 import { validateConfig } from './config/validator.js';
 import { createLogger } from './logging/logger.js';
-import { parseEnvFile, parseEnvBuffer } from './env/loader.js';
-import { applyPrecedence } from './env/precedence.js';
-import { AzureVenvBlobClient } from './azure/client.js';
-import { SyncEngine } from './sync/engine.js';
+import { parseEnvFile } from './env/loader.js';
+import { authSecret } from './azure/client.js';
+import { createBlobSource } from './source/factory.js';
+import { runInitialSync, failedSyncResult, localEnvDetails } from './sync/initial-sync.js';
+import { createAdditionalSyncSources } from './sync/sources.js';
+import { createSyncDeadline } from './sync/deadline.js';
+import { withParsedEnv } from './env/schema.js';
+import { bindEnvDetails } from './env/accessor.js';
+import type { EnvSchema } from './env/schema.js';
 import {
   AzureVenvError,
   ConfigurationError,
   AuthenticationError,
   AzureConnectionError,
+  SyncAbortedError,
 } from './errors/index.js';
 
-/**
- * Helper to build a failed SyncResult for error recovery paths.
- */
-function failedSyncResult(startTime: number): SyncResult {
-  return {
-    attempted: true,
-    totalBlobs: 0,
-    downloaded: 0,
-    failed: 0,
-    failedBlobs: [],
-    duration: Date.now() - startTime,
-    remoteEnvLoaded: false,
-    envSources: {},
-    blobs: [],
-    fileTree: [],
-    envDetails: {
-      variables: {},
-      sources: {},
-      localKeys: [],
-      remoteKeys: [],
-      osKeys: [],
-    },
-  };
-}
-
 /**
  * Initialize the azure-venv library. Call this at application startup, before any other
  * imports or initialization that depend on remote files or environment variables.
  *
  * This function:
  * 1. Loads the local .env file (does not override OS env vars)
- * 2. Checks for AZURE_VENV and AZURE_VENV_SAS_TOKEN in process.env
- * 3. If both are present, connects to Azure Blob Storage
+ * 2. Checks for AZURE_VENV and the credentials of the auth mode (AZURE_VENV_AUTH_MODE,
+ *    SAS token by default) in process.env
+ * 3. If present, connects to Azure Blob Storage
  * 4. Downloads a remote .env (if it exists) and applies it with three-tier precedence
  * 5. Reads all remaining blob files into memory
- * 6. Returns a SyncResult with blob contents and statistics
+ * 6. Validates the merged environment against options.envSchema, if given
+ * 7. Returns a SyncResult with blob contents, statistics and the parsed config (SyncResult.env)
+ *
+ * The exported env accessor reads the environment details of the latest call that passed the
+ * envSchema validation; a rejected call leaves it unchanged.
+ *
+ * With an offline cache (AZURE_VENV_CACHE_DIR), each complete sync is persisted encrypted,
+ * and when Azure is unreachable with failOnError=false the last cached sync is served
+ * (SyncResult.servedFromCache, SyncResult.cacheAge).
+ *
+ * options.signal and options.deadlineMs bound the sync: once aborted, no further blob is
+ * downloaded and the blobs read so far are returned with SyncResult.timedOut set.
  *
  * If AZURE_VENV and AZURE_VENV_SAS_TOKEN are both absent after local .env loading,
  * the function returns a no-op SyncResult (azure-venv is not configured).
@@ -60,14 +52,35 @@ function failedSyncResult(startTime: number): SyncResult {
  * @param options - Optional configuration overrides. Required config is always from process.env.
  * @returns Promise resolving to SyncResult with in-memory blob contents.
  * @throws ConfigurationError if required config is partially present or invalid
- * @throws AuthenticationError if SAS token is expired or authentication fails (when failOnError: true)
+ * @throws EnvValidationError if the merged environment does not match options.envSchema (always)
+ * @throws AuthenticationError if the SAS token is expired, Azure answers 401/403 or the Azure AD
+ *   credential cannot get a token (always)
  * @throws AzureConnectionError if Azure is unreachable (when failOnError: true)
+ * @throws SyncAbortedError if the deadline passes or the signal is aborted (when failOnError: true)
  */
+export async function initAzureVenv<TEnv>(
+  options: AzureVenvOptions<TEnv> & { envSchema: EnvSchema<TEnv> },
+): Promise<SyncResult<TEnv>>;
+export async function initAzureVenv(options?: AzureVenvOptions & { envSchema?: undefined }): Promise<SyncResult<undefined>>;
+export async function initAzureVenv(options?: AzureVenvOptions): Promise<SyncResult>;
 export async function initAzureVenv(options?: AzureVenvOptions): Promise<SyncResult> {
+  const result = await syncAzureVenv(options);
+
+  // Validated whether or not the sync succeeded: the local .env may suffice
+  const parsed = withParsedEnv(result, options?.envSchema);
+  bindEnvDetails(parsed.envDetails);
+  return parsed;
+}
+
+/**
+ * Steps 1-5 of initAzureVenv: everything but the envSchema validation and the env accessor.
+ */
+export async function syncAzureVenv(options?: AzureVenvOptions): Promise<SyncResult> {
   const startTime = Date.now();
 
   // STEP 0: Capture OS environment snapshot BEFORE any .env loading
-  const osEnvSnapshot = new Set(Object.keys(process.env));
+  const osEnv = { ...process.env };
+  const osEnvSnapshot = new Set(Object.keys(osEnv));
 
   // Create a bootstrap logger (before config is validated, no SAS to sanitize yet)
   const bootstrapLogger = createLogger(options?.logLevel ?? 'info', '');
@@ -93,81 +106,46 @@ export async function initAzureVenv(options?: AzureVenvOptions): Promise<SyncRes
 
   if (config === null) {
     bootstrapLogger.info('AZURE_VENV not configured, skipping Azure sync');
-    return NO_OP_SYNC_RESULT;
+    const envDetails = localEnvDetails(osEnv, localEnv);
+    return { ...NO_OP_SYNC_RESULT, envSources: envDetails.sources, envDetails };
   }
 
-  // Now we have a validated config with SAS token - create the real logger
-  const logger = createLogger(config.logLevel, config.sasToken);
+  // Now we have a validated config with credentials - create the real logger
+  const logger = createLogger(config.logLevel, authSecret(config.auth));
 
   logger.info('Azure VENV configured, starting sync');
   logger.debug(`Blob URL: ${config.blobUrl.accountUrl}/${config.blobUrl.containerName}`);
   logger.debug(`Prefix: "${config.blobUrl.prefix}"`);
   logger.debug(`Concurrency: ${config.concurrency}`);
+  for (const additional of config.additionalSources) {
+    logger.debug(`Source "${additional.name}": ${additional.blobUrl.accountUrl}/${additional.blobUrl.containerName}`);
+  }
 
-  try {
-    // STEP 5: Create Azure Blob client
-    const blobClient = new AzureVenvBlobClient(
-      {
-        accountUrl: config.blobUrl.accountUrl,
-        containerName: config.blobUrl.containerName,
-        sasToken: config.sasToken,
-        maxRetries: 3,
-        timeout: config.timeout,
-      },
-      logger,
-    );
-
-    // Create sync engine (in-memory only)
-    const syncEngine = new SyncEngine(blobClient, logger);
-
-    // STEP 6 & 7: Fetch and load remote .env (if exists)
-    let remoteEnvLoaded = false;
-    let remoteEnv: EnvRecord = {};
-
-    const remoteEnvBuffer = await syncEngine.fetchRemoteEnv(config.blobUrl.prefix);
+  const deadline = createSyncDeadline(options, startTime);
 
-    if (remoteEnvBuffer !== null) {
-      remoteEnv = parseEnvBuffer(remoteEnvBuffer);
-      logger.info(`Parsed ${Object.keys(remoteEnv).length} variable(s) from remote .env`);
-      remoteEnvLoaded = true;
-    }
+  try {
+    // STEP 5: Create the blob source (Azure, local directory or injected)
+    const blobClient = createBlobSource(config, logger, options?.source);
+    const additionalSources = createAdditionalSyncSources(config, options?.sources);
 
-    // Apply three-tier precedence: OS > remote .env > local .env
-    const envResult = applyPrecedence(osEnvSnapshot, localEnv, remoteEnv, logger);
-
-    // STEP 8: Read all blobs into memory
-    const readResult = await syncEngine.readBlobs(config);
-
-    // Build introspection data
-    const fileTree = buildFileTree(readResult.blobs);
-
-    const envDetails: EnvDetails = {
-      variables: envResult.variables,
-      sources: envResult.sources,
-      localKeys: [...envResult.localKeys],
-      remoteKeys: [...envResult.remoteKeys],
-      osKeys: [...envResult.osKeys],
-    };
-
-    // STEP 10: Build and return SyncResult
-    const duration = Date.now() - startTime;
-
-    const result: SyncResult = {
-      attempted: true,
-      totalBlobs: readResult.totalBlobs,
-      downloaded: readResult.blobs.length,
-      failed: readResult.failed,
-      failedBlobs: readResult.failedBlobs,
-      duration,
-      remoteEnvLoaded,
-      envSources: envResult.sources,
-      blobs: readResult.blobs,
-      fileTree,
-      envDetails,
-    };
+    // STEP 6-10: Fetch remote .env, apply precedence, read blobs (offline cache fallback)
+    const { result } = await runInitialSync({
+      config,
+      logger,
+      source: blobClient,
+      osEnvSnapshot,
+      osEnv,
+      localEnv,
+      startTime,
+      previousBlobs: options?.previous?.blobs,
+      signal: deadline.signal,
+      additionalSources,
+      secretResolver: options?.secretResolver,
+    });
 
     logger.info(
-      `Azure VENV sync complete: ${result.downloaded} read, ${result.failed} failed in ${result.duration}ms`,
+      `Azure VENV sync ${result.timedOut ? 'stopped early' : 'complete'}: ` +
+      `${result.downloaded} downloaded, ${result.reused} reused, ${result.failed} failed in ${result.duration}ms`,
     );
 
     return result;
@@ -184,7 +162,7 @@ export async function initAzureVenv(options?: AzureVenvOptions): Promise<SyncRes
       }
 
       logger.warn(`Azure sync failed (failOnError=false): ${error.message}`);
-      return failedSyncResult(startTime);
+      return failedSyncResult(startTime, error instanceof SyncAbortedError, localEnvDetails(osEnv, localEnv));
     }
 
     // Unknown errors - wrap and handle based on failOnError
@@ -198,6 +176,8 @@ export async function initAzureVenv(options?: AzureVenvOptions): Promise<SyncRes
       `Azure sync failed with unexpected error (failOnError=false): ${error instanceof Error ? error.message : String(error)}`,
     );
 
-    return failedSyncResult(startTime);
+    return failedSyncResult(startTime, false, localEnvDetails(osEnv, localEnv));
+  } finally {
+    deadline.dispose();
   }
 }
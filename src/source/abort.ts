@@ -0,0 +1,25 @@
+import { SyncAbortedError } from '../errors/index.js';
+
+/**
+ * Error to raise for an aborted signal.
+ *
+ * @param signal - The aborted signal.
+ * @returns The signal's reason when it is a SyncAbortedError (as set by the sync deadline),
+ *   otherwise a SyncAbortedError with reason 'cancelled'.
+ */
+export function abortError(signal: AbortSignal): SyncAbortedError {
+  return signal.reason instanceof SyncAbortedError
+    ? signal.reason
+    : new SyncAbortedError('Sync cancelled by the caller', 'cancelled');
+}
+
+/**
+ * Throw if the signal is aborted. Blob sources call this before starting an operation.
+ *
+ * @throws SyncAbortedError if the signal is aborted.
+ */
+export function throwIfAborted(signal: AbortSignal | undefined): void {
+  if (signal?.aborted) {
+    throw abortError(signal);
+  }
+}
@@ -0,0 +1,44 @@
+import type { AzureVenvConfig } from '../config/types.js';
+import type { Logger } from '../logging/logger.js';
+import type { BlobSource } from './types.js';
+import { AzureVenvBlobClient } from '../azure/client.js';
+import { LocalDirectoryBlobSource } from './local.js';
+
+/**
+ * Create the blob source for a validated configuration.
+ *
+ * @param config - Validated configuration.
+ * @param logger - Logger instance.
+ * @param source - Source injected via AzureVenvOptions.source; returned as-is when present.
+ *
+ * Contract:
+ *   - An injected source always wins
+ *   - 'local' URLs (file://) are served by LocalDirectoryBlobSource
+ *   - Every other URL style is served by AzureVenvBlobClient
+ */
+export function createBlobSource(
+  config: AzureVenvConfig,
+  logger: Logger,
+  source?: BlobSource,
+): BlobSource {
+  if (source !== undefined) {
+    logger.debug('Using injected blob source');
+    return source;
+  }
+
+  if (config.blobUrl.style === 'local') {
+    return new LocalDirectoryBlobSource(config.blobUrl.containerName, logger);
+  }
+
+  return new AzureVenvBlobClient(
+    {
+      accountUrl: config.blobUrl.accountUrl,
+      containerName: config.blobUrl.containerName,
+      auth: config.auth,
+      maxRetries: config.maxRetries,
+      retryDelay: config.retryDelay,
+      timeout: config.timeout,
+    },
+    logger,
+  );
+}
@@ -0,0 +1,3 @@
+export { createBlobSource } from './factory.js';
+export { LocalDirectoryBlobSource, LOCAL_METADATA_SUFFIX } from './local.js';
+export type { BlobSource } from './types.js';
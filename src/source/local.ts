@@ -0,0 +1,248 @@
+import * as path from 'node:path';
+import { readFile, readdir, stat } from 'node:fs/promises';
+import type { Stats } from 'node:fs';
+
+import type { BlobInfo } from '../azure/types.js';
+import type { Logger } from '../logging/logger.js';
+import type { BlobSource } from './types.js';
+import { throwIfAborted } from './abort.js';
+import {
+  AuthenticationError,
+  AzureConnectionError,
+  PathTraversalError,
+  SyncError,
+} from '../errors/index.js';
+
+/**
+ * Suffix of the sidecar file holding a blob's metadata.
+ * `config/app.json.meta.json` holds the metadata of `config/app.json`.
+ */
+export const LOCAL_METADATA_SUFFIX = '.meta.json';
+
+/** Return the errno code of a filesystem error, if any. */
+function errorCode(error: unknown): string | undefined {
+  return error instanceof Error && 'code' in error
+    ? (error as NodeJS.ErrnoException).code
+    : undefined;
+}
+
+/**
+ * Build an ETag from the size and modification time of a file and its sidecar.
+ * Any content or metadata change produces a different value.
+ */
+function statEtag(file: Stats, sidecar: Stats | null): string {
+  const parts = [file.size.toString(16), Math.floor(file.mtimeMs).toString(16)];
+  if (sidecar !== null) {
+    parts.push(Math.floor(sidecar.mtimeMs).toString(16));
+  }
+  return `"${parts.join('-')}"`;
+}
+
+/**
+ * Blob source backed by a local directory, for offline development and tests.
+ *
+ * Every regular file under the root directory is a blob named by its '/'-separated path
+ * relative to the root. Blob metadata is read from an optional JSON sidecar file next to
+ * the blob (`<name>.meta.json`, an object of string values such as `source_registry`).
+ * Sidecar files are never listed as blobs.
+ *
+ * Errors follow the BlobSource contract: a missing root directory is an AzureConnectionError,
+ * a missing blob a SyncError, and a permission failure an AuthenticationError.
+ */
+export class LocalDirectoryBlobSource implements BlobSource {
+  private readonly rootDir: string;
+  private readonly logger: Logger;
+
+  /**
+   * @param rootDir - Directory served as the container root.
+   * @param logger - Logger instance for diagnostic output.
+   */
+  constructor(rootDir: string, logger: Logger) {
+    this.rootDir = path.resolve(rootDir);
+    this.logger = logger;
+
+    this.logger.debug(`LocalDirectoryBlobSource initialized for directory "${this.rootDir}"`);
+  }
+
+  /**
+   * List all files under the given prefix with their sidecar metadata.
+   *
+   * @param prefix - Virtual directory prefix (with trailing '/' or empty for the root).
+   * @param signal - Cancels the listing.
+   * @returns Array of BlobInfo sorted by name.
+   *
+   * @throws AzureConnectionError if the root directory does not exist.
+   * @throws AuthenticationError if a directory cannot be read.
+   * @throws SyncAbortedError if the signal is aborted.
+   */
+  async listBlobs(prefix: string, signal?: AbortSignal): Promise<BlobInfo[]> {
+    this.logger.debug(`Listing local blobs with prefix: "${prefix}"`);
+    throwIfAborted(signal);
+
+    const names: string[] = [];
+    await this.walk('', names);
+    throwIfAborted(signal);
+
+    const blobs: BlobInfo[] = [];
+    for (const name of names.sort()) {
+      if (!name.startsWith(prefix) || name.endsWith(LOCAL_METADATA_SUFFIX)) {
+        continue;
+      }
+      blobs.push(await this.describe(name));
+    }
+
+    this.logger.debug(`Listed ${blobs.length} local blob(s) under prefix "${prefix}"`);
+    return blobs;
+  }
+
+  /**
+   * Read a file into memory.
+   *
+   * @param blobName - Blob name relative to the root directory.
+   * @param signal - Cancels the read.
+   *
+   * @throws PathTraversalError if the name resolves outside the root directory.
+   * @throws SyncError if the file does not exist.
+   * @throws AuthenticationError if the file cannot be read due to permissions.
+   * @throws SyncAbortedError if the signal is aborted.
+   */
+  async downloadToBuffer(blobName: string, signal?: AbortSignal): Promise<Buffer> {
+    throwIfAborted(signal);
+    const filePath = this.resolve(blobName);
+
+    try {
+      const buffer = await readFile(filePath);
+      this.logger.debug(`Read local blob "${blobName}" (${buffer.length} bytes)`);
+      return buffer;
+    } catch (error: unknown) {
+      throw this.translateError(error, `Failed to download blob "${blobName}"`);
+    }
+  }
+
+  /**
+   * Collect the names of all regular files below a directory (relative to the root).
+   */
+  private async walk(relativeDir: string, names: string[]): Promise<void> {
+    const dirPath = path.join(this.rootDir, relativeDir);
+
+    let entries;
+    try {
+      entries = await readdir(dirPath, { withFileTypes: true });
+    } catch (error: unknown) {
+      if (relativeDir === '' && errorCode(error) === 'ENOENT') {
+        throw new AzureConnectionError(`Local blob source directory not found: "${this.rootDir}"`);
+      }
+      throw this.translateError(error, `Failed to list directory "${dirPath}"`);
+    }
+
+    for (const entry of entries) {
+      const name = relativeDir === '' ? entry.name : `${relativeDir}/${entry.name}`;
+      if (entry.isDirectory()) {
+        await this.walk(name, names);
+      } else if (entry.isFile()) {
+        names.push(name);
+      }
+    }
+  }
+
+  /**
+   * Build the listing entry of a file, merging in its sidecar metadata.
+   */
+  private async describe(name: string): Promise<BlobInfo> {
+    const filePath = path.join(this.rootDir, name);
+
+    try {
+      const fileStats = await stat(filePath);
+      const sidecarStats = await this.statSidecar(filePath);
+
+      return {
+        name,
+        etag: statEtag(fileStats, sidecarStats),
+        lastModified: fileStats.mtime,
+        contentLength: fileStats.size,
+        metadata: sidecarStats !== null ? await this.readMetadata(name) : undefined,
+      };
+    } catch (error: unknown) {
+      throw this.translateError(error, `Failed to read blob properties of "${name}"`);
+    }
+  }
+
+  /** Stat the sidecar file of a blob, or null if it has none. */
+  private async statSidecar(filePath: string): Promise<Stats | null> {
+    try {
+      return await stat(`${filePath}${LOCAL_METADATA_SUFFIX}`);
+    } catch (error: unknown) {
+      if (errorCode(error) === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Parse the sidecar metadata of a blob. Non-string values are ignored;
+   * an unparseable sidecar is logged and treated as empty.
+   */
+  private async readMetadata(name: string): Promise<Record<string, string>> {
+    const sidecarName = `${name}${LOCAL_METADATA_SUFFIX}`;
+    const raw = await readFile(path.join(this.rootDir, sidecarName), 'utf-8');
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw);
+    } catch {
+      this.logger.warn(`Ignoring invalid metadata sidecar "${sidecarName}": not valid JSON`);
+      return {};
+    }
+
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+      this.logger.warn(`Ignoring invalid metadata sidecar "${sidecarName}": expected a JSON object`);
+      return {};
+    }
+
+    const metadata: Record<string, string> = {};
+    for (const [key, value] of Object.entries(parsed)) {
+      if (typeof value === 'string') {
+        metadata[key] = value;
+      }
+    }
+    return metadata;
+  }
+
+  /**
+   * Resolve a blob name to a file path inside the root directory.
+   *
+   * @throws PathTraversalError if the name is absolute or escapes the root.
+   */
+  private resolve(blobName: string): string {
+    const filePath = path.resolve(this.rootDir, blobName);
+    if (path.isAbsolute(blobName) || !filePath.startsWith(this.rootDir + path.sep)) {
+      throw new PathTraversalError(
+        `Blob name "${blobName}" resolves outside the local source directory`,
+        blobName,
+      );
+    }
+    return filePath;
+  }
+
+  /**
+   * Translate a filesystem error into the library error type of the BlobSource contract.
+   */
+  private translateError(error: unknown, context: string): Error {
+    const message = `${context}: ${error instanceof Error ? error.message : String(error)}`;
+
+    switch (errorCode(error)) {
+      case 'EACCES':
+      case 'EPERM':
+        this.logger.error(`Access denied: ${message}`);
+        return new AuthenticationError(message);
+      case 'ENOENT':
+      case 'EISDIR':
+        this.logger.error(`Blob not found: ${message}`);
+        return new SyncError(message);
+      default:
+        this.logger.error(`Local source error: ${message}`);
+        return new SyncError(message);
+    }
+  }
+}
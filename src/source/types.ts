@@ -0,0 +1,33 @@
+import type { BlobInfo } from '../azure/types.js';
+
+/**
+ * Backend that azure-venv reads blobs from.
+ *
+ * SyncEngine and BlobWatcher only talk to this interface. AzureVenvBlobClient is the
+ * Azure Blob Storage implementation; LocalDirectoryBlobSource serves a local directory.
+ *
+ * Contract:
+ *   - Blob names are '/'-separated paths relative to the container (or directory) root
+ *   - listBlobs returns every blob whose name starts with the prefix, with its ETag and metadata
+ *   - An ETag changes whenever the blob content or metadata changes
+ *   - Errors are AzureVenvError subclasses: AuthenticationError for access denied,
+ *     SyncError for a missing blob, AzureConnectionError when the backend is unreachable
+ *   - An operation whose signal is aborted rejects with SyncAbortedError and is not retried
+ */
+export interface BlobSource {
+  /**
+   * List all blobs under the given prefix, including their metadata.
+   *
+   * @param prefix - Virtual directory prefix (with trailing '/' or empty for the root).
+   * @param signal - Cancels the listing (sync deadline or caller cancellation).
+   */
+  listBlobs(prefix: string, signal?: AbortSignal): Promise<BlobInfo[]>;
+
+  /**
+   * Download a blob's content into memory.
+   *
+   * @param blobName - Full blob name.
+   * @param signal - Cancels the download (sync deadline or caller cancellation).
+   */
+  downloadToBuffer(blobName: string, signal?: AbortSignal): Promise<Buffer>;
+}
@@ -0,0 +1,76 @@
+import type { AzureVenvOptions } from '../config/types.js';
+import { ConfigurationError, SyncAbortedError } from '../errors/index.js';
+
+/**
+ * Cancellation of one initial sync, combining the caller's signal and the deadline.
+ */
+export interface SyncDeadline {
+  /** Aborted (with a SyncAbortedError reason) when the deadline passes or the caller aborts. Undefined when neither is set. */
+  readonly signal: AbortSignal | undefined;
+
+  /** Clear the deadline timer and detach from the caller's signal. Call once the sync settled. */
+  dispose(): void;
+}
+
+/**
+ * Create the cancellation signal of an initial sync.
+ *
+ * @param options - Caller options (signal and deadlineMs).
+ * @param startTime - Start of the initialization (epoch milliseconds); the deadline counts from here.
+ * @returns The combined signal and its disposer.
+ *
+ * @throws ConfigurationError if deadlineMs is not a positive finite number.
+ *
+ * Contract:
+ *   - The abort reason is a SyncAbortedError: reason 'deadline' or 'cancelled'
+ *   - An already aborted caller signal, or a deadline already past, aborts immediately
+ *   - The deadline timer never keeps the process alive
+ */
+export function createSyncDeadline(
+  options: Pick<AzureVenvOptions, 'signal' | 'deadlineMs'> | undefined,
+  startTime: number,
+): SyncDeadline {
+  const callerSignal = options?.signal;
+  const deadlineMs = options?.deadlineMs;
+
+  if (deadlineMs !== undefined && (!Number.isFinite(deadlineMs) || deadlineMs <= 0)) {
+    throw new ConfigurationError('deadlineMs must be a positive number of milliseconds', 'deadlineMs');
+  }
+
+  if (callerSignal === undefined && deadlineMs === undefined) {
+    return { signal: undefined, dispose: () => undefined };
+  }
+
+  const controller = new AbortController();
+  const onAbort = (): void => {
+    controller.abort(new SyncAbortedError('Sync cancelled by the caller', 'cancelled'));
+  };
+
+  if (callerSignal?.aborted) {
+    onAbort();
+  } else {
+    callerSignal?.addEventListener('abort', onAbort, { once: true });
+  }
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  if (deadlineMs !== undefined && !controller.signal.aborted) {
+    const expire = (): void => {
+      controller.abort(new SyncAbortedError(`Sync deadline of ${deadlineMs} ms exceeded`, 'deadline'));
+    };
+    const remaining = startTime + deadlineMs - Date.now();
+    if (remaining <= 0) {
+      expire();
+    } else {
+      timer = setTimeout(expire, remaining);
+      timer.unref?.();
+    }
+  }
+
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      clearTimeout(timer);
+      callerSignal?.removeEventListener('abort', onAbort);
+    },
+  };
+}
@@ -1,8 +1,18 @@
-import type { AzureVenvBlobClient } from '../azure/client.js';
+import type { BlobSource } from '../source/types.js';
 import type { BlobInfo } from '../azure/types.js';
 import type { AzureVenvConfig } from '../config/types.js';
 import type { Logger } from '../logging/logger.js';
-import type { BlobContent } from '../types/index.js';
+import type { BlobContent, SkippedBlob, SkipReason } from '../types/index.js';
+import { createBlobFilter } from './filter.js';
+import type { LruBufferCache } from './lazy.js';
+import { lazyCacheFor } from './lazy.js';
+import { verifyBlobIntegrity } from './integrity.js';
+import { runPool } from './pool.js';
+import { qualifiedBlobName } from './sources.js';
+import { ConfigurationError, SyncAbortedError } from '../errors/index.js';
+import { throwIfAborted } from '../source/abort.js';
+import { parseEnvBuffer } from '../env/loader.js';
+import type { RemoteEnvFile } from '../env/remote-files.js';
 
 /**
  * Strip a prefix from a blob name to produce a relative path.
@@ -19,144 +29,430 @@ function stripPrefix(blobName: string, prefix: string): string {
   return rel === '' || rel === '/' ? blobName : rel;
 }
 
+/**
+ * Whether a listed blob still has the content of a previously read copy:
+ * same ETag, or (for metadata-only changes) same content MD5.
+ */
+function isUnchanged(previous: BlobContent, blob: BlobInfo): boolean {
+  if (blob.etag !== '' && previous.etag === blob.etag) {
+    return true;
+  }
+  return blob.contentMD5 !== undefined && previous.contentMD5 === blob.contentMD5;
+}
+
+/**
+ * Check a blob's listed size against the blob size limit and the memory budget.
+ *
+ * @param size - Content length of the blob from the listing.
+ * @param usedBytes - Bytes of blob content already held in memory.
+ * @param config - Configured limits. In lazy mode only the blob size limit applies:
+ *   lazily loaded content is bounded by the lazy cache instead of the memory budget.
+ * @returns The exceeded limit, or null if the blob may be read into memory.
+ */
+export function checkSizeLimits(
+  size: number,
+  usedBytes: number,
+  config: Pick<AzureVenvConfig, 'maxBlobSize' | 'memoryBudget' | 'loadMode'>,
+): SkipReason | null {
+  if (config.maxBlobSize !== null && size > config.maxBlobSize) {
+    return 'max-blob-size';
+  }
+  if (config.loadMode === 'eager' && config.memoryBudget !== null && usedBytes + size > config.memoryBudget) {
+    return 'memory-budget';
+  }
+  return null;
+}
+
+/**
+ * Memory accounting shared by the sources of one sync, so that the memory budget and the
+ * lazy cache bound the sync as a whole rather than each source.
+ */
+export interface SyncMemory {
+  /** Bytes of blob content admitted so far, counted against the memory budget. */
+  usedBytes: number;
+
+  /** Cache backing lazy blobs, or null in eager mode. */
+  readonly lazyCache: LruBufferCache | null;
+}
+
+/**
+ * Create the memory accounting of a sync.
+ *
+ * @param config - Validated configuration of the primary source (its lazy cache is the one the watcher uses).
+ */
+export function createSyncMemory(config: AzureVenvConfig): SyncMemory {
+  return { usedBytes: 0, lazyCache: config.loadMode === 'lazy' ? lazyCacheFor(config) : null };
+}
+
 /**
  * Orchestrates reading blob contents into memory with concurrency control.
  */
 export class SyncEngine {
-  private readonly client: AzureVenvBlobClient;
+  private readonly client: BlobSource;
   private readonly logger: Logger;
+  private readonly sourceName: string;
 
   /**
-   * @param client - Azure Blob client for listing and downloading.
+   * @param client - Blob source for listing and downloading.
    * @param logger - Logger instance.
+   * @param sourceName - Name of an additional source: namespaces the relativePath of its blobs
+   *   (`<sourceName>/<path>`) and qualifies its failed blob names. Empty for the primary source.
    */
   constructor(
-    client: AzureVenvBlobClient,
+    client: BlobSource,
     logger: Logger,
+    sourceName = '',
   ) {
     this.client = client;
     this.logger = logger;
+    this.sourceName = sourceName;
   }
 
   /**
-   * Check for a .env file at the blob prefix root, download it if present,
-   * and return its content as a Buffer.
+   * Path of a blob in the synced collection: relative to the prefix, under the source namespace.
+   */
+  relativePathOf(blobName: string, prefix: string): string {
+    const relativePath = stripPrefix(blobName, prefix);
+    return this.sourceName === '' ? relativePath : `${this.sourceName}/${relativePath}`;
+  }
+
+  /**
+   * Build the BlobContent of a listed blob from its content.
+   */
+  private toBlobContent(blob: BlobInfo, prefix: string, content: Buffer, sha256: string | undefined): BlobContent {
+    return {
+      blobName: blob.name,
+      relativePath: this.relativePathOf(blob.name, prefix),
+      content,
+      size: content.length,
+      etag: blob.etag,
+      lastModified: blob.lastModified.toISOString(),
+      contentMD5: blob.contentMD5,
+      sha256,
+      sourceRegistry: blob.metadata?.source_registry,
+      sourcePath: blob.metadata?.source_path,
+      ...(this.sourceName !== '' ? { sourceName: this.sourceName } : {}),
+    };
+  }
+
+  /**
+   * Download and parse the remote .env files that exist.
    *
-   * @param prefix - The blob prefix (virtual directory).
-   * @returns Buffer containing the .env content, or null if not found.
+   * @param envFiles - Container-relative blob names, in merge order (AZURE_VENV_ENV_FILES).
+   * @param signal - Cancels the downloads (sync deadline or caller cancellation).
+   * @returns The files found, in the order of envFiles. Files that do not exist or fail to
+   *   download are left out.
+   *
+   * @throws SyncAbortedError if the signal is aborted.
    */
-  async fetchRemoteEnv(prefix: string): Promise<Buffer | null> {
-    const envBlobName = prefix ? `${prefix}.env` : '.env';
-
-    this.logger.info(`Checking for remote .env at "${envBlobName}"`);
-
-    try {
-      const buffer = await this.client.downloadToBuffer(envBlobName);
-      this.logger.info(`Remote .env found (${buffer.length} bytes)`);
-      return buffer;
-    } catch (error: unknown) {
-      // If the blob is not found (404), return null
-      this.logger.debug(
-        `Remote .env not found or failed to download: ${error instanceof Error ? error.message : String(error)}`,
-      );
-      return null;
+  async fetchRemoteEnvFiles(envFiles: readonly string[], signal?: AbortSignal): Promise<RemoteEnvFile[]> {
+    const files: RemoteEnvFile[] = [];
+
+    for (const blobName of envFiles) {
+      this.logger.info(`Checking for remote .env at "${blobName}"`);
+
+      try {
+        const buffer = await this.client.downloadToBuffer(blobName, signal);
+        const env = parseEnvBuffer(buffer);
+        this.logger.info(`Remote .env "${blobName}" found (${buffer.length} bytes, ${Object.keys(env).length} variable(s))`);
+        files.push({ blobName, env });
+      } catch (error: unknown) {
+        if (error instanceof SyncAbortedError) {
+          throw error;
+        }
+
+        // If the blob is not found (404), skip it
+        this.logger.debug(
+          `Remote .env "${blobName}" not found or failed to download: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    }
+
+    return files;
+  }
+
+  /**
+   * Find the listing entries of the remote .env files that exist.
+   * Files under the prefix are looked up in its listing; each file outside it is listed on its own.
+   *
+   * @param envFiles - Container-relative blob names (AZURE_VENV_ENV_FILES).
+   * @param prefix - The blob prefix that was listed.
+   * @param listed - Listing of the prefix.
+   * @param signal - Cancels the listings.
+   * @returns Listing entries of the existing files, in the order of envFiles.
+   *
+   * @throws SyncAbortedError if the signal is aborted.
+   */
+  async listEnvFiles(
+    envFiles: readonly string[],
+    prefix: string,
+    listed: readonly BlobInfo[],
+    signal?: AbortSignal,
+  ): Promise<BlobInfo[]> {
+    const envBlobs: BlobInfo[] = [];
+
+    for (const blobName of envFiles) {
+      const candidates = blobName.startsWith(prefix) ? listed : await this.client.listBlobs(blobName, signal);
+      const blob = candidates.find((candidate) => candidate.name === blobName);
+      if (blob !== undefined) {
+        envBlobs.push(blob);
+      }
     }
+
+    return envBlobs;
   }
 
   /**
-   * Read all blobs (except .env) from Azure into memory with concurrency control.
+   * Read all blobs (except the remote .env files) from the blob source into memory with concurrency control.
+   * Blobs rejected by the config's include/exclude globs are skipped and counted as excluded.
+   * Blobs over the size limit or the memory budget (judged by listed sizes, in name order)
+   * are not downloaded and are returned in skippedBlobs. In lazy mode nothing is downloaded:
+   * every blob gets a load() accessor backed by the configuration's LRU cache.
+   *
+   * When the signal is aborted during the downloads, no further download starts and the
+   * downloads in flight are cancelled; the blobs read so far are returned, the others are
+   * counted as failed and the result is flagged timedOut.
    *
    * @param config - Validated configuration.
-   * @returns Statistics and in-memory blob contents.
+   * @param previous - Blobs of a previous sync. Unchanged blobs (same ETag or content MD5)
+   *   reuse their content instead of being downloaded again. Ignored in lazy mode.
+   * @param signal - Cancels the sync (deadline or caller cancellation).
+   * @param memory - Memory accounting shared with the other sources of the sync. Default: this source alone.
+   * @returns Statistics, in-memory blob contents, and the listing entries of the remote .env files that exist.
+   *
+   * @throws SyncAbortedError if the signal is aborted before the listing completed.
    */
-  async readBlobs(config: AzureVenvConfig): Promise<{
+  async readBlobs(
+    config: AzureVenvConfig,
+    previous: readonly BlobContent[] = [],
+    signal?: AbortSignal,
+    memory: SyncMemory = createSyncMemory(config),
+  ): Promise<{
     blobs: BlobContent[];
+    downloaded: number;
+    reused: number;
+    excluded: number;
     failed: number;
     failedBlobs: string[];
+    skippedBlobs: SkippedBlob[];
     totalBlobs: number;
+    envBlobs: BlobInfo[];
+    timedOut: boolean;
   }> {
     const prefix = config.blobUrl.prefix;
 
     this.logger.info(`Starting in-memory blob read with prefix "${prefix}"`);
 
     // List all blobs under the prefix
-    const allBlobs = await this.client.listBlobs(prefix);
+    const allBlobs = await this.client.listBlobs(prefix, signal);
+
+    // Filter out the .env files (handled separately by fetchRemoteEnvFiles)
+    const envBlobs = await this.listEnvFiles(config.envFiles, prefix, allBlobs, signal);
+    const envFileNames = new Set(config.envFiles);
 
-    // Filter out the .env file (handled separately by fetchRemoteEnv)
-    const envBlobName = prefix ? `${prefix}.env` : '.env';
-    const fileBlobs = allBlobs.filter((blob) => blob.name !== envBlobName);
+    // Apply the include/exclude globs to paths relative to the prefix
+    const filter = createBlobFilter(config.include, config.exclude);
+    const listedBlobs = allBlobs.filter((blob) => !envFileNames.has(blob.name));
+    const fileBlobs = listedBlobs.filter((blob) => filter(stripPrefix(blob.name, prefix)));
+    const excluded = listedBlobs.length - fileBlobs.length;
 
-    this.logger.info(`Found ${fileBlobs.length} blob(s) to read (excluding .env)`);
+    this.logger.info(
+      `Found ${fileBlobs.length} blob(s) to read (excluding .env${excluded > 0 ? `, ${excluded} filtered out` : ''})`,
+    );
 
     const totalBlobs = fileBlobs.length;
 
     if (totalBlobs === 0) {
       return {
         blobs: [],
+        downloaded: 0,
+        reused: 0,
+        excluded,
         failed: 0,
         failedBlobs: [],
+        skippedBlobs: [],
         totalBlobs: 0,
+        envBlobs,
+        timedOut: false,
       };
     }
 
-    // Download all blobs to memory with concurrency control
+    // Leave out blobs over the size limits, then reuse the content of blobs unchanged since the previous sync
     const blobs: BlobContent[] = [];
-    const failedBlobs: string[] = [];
-    const concurrency = config.concurrency;
+    const toDownload: BlobInfo[] = [];
+    const skippedBlobs: SkippedBlob[] = [];
+    const previousByName = new Map(previous.map((blob) => [blob.blobName, blob]));
+    const { lazyCache } = memory;
 
-    // Process in batches of `concurrency`
-    for (let i = 0; i < fileBlobs.length; i += concurrency) {
-      const batch = fileBlobs.slice(i, i + concurrency);
+    for (const blob of fileBlobs) {
+      const reason = checkSizeLimits(blob.contentLength, memory.usedBytes, config);
+      if (reason !== null) {
+        skippedBlobs.push(this.toSkippedBlob(blob, prefix, reason, config.lazyOversized));
+        continue;
+      }
+      memory.usedBytes += blob.contentLength;
 
-      const results = await Promise.allSettled(
-        batch.map((blob) => this.downloadBlobToMemory(blob, prefix)),
+      if (lazyCache !== null) {
+        blobs.push(this.toLazyBlobContent(blob, prefix, lazyCache));
+        continue;
+      }
+
+      const prior = previousByName.get(blob.name);
+      if (prior !== undefined && isUnchanged(prior, blob)) {
+        blobs.push(this.toBlobContent(blob, prefix, prior.content, prior.sha256));
+      } else {
+        toDownload.push(blob);
+      }
+    }
+    const reused = lazyCache !== null ? 0 : blobs.length;
+
+    if (reused > 0) {
+      this.logger.info(`Reusing ${reused} unchanged blob(s) from the previous sync`);
+    }
+    if (lazyCache !== null) {
+      this.logger.info(`Lazy mode: listed ${blobs.length} blob(s), content is downloaded on first use`);
+    }
+    if (skippedBlobs.length > 0) {
+      this.logger.warn(
+        `Skipped ${skippedBlobs.length} blob(s) exceeding size limits: ` +
+        skippedBlobs.map((blob) => `"${blob.blobName}" (${blob.size} bytes, ${blob.reason})`).join(', '),
       );
+    }
 
-      for (let j = 0; j < results.length; j++) {
-        const result = results[j];
-        if (result.status === 'fulfilled') {
-          blobs.push(result.value);
-        } else {
-          const blobName = batch[j].name;
-          failedBlobs.push(blobName);
-          this.logger.error(
-            `Failed to read blob "${blobName}": ${result.reason instanceof Error ? result.reason.message : String(result.reason)}`,
-          );
-        }
+    // Download the remaining blobs to memory, keeping `concurrency` downloads in flight
+    const failedBlobs: string[] = [];
+    const results = await runPool(toDownload, config.concurrency, async (blob) => {
+      throwIfAborted(signal);
+      return this.downloadBlobToMemory(blob, prefix, signal);
+    });
+
+    let unfinished = 0;
+    for (let i = 0; i < results.length; i++) {
+      const result = results[i];
+      if (result.status === 'fulfilled') {
+        blobs.push(result.value);
+        continue;
       }
+
+      const blobName = toDownload[i].name;
+      failedBlobs.push(qualifiedBlobName(this.sourceName, blobName));
+      if (result.reason instanceof SyncAbortedError) {
+        unfinished++;
+      } else {
+        this.logger.error(
+          `Failed to read blob "${blobName}": ${result.reason instanceof Error ? result.reason.message : String(result.reason)}`,
+        );
+      }
+    }
+
+    const timedOut = unfinished > 0;
+    if (timedOut) {
+      this.logger.warn(`Sync stopped before completion: ${unfinished} blob(s) not read`);
     }
 
     // Sort blobs by relativePath
     blobs.sort((a, b) => a.relativePath.localeCompare(b.relativePath));
 
+    const downloaded = lazyCache !== null ? 0 : blobs.length - reused;
     this.logger.info(
-      `Read complete: ${blobs.length} read, ${failedBlobs.length} failed out of ${totalBlobs} total`,
+      `Read complete: ${downloaded} downloaded, ${reused} reused, ${failedBlobs.length} failed out of ${totalBlobs} total`,
     );
 
     return {
       blobs,
+      downloaded,
+      reused,
+      excluded,
       failed: failedBlobs.length,
       failedBlobs,
+      skippedBlobs,
       totalBlobs,
+      envBlobs,
+      timedOut,
     };
   }
 
   /**
    * Download a single blob into memory and produce a BlobContent object.
+   * The content is verified against the listed Content-MD5 and the `content_sha256` metadata.
+   *
+   * @param blob - Listing metadata of the blob to download.
+   * @param prefix - The blob prefix, stripped to produce the relative path.
+   * @param signal - Cancels the download.
+   *
+   * @throws IntegrityError if the content does not match a published hash.
+   * @throws SyncAbortedError if the signal is aborted.
+   */
+  async downloadBlobToMemory(blob: BlobInfo, prefix: string, signal?: AbortSignal): Promise<BlobContent> {
+    const buffer = await this.client.downloadToBuffer(blob.name, signal);
+    const sha256 = verifyBlobIntegrity(blob, buffer);
+    this.logger.debug(`Read blob "${blob.name}" (${buffer.length} bytes, sha256 ${sha256})`);
+    return this.toBlobContent(blob, prefix, buffer, sha256);
+  }
+
+  /**
+   * Download a blob's content and verify it against its published hashes.
+   *
+   * @throws IntegrityError if the content does not match.
    */
-  private async downloadBlobToMemory(blob: BlobInfo, prefix: string): Promise<BlobContent> {
+  private async downloadVerified(blob: BlobInfo): Promise<Buffer> {
     const buffer = await this.client.downloadToBuffer(blob.name);
-    const relativePath = stripPrefix(blob.name, prefix);
+    verifyBlobIntegrity(blob, buffer);
+    return buffer;
+  }
+
+  /**
+   * Produce a BlobContent whose content is downloaded on first use and kept in an LRU cache.
+   * Its content property always throws, whether or not the content is cached: load() is the
+   * only access, so callers do not depend on the cache state.
+   * The cache key includes the ETag, so a modified blob never serves stale content, and the
+   * source name, since one cache serves all sources of a sync.
+   *
+   * @param blob - Listing metadata of the blob.
+   * @param prefix - The blob prefix, stripped to produce the relative path.
+   * @param cache - LRU cache shared by the lazy blobs of one configuration.
+   */
+  toLazyBlobContent(blob: BlobInfo, prefix: string, cache: LruBufferCache): BlobContent {
+    const key = `${qualifiedBlobName(this.sourceName, blob.name)}\n${blob.etag}`;
+    const load = (): Promise<Buffer> => cache.getOrLoad(key, () => this.downloadVerified(blob));
 
     return {
       blobName: blob.name,
-      relativePath,
-      content: buffer,
-      size: buffer.length,
+      relativePath: this.relativePathOf(blob.name, prefix),
+      get content(): Buffer {
+        throw new ConfigurationError(
+          `Content of blob "${blob.name}" is not held in memory in lazy mode; use load() or loadBlobContent()`,
+          'loadMode',
+        );
+      },
+      load,
+      size: blob.contentLength,
       etag: blob.etag,
       lastModified: blob.lastModified.toISOString(),
+      contentMD5: blob.contentMD5,
       sourceRegistry: blob.metadata?.source_registry,
       sourcePath: blob.metadata?.source_path,
+      ...(this.sourceName !== '' ? { sourceName: this.sourceName } : {}),
+    };
+  }
+
+  /**
+   * Describe a blob left out of memory by the size limits.
+   *
+   * @param blob - Listing metadata of the skipped blob.
+   * @param prefix - The blob prefix, stripped to produce the relative path.
+   * @param reason - The exceeded limit.
+   * @param lazy - Whether to attach a loader that downloads the content on demand.
+   */
+  toSkippedBlob(blob: BlobInfo, prefix: string, reason: SkipReason, lazy: boolean): SkippedBlob {
+    return {
+      blobName: blob.name,
+      relativePath: this.relativePathOf(blob.name, prefix),
+      ...(this.sourceName !== '' ? { sourceName: this.sourceName } : {}),
+      size: blob.contentLength,
+      etag: blob.etag,
+      reason,
+      ...(lazy ? { load: () => this.downloadVerified(blob) } : {}),
     };
   }
 }
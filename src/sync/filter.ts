@@ -0,0 +1,160 @@
+/**
+ * Predicate deciding whether a blob, identified by its path relative to the prefix, is synced.
+ */
+export type BlobFilter = (relativePath: string) => boolean;
+
+/**
+ * Split a comma-separated glob list (AZURE_VENV_INCLUDE / AZURE_VENV_EXCLUDE).
+ * Commas inside `{...}` alternations do not split; entries are trimmed and empty entries dropped.
+ *
+ * @param value - Raw env var value. Example: "config/**,*.{json,yaml}"
+ * @returns The glob patterns.
+ */
+export function splitGlobList(value: string): string[] {
+  const patterns: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  for (const char of value) {
+    if (char === ',' && depth === 0) {
+      patterns.push(current);
+      current = '';
+      continue;
+    }
+    if (char === '{') {
+      depth++;
+    } else if (char === '}' && depth > 0) {
+      depth--;
+    }
+    current += char;
+  }
+  patterns.push(current);
+
+  return patterns.map((p) => p.trim()).filter((p) => p.length > 0);
+}
+
+/**
+ * Escape a character for literal use in a regular expression.
+ */
+function escapeRegExp(char: string): string {
+  return /[\\^$.*+?()[\]{}|/]/.test(char) ? `\\${char}` : char;
+}
+
+/**
+ * Compile a glob pattern into an anchored regular expression over '/'-separated paths.
+ *
+ * Supported syntax:
+ *   - `*` any run of characters except '/'
+ *   - `**` any run of characters including '/' (`**\/` also matches zero directories)
+ *   - `?` one character except '/'
+ *   - `[abc]`, `[a-z]`, `[!abc]` character classes
+ *   - `{a,b}` alternation (may be nested)
+ *
+ * Unterminated classes and unbalanced braces are matched literally.
+ */
+function globToRegExp(pattern: string): RegExp {
+  // Pair up braces first so an unbalanced '{' or '}' is matched literally
+  const pairedBraces = new Set<number>();
+  const openBraces: number[] = [];
+  for (let i = 0; i < pattern.length; i++) {
+    if (pattern[i] === '{') {
+      openBraces.push(i);
+    } else if (pattern[i] === '}') {
+      const open = openBraces.pop();
+      if (open !== undefined) {
+        pairedBraces.add(open);
+        pairedBraces.add(i);
+      }
+    }
+  }
+
+  let source = '';
+  let braceDepth = 0;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        // '**/' matches zero or more whole directories; a bare '**' anything at all
+        if (pattern[i + 2] === '/') {
+          source += '(?:.*/)?';
+          i += 2;
+        } else {
+          source += '.*';
+          i += 1;
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const end = pattern.indexOf(']', i + 2);
+      if (end === -1) {
+        source += '\\[';
+      } else {
+        let body = pattern.slice(i + 1, end);
+        if (body.startsWith('!')) {
+          body = `^${body.slice(1)}`;
+        }
+        source += `[${body.replace(/\\/g, '\\\\')}]`;
+        i = end;
+      }
+    } else if (char === '{' && pairedBraces.has(i)) {
+      source += '(?:';
+      braceDepth++;
+    } else if (char === '}' && pairedBraces.has(i)) {
+      source += ')';
+      braceDepth--;
+    } else if (char === ',' && braceDepth > 0) {
+      source += '|';
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Compile one include/exclude pattern into a path matcher.
+ *
+ * - A pattern without '/' matches the file name at any depth ("*.zip" matches "a/b/c.zip").
+ * - A pattern with '/' matches the whole relative path ("docs/*.md" only matches directly under docs/).
+ * - A trailing '/' matches everything below a directory ("archives/" equals "archives/**").
+ * - A leading "./" or "/" is ignored.
+ */
+function compilePattern(pattern: string): (relativePath: string) => boolean {
+  let normalized = pattern.replace(/^\.?\/+/, '');
+  if (normalized.endsWith('/')) {
+    normalized += '**';
+  }
+
+  const regex = globToRegExp(normalized);
+  if (normalized.includes('/')) {
+    return (relativePath) => regex.test(relativePath);
+  }
+  return (relativePath) => regex.test(relativePath.slice(relativePath.lastIndexOf('/') + 1));
+}
+
+/**
+ * Create the include/exclude filter applied to blob paths relative to the prefix.
+ *
+ * @param include - Patterns a blob must match at least one of. Empty: every blob is included.
+ * @param exclude - Patterns a blob must match none of.
+ * @returns Predicate that is true for blobs to sync.
+ *
+ * Contract:
+ *   - Exclude wins over include
+ *   - Matching is case-sensitive, like blob names
+ *   - With no patterns at all, every blob passes
+ */
+export function createBlobFilter(include: readonly string[], exclude: readonly string[]): BlobFilter {
+  const includeMatchers = include.map(compilePattern);
+  const excludeMatchers = exclude.map(compilePattern);
+
+  return (relativePath) =>
+    (includeMatchers.length === 0 || includeMatchers.some((match) => match(relativePath))) &&
+    !excludeMatchers.some((match) => match(relativePath));
+}
@@ -0,0 +1,501 @@
+import type { AzureVenvConfig } from '../config/types.js';
+import type { BlobSource } from '../source/types.js';
+import type { Logger } from '../logging/logger.js';
+import type {
+  SyncResult,
+  SourceSyncResult,
+  BlobContent,
+  SkippedBlob,
+  EnvRecord,
+  EnvDetails,
+  EnvLoadResult,
+  EnvSource,
+} from '../types/index.js';
+import { buildFileTree } from '../introspection/file-tree.js';
+import { applyPrecedence } from '../env/precedence.js';
+import { expandVariables } from '../env/expand.js';
+import { mergeRemoteEnvFiles } from '../env/remote-files.js';
+import { resolveSecretReferences } from '../env/secrets.js';
+import type { SecretResolver } from '../env/secrets.js';
+import type { RemoteEnvFile, MergedRemoteEnv } from '../env/remote-files.js';
+import { OfflineCache } from '../cache/offline-cache.js';
+import type { CachedSync } from '../cache/offline-cache.js';
+import { SyncEngine, checkSizeLimits, createSyncMemory } from './engine.js';
+import type { SyncMemory } from './engine.js';
+import { createBlobFilter } from './filter.js';
+import { qualifiedBlobName } from './sources.js';
+import type { SyncSource } from './sources.js';
+import { AzureConnectionError } from '../errors/index.js';
+import { abortError } from '../source/abort.js';
+
+/**
+ * Inputs of the initial sync shared by initAzureVenv and watchAzureVenv.
+ */
+export interface InitialSyncContext {
+  readonly config: AzureVenvConfig;
+  readonly logger: Logger;
+  readonly source: BlobSource;
+
+  /** Snapshot of OS environment variable keys taken before .env loading. */
+  readonly osEnvSnapshot: ReadonlySet<string>;
+
+  /** process.env as captured with osEnvSnapshot, for tiers that outrank OS (AZURE_VENV_PRECEDENCE). */
+  readonly osEnv?: Readonly<Record<string, string | undefined>>;
+
+  /** Parsed key-value pairs from the local .env file. */
+  readonly localEnv: Readonly<EnvRecord>;
+
+  /** Start of the initialization (epoch milliseconds), for SyncResult.duration. */
+  readonly startTime: number;
+
+  /**
+   * Blobs of a previous sync whose unchanged entries are reused instead of downloaded.
+   * Default: the offline cache entry, when a cache is configured.
+   */
+  readonly previousBlobs?: readonly BlobContent[];
+
+  /** Stops the sync (see createSyncDeadline). */
+  readonly signal?: AbortSignal;
+
+  /** Sources of config.additionalSources (see createAdditionalSyncSources), in order. Default: none. */
+  readonly additionalSources?: readonly SyncSource[];
+
+  /** Resolves secret references in remote .env values (AzureVenvOptions.secretResolver). */
+  readonly secretResolver?: SecretResolver;
+}
+
+/**
+ * Result of the initial sync.
+ */
+export interface InitialSyncOutcome {
+  readonly result: SyncResult;
+
+  /**
+   * Remote .env files read from all sources, with their ETags and names qualified as `<source>:<blobName>`
+   * for additional sources. Seed watch mode change detection.
+   */
+  readonly remoteEnvFiles: readonly RemoteEnvFile[];
+}
+
+/**
+ * Environment details of the local .env alone, as applied before the sync: OS variables win.
+ * Describes the environment of results for which no remote .env was applied.
+ *
+ * @param osEnv - process.env as captured before the local .env was loaded.
+ * @param localEnv - Parsed key-value pairs from the local .env file.
+ */
+export function localEnvDetails(
+  osEnv: Readonly<Record<string, string | undefined>>,
+  localEnv: Readonly<EnvRecord>,
+): EnvDetails {
+  const variables: EnvRecord = {};
+  const sources: Record<string, EnvSource> = {};
+  const localKeys: string[] = [];
+  const osKeys: string[] = [];
+  for (const [key, value] of Object.entries(localEnv)) {
+    const osValue = osEnv[key];
+    if (osValue !== undefined) {
+      variables[key] = osValue;
+      sources[key] = 'os';
+      osKeys.push(key);
+    } else {
+      variables[key] = value;
+      sources[key] = 'local';
+      localKeys.push(key);
+    }
+  }
+  return { variables, sources, localKeys, remoteKeys: [], osKeys, remoteFiles: {}, secretKeys: [] };
+}
+
+/**
+ * Build a failed SyncResult for error recovery paths.
+ *
+ * @param startTime - Start of the initialization (epoch milliseconds).
+ * @param timedOut - Whether the sync failed because its deadline passed or it was cancelled.
+ * @param envDetails - Environment applied before the failure (see localEnvDetails). Default: empty.
+ */
+export function failedSyncResult(
+  startTime: number,
+  timedOut = false,
+  envDetails: EnvDetails = {
+    variables: {},
+    sources: {},
+    localKeys: [],
+    remoteKeys: [],
+    osKeys: [],
+    remoteFiles: {},
+    secretKeys: [],
+  },
+): SyncResult {
+  return {
+    attempted: true,
+    totalBlobs: 0,
+    downloaded: 0,
+    reused: 0,
+    excluded: 0,
+    failed: 0,
+    failedBlobs: [],
+    skippedBlobs: [],
+    duration: Date.now() - startTime,
+    timedOut,
+    remoteEnvLoaded: false,
+    envSources: envDetails.sources,
+    blobs: [],
+    fileTree: [],
+    envDetails,
+    servedFromCache: false,
+    cacheAge: null,
+    sources: [],
+    env: undefined,
+  };
+}
+
+/**
+ * Convert a precedence result into introspection data.
+ *
+ * @param envResult - Result of applyPrecedence.
+ * @param origins - Remote .env file of each merged remote key (MergedRemoteEnv.origins).
+ * @param secretKeys - Remote keys resolved from a secret reference (ResolvedRemoteEnv.secretKeys).
+ */
+export function toEnvDetails(
+  envResult: EnvLoadResult,
+  origins: Readonly<Record<string, string>>,
+  secretKeys: readonly string[] = [],
+): EnvDetails {
+  return {
+    variables: envResult.variables,
+    sources: envResult.sources,
+    localKeys: [...envResult.localKeys],
+    remoteKeys: [...envResult.remoteKeys],
+    osKeys: [...envResult.osKeys],
+    remoteFiles: Object.fromEntries(envResult.remoteKeys.map((key) => [key, origins[key]])),
+    // An OS or local variable of the same name may win over the resolved secret
+    secretKeys: secretKeys.filter((key) => envResult.sources[key] === 'remote'),
+  };
+}
+
+/**
+ * Expand variable references of the applied .env values when config.expand is set.
+ *
+ * @throws EnvExpansionError on a reference cycle when failOnError is true.
+ */
+export function expandIfEnabled(
+  config: AzureVenvConfig,
+  envResult: EnvLoadResult,
+  secretKeys: readonly string[],
+  logger: Logger,
+): EnvLoadResult {
+  return config.expand ? expandVariables(envResult, logger, { secretKeys, failOnError: config.failOnError }) : envResult;
+}
+
+/**
+ * A source of the initial sync with its engine and offline cache.
+ */
+interface SourceState {
+  readonly sync: SyncSource;
+  readonly engine: SyncEngine;
+  readonly cache: OfflineCache | null;
+
+  /** Read the source's cache entry; it is read at most once, for blob reuse or for the fallback. */
+  loadCache(): Promise<CachedSync | null>;
+}
+
+/**
+ * Blobs, remote .env files and statistics read from one source.
+ */
+interface SourceOutcome {
+  readonly stats: SourceSyncResult;
+  readonly blobs: readonly BlobContent[];
+  readonly skippedBlobs: readonly SkippedBlob[];
+  readonly failedBlobs: readonly string[];
+
+  /** Remote .env files of the source, with their ETags. */
+  readonly remoteEnvFiles: readonly RemoteEnvFile[];
+
+  readonly timedOut: boolean;
+
+  /** Age of the cache entry served instead of the source, or null when the source was reached. */
+  readonly cacheAge: number | null;
+}
+
+/** Create the engine and offline cache of a source. */
+function toSourceState(sync: SyncSource): SourceState {
+  const { config, logger } = sync;
+  const cache = config.cache !== null ? new OfflineCache(config.cache, config.blobUrl, logger) : null;
+  let cachedEntry: Promise<CachedSync | null> | null = null;
+
+  return {
+    sync,
+    engine: new SyncEngine(sync.source, logger, config.sourceName),
+    cache,
+    loadCache: () => (cachedEntry ??= cache !== null ? cache.load() : Promise.resolve(null)),
+  };
+}
+
+/**
+ * Merge the remote .env files of all sources into the remote tier.
+ * AZURE_VENV wins over the additional sources, and an earlier additional source over a later one;
+ * files of additional sources are attributed as `<source>:<blobName>`.
+ *
+ * @param sources - The sources, primary first.
+ * @param envFiles - Remote .env files of each source, in the order of sources.
+ */
+function mergeSourceEnvFiles(
+  sources: readonly SourceState[],
+  envFiles: readonly (readonly RemoteEnvFile[])[],
+): MergedRemoteEnv {
+  // mergeRemoteEnvFiles lets later files win: feed the lowest-precedence source first
+  const ordered = sources
+    .map((_, index) => index)
+    .reverse()
+    .flatMap((index) => envFiles[index].map((file) => ({
+      ...file,
+      blobName: qualifiedBlobName(sources[index].sync.config.sourceName, file.blobName),
+    })));
+  return mergeRemoteEnvFiles(ordered);
+}
+
+/**
+ * Fetch and merge the remote .env files, resolve their secret references, apply the three-tier
+ * precedence and read all blobs into memory.
+ *
+ * With additional sources (ctx.additionalSources), the remote .env files of all sources form the
+ * remote tier (AZURE_VENV wins over the additional sources, an earlier additional source over a later
+ * one), and the blobs of all sources are merged under their namespaces.
+ *
+ * The memory budget and the lazy cache are shared by all sources.
+ *
+ * Blobs unchanged since the previous sync (ctx.previousBlobs, or the offline cache entry)
+ * are reused rather than downloaded. With an offline cache configured, a fully successful
+ * eager sync of a source (every blob and every existing remote .env read) is persisted, and when
+ * the source is unreachable (AzureConnectionError) with failOnError=false its last cached sync is
+ * served instead.
+ *
+ * When ctx.signal is aborted while blobs are downloading, the blobs read so far are
+ * returned in a SyncResult flagged timedOut (never saved to the offline cache).
+ *
+ * @param ctx - Configuration, sources and environment state of the initialization.
+ * @returns The SyncResult and the remote .env files read from the sources.
+ *
+ * @throws AzureVenvError subclasses from a blob source when no cache entry can be served.
+ * @throws SecretResolutionError if a secret reference cannot be resolved and failOnError is true.
+ * @throws EnvExpansionError if config.expand is set, .env values reference each other in a cycle
+ *   and failOnError is true.
+ * @throws SyncAbortedError if ctx.signal is aborted before a listing completed, or
+ *   during the downloads when failOnError is true.
+ */
+export async function runInitialSync(ctx: InitialSyncContext): Promise<InitialSyncOutcome> {
+  const { config, logger, osEnvSnapshot, localEnv, startTime, signal } = ctx;
+  const sources = [{ config, source: ctx.source, logger }, ...(ctx.additionalSources ?? [])].map(toSourceState);
+
+  // Fetch the remote .env files that exist, source by source
+  const envFiles: RemoteEnvFile[][] = [];
+  for (const state of sources) {
+    envFiles.push(await state.engine.fetchRemoteEnvFiles(state.sync.config.envFiles, signal));
+  }
+  let remoteEnv = mergeSourceEnvFiles(sources, envFiles);
+
+  const fileCount = envFiles.reduce((count, files) => count + files.length, 0);
+  if (fileCount > 1) {
+    logger.info(`Merged ${Object.keys(remoteEnv.env).length} variable(s) from ${fileCount} remote .env files`);
+  }
+
+  // Resolve secret references, apply three-tier precedence (default OS > remote .env > local .env), expand references
+  const secretOptions = { failOnError: config.failOnError, signal };
+  const precedenceOptions = { precedence: config.precedence, osEnv: ctx.osEnv };
+  let remoteSecrets = await resolveSecretReferences(remoteEnv.env, ctx.secretResolver, logger, secretOptions);
+  let envResult = applyPrecedence(osEnvSnapshot, localEnv, remoteSecrets.env, logger, [], precedenceOptions);
+  envResult = expandIfEnabled(config, envResult, remoteSecrets.secretKeys, logger);
+
+  // Read all blobs into memory (or only list them in lazy mode), reusing unchanged ones
+  const memory = createSyncMemory(config);
+  const outcomes: SourceOutcome[] = [];
+  for (let i = 0; i < sources.length; i++) {
+    outcomes.push(await readSource(ctx, sources[i], envFiles[i], memory));
+  }
+
+  // A source served from the offline cache brings the remote .env files of its cached sync
+  const cacheAges = outcomes.flatMap((outcome) => (outcome.cacheAge !== null ? [outcome.cacheAge] : []));
+  if (cacheAges.length > 0) {
+    remoteEnv = mergeSourceEnvFiles(sources, outcomes.map((outcome) => outcome.remoteEnvFiles));
+    remoteSecrets = await resolveSecretReferences(remoteEnv.env, ctx.secretResolver, logger, secretOptions);
+    envResult = applyPrecedence(
+      osEnvSnapshot,
+      localEnv,
+      remoteSecrets.env,
+      logger,
+      envResult.remoteKeys,
+      precedenceOptions,
+    );
+    envResult = expandIfEnabled(config, envResult, remoteSecrets.secretKeys, logger);
+  }
+
+  const stats = outcomes.map((outcome) => outcome.stats);
+  const sum = (field: 'totalBlobs' | 'downloaded' | 'reused' | 'excluded' | 'failed'): number =>
+    stats.reduce((total, source) => total + source[field], 0);
+  const blobs = outcomes.flatMap((outcome) => outcome.blobs);
+  blobs.sort((a, b) => a.relativePath.localeCompare(b.relativePath));
+
+  const result: SyncResult = {
+    attempted: true,
+    totalBlobs: sum('totalBlobs'),
+    downloaded: sum('downloaded'),
+    reused: sum('reused'),
+    excluded: sum('excluded'),
+    failed: sum('failed'),
+    failedBlobs: outcomes.flatMap((outcome) => outcome.failedBlobs),
+    skippedBlobs: outcomes.flatMap((outcome) => outcome.skippedBlobs),
+    duration: Date.now() - startTime,
+    timedOut: outcomes.some((outcome) => outcome.timedOut),
+    remoteEnvLoaded: stats.some((source) => source.remoteEnvLoaded),
+    envSources: envResult.sources,
+    blobs,
+    fileTree: buildFileTree(blobs),
+    envDetails: toEnvDetails(envResult, remoteEnv.origins, remoteSecrets.secretKeys),
+    servedFromCache: cacheAges.length > 0,
+    cacheAge: cacheAges.length > 0 ? Math.max(...cacheAges) : null,
+    sources: stats,
+    env: undefined,
+  };
+
+  const remoteEnvFiles = outcomes.flatMap((outcome, index) => outcome.remoteEnvFiles.map((file) => ({
+    ...file,
+    blobName: qualifiedBlobName(sources[index].sync.config.sourceName, file.blobName),
+  })));
+
+  return { result, remoteEnvFiles };
+}
+
+/**
+ * Account URL, container and prefix of a source, without credentials.
+ */
+function sourceUrl(config: AzureVenvConfig): string {
+  const { accountUrl, containerName, prefix } = config.blobUrl;
+  return `${accountUrl}/${containerName}/${prefix}`;
+}
+
+/**
+ * Read the blobs of one source, falling back to its offline cache when it is unreachable.
+ *
+ * @param ctx - Context of the initial sync (previous blobs, signal).
+ * @param state - The source.
+ * @param envFiles - Remote .env files fetched from the source.
+ * @param memory - Memory accounting shared by the sources of the sync.
+ */
+async function readSource(
+  ctx: InitialSyncContext,
+  state: SourceState,
+  envFiles: readonly RemoteEnvFile[],
+  memory: SyncMemory,
+): Promise<SourceOutcome> {
+  const { config, logger } = state.sync;
+  const { signal } = ctx;
+
+  try {
+    const lazy = config.loadMode === 'lazy';
+    const previousBlobs = lazy
+      ? []
+      : ctx.previousBlobs?.filter((blob) => (blob.sourceName ?? '') === config.sourceName)
+        ?? (await state.loadCache())?.blobs
+        ?? [];
+    const readResult = await state.engine.readBlobs(config, previousBlobs, signal, memory);
+
+    if (readResult.timedOut && config.failOnError && signal !== undefined) {
+      throw abortError(signal);
+    }
+
+    const envEtags = new Map(readResult.envBlobs.map((blob) => [blob.name, blob.etag]));
+    const remoteEnvFiles = envFiles.map((file) => ({ ...file, etag: envEtags.get(file.blobName) }));
+
+    // Only a complete sync replaces the last-known-good cache entry; lazy syncs hold no content to save
+    const complete = readResult.failed === 0 && readResult.envBlobs.every(
+      (blob) => envFiles.some((file) => file.blobName === blob.name),
+    );
+    if (state.cache !== null && complete && !lazy) {
+      await state.cache.save({ remoteEnvFiles, blobs: readResult.blobs });
+    }
+
+    return {
+      stats: {
+        name: config.sourceName,
+        url: sourceUrl(config),
+        totalBlobs: readResult.totalBlobs,
+        downloaded: readResult.downloaded,
+        reused: readResult.reused,
+        excluded: readResult.excluded,
+        failed: readResult.failed,
+        remoteEnvLoaded: envFiles.length > 0,
+        servedFromCache: false,
+      },
+      blobs: readResult.blobs,
+      skippedBlobs: readResult.skippedBlobs,
+      failedBlobs: readResult.failedBlobs,
+      remoteEnvFiles,
+      timedOut: readResult.timedOut,
+      cacheAge: null,
+    };
+  } catch (error: unknown) {
+    if (state.cache !== null && error instanceof AzureConnectionError && !config.failOnError) {
+      const cached = await state.loadCache();
+      if (cached !== null) {
+        logger.warn(`Blob source unreachable (${error.message}), serving last-known-good sync from offline cache`);
+        return cachedOutcome(state, cached, memory);
+      }
+    }
+    throw error;
+  }
+}
+
+/**
+ * Build the outcome of a source served from its cached sync.
+ */
+function cachedOutcome(state: SourceState, cached: CachedSync, memory: SyncMemory): SourceOutcome {
+  const { config, logger } = state.sync;
+
+  // The cache may predate a change of the include/exclude globs or the size limits.
+  // Globs apply to paths relative to the prefix, without the source namespace.
+  // Skipped blobs get no loader: the source is unreachable.
+  const filter = createBlobFilter(config.include, config.exclude);
+  const namespaceLength = config.sourceName === '' ? 0 : config.sourceName.length + 1;
+  const blobs: BlobContent[] = [];
+  const skippedBlobs: SkippedBlob[] = [];
+  for (const blob of cached.blobs) {
+    if (!filter(blob.relativePath.slice(namespaceLength))) {
+      continue;
+    }
+    const reason = checkSizeLimits(blob.size, memory.usedBytes, config);
+    if (reason !== null) {
+      const { blobName, relativePath, sourceName, size, etag } = blob;
+      skippedBlobs.push({ blobName, relativePath, ...(sourceName !== undefined ? { sourceName } : {}), size, etag, reason });
+      continue;
+    }
+    memory.usedBytes += blob.size;
+    blobs.push(blob);
+  }
+
+  const cacheAge = Math.max(0, Date.now() - cached.savedAt);
+
+  logger.info(
+    `Served ${blobs.length} blob(s) from offline cache saved ${Math.round(cacheAge / 1000)}s ago`,
+  );
+
+  return {
+    stats: {
+      name: config.sourceName,
+      url: sourceUrl(config),
+      totalBlobs: blobs.length + skippedBlobs.length,
+      downloaded: 0,
+      reused: 0,
+      excluded: cached.blobs.length - blobs.length - skippedBlobs.length,
+      failed: 0,
+      remoteEnvLoaded: cached.remoteEnvFiles.length > 0,
+      servedFromCache: true,
+    },
+    blobs,
+    skippedBlobs,
+    failedBlobs: [],
+    remoteEnvFiles: cached.remoteEnvFiles,
+    timedOut: false,
+    cacheAge,
+  };
+}
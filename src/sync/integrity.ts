@@ -0,0 +1,49 @@
+import { createHash } from 'node:crypto';
+import type { BlobInfo } from '../azure/types.js';
+import { IntegrityError } from '../errors/index.js';
+
+/** Blob metadata key holding the hex SHA-256 of the content, set by publishers that want it verified. */
+export const SHA256_METADATA_KEY = 'content_sha256';
+
+/**
+ * Verify downloaded content against the hashes published for the blob.
+ *
+ * @param blob - Listing metadata of the blob (contentMD5 and metadata).
+ * @param content - The downloaded content.
+ * @returns Hex SHA-256 of the content.
+ *
+ * @throws IntegrityError if the content's MD5 differs from blob.contentMD5, or its
+ *   SHA-256 differs from the `content_sha256` metadata.
+ *
+ * Contract:
+ *   - Hashes that are not published are not checked
+ *   - The SHA-256 metadata comparison is case-insensitive
+ */
+export function verifyBlobIntegrity(blob: BlobInfo, content: Buffer): string {
+  if (blob.contentMD5 !== undefined) {
+    const md5 = createHash('md5').update(content).digest('base64');
+    if (md5 !== blob.contentMD5) {
+      throw new IntegrityError(
+        `Blob "${blob.name}" failed integrity check: MD5 ${md5} does not match Content-MD5 ${blob.contentMD5}`,
+        blob.name,
+        'md5',
+        blob.contentMD5,
+        md5,
+      );
+    }
+  }
+
+  const sha256 = createHash('sha256').update(content).digest('hex');
+  const expected = blob.metadata?.[SHA256_METADATA_KEY]?.toLowerCase();
+  if (expected !== undefined && expected !== sha256) {
+    throw new IntegrityError(
+      `Blob "${blob.name}" failed integrity check: SHA-256 ${sha256} does not match ${SHA256_METADATA_KEY} ${expected}`,
+      blob.name,
+      'sha256',
+      expected,
+      sha256,
+    );
+  }
+
+  return sha256;
+}
@@ -0,0 +1,127 @@
+import type { AzureVenvConfig } from '../config/types.js';
+import type { BlobContent } from '../types/index.js';
+
+/**
+ * Least-recently-used cache of blob contents bounded by total bytes.
+ * Concurrent loads of the same key share one download.
+ */
+export class LruBufferCache {
+  private readonly maxBytes: number;
+  private readonly entries: Map<string, Buffer> = new Map();
+  private readonly pending: Map<string, Promise<Buffer>> = new Map();
+  private usedBytes = 0;
+
+  /**
+   * @param maxBytes - Capacity in bytes. Buffers larger than this are returned but never cached.
+   */
+  constructor(maxBytes: number) {
+    this.maxBytes = maxBytes;
+  }
+
+  /** Bytes currently cached. */
+  get bytes(): number {
+    return this.usedBytes;
+  }
+
+  /** Number of cached entries. */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Return a cached buffer and mark it most recently used.
+   */
+  get(key: string): Buffer | undefined {
+    const buffer = this.entries.get(key);
+    if (buffer !== undefined) {
+      this.entries.delete(key);
+      this.entries.set(key, buffer);
+    }
+    return buffer;
+  }
+
+  /**
+   * Cache a buffer, evicting least recently used entries until it fits.
+   */
+  set(key: string, buffer: Buffer): void {
+    this.delete(key);
+    if (buffer.length > this.maxBytes) {
+      return;
+    }
+
+    while (this.usedBytes + buffer.length > this.maxBytes) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) {
+        break;
+      }
+      this.delete(oldest);
+    }
+
+    this.entries.set(key, buffer);
+    this.usedBytes += buffer.length;
+  }
+
+  /**
+   * Return the cached buffer, or load, cache and return it.
+   *
+   * @param key - Cache key.
+   * @param loader - Produces the buffer on a miss. Failures are not cached.
+   */
+  async getOrLoad(key: string, loader: () => Promise<Buffer>): Promise<Buffer> {
+    const cached = this.get(key);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    let pending = this.pending.get(key);
+    if (pending === undefined) {
+      pending = loader()
+        .then((buffer) => {
+          this.set(key, buffer);
+          return buffer;
+        })
+        .finally(() => {
+          this.pending.delete(key);
+        });
+      this.pending.set(key, pending);
+    }
+    return pending;
+  }
+
+  private delete(key: string): void {
+    const buffer = this.entries.get(key);
+    if (buffer !== undefined) {
+      this.entries.delete(key);
+      this.usedBytes -= buffer.length;
+    }
+  }
+}
+
+/** Lazy content caches, one per validated configuration (shared by the initial sync and the watcher). */
+const lazyCaches = new WeakMap<AzureVenvConfig, LruBufferCache>();
+
+/**
+ * Return the LRU cache backing lazy blobs of a configuration, creating it on first use.
+ *
+ * @param config - Validated configuration (lazyCacheSize sets the capacity).
+ */
+export function lazyCacheFor(config: AzureVenvConfig): LruBufferCache {
+  let cache = lazyCaches.get(config);
+  if (cache === undefined) {
+    cache = new LruBufferCache(config.lazyCacheSize);
+    lazyCaches.set(config, cache);
+  }
+  return cache;
+}
+
+/**
+ * Read a blob's content, downloading it first if the blob was listed in lazy mode.
+ *
+ * @param blob - Blob from SyncResult.blobs or a watch snapshot.
+ * @returns The blob content.
+ *
+ * @throws AzureVenvError subclasses from the blob source when a lazy download fails.
+ */
+export async function loadBlobContent(blob: BlobContent): Promise<Buffer> {
+  return blob.load !== undefined ? blob.load() : blob.content;
+}
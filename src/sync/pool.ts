@@ -0,0 +1,38 @@
+/**
+ * Run a task for every item with at most `concurrency` tasks in flight.
+ *
+ * Unlike fixed batches, a new task starts as soon as any running task settles,
+ * so one slow item never holds back the rest.
+ *
+ * @param items - Items to process, started in order.
+ * @param concurrency - Maximum number of tasks running at once (values below 1 are treated as 1).
+ * @param task - Asynchronous work for one item.
+ * @returns Settled results in the order of `items`.
+ *
+ * Contract:
+ *   - Never rejects: task failures are reported as rejected results
+ *   - A task that throws synchronously is reported like a rejected promise
+ */
+export async function runPool<T, R>(
+  items: readonly T[],
+  concurrency: number,
+  task: (item: T, index: number) => Promise<R>,
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array<PromiseSettledResult<R>>(items.length);
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        results[index] = { status: 'fulfilled', value: await task(items[index], index) };
+      } catch (reason: unknown) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+
+  const workerCount = Math.min(Math.max(1, Math.floor(concurrency)), items.length);
+  await Promise.all(Array.from({ length: workerCount }, worker));
+  return results;
+}
@@ -0,0 +1,64 @@
+import type { AzureVenvConfig, AzureVenvSourceOptions } from '../config/types.js';
+import type { Logger } from '../logging/logger.js';
+import type { BlobSource } from '../source/types.js';
+import { createBlobSource } from '../source/factory.js';
+import { createLogger } from '../logging/logger.js';
+import { authSecret } from '../azure/client.js';
+
+/**
+ * One source of a multi-source initial sync: its configuration, blob source and logger.
+ */
+export interface SyncSource {
+  /** Configuration of the source (sourceName is its namespace; empty for AZURE_VENV). */
+  readonly config: AzureVenvConfig;
+  readonly source: BlobSource;
+  readonly logger: Logger;
+}
+
+/**
+ * Name of a blob qualified by its source, unique across the sources of one sync.
+ *
+ * @param sourceName - Source name; empty for the primary AZURE_VENV source.
+ * @param blobName - Full blob name inside the source's container.
+ * @returns `<source>:<blobName>`, or blobName unchanged for the primary source.
+ */
+export function qualifiedBlobName(sourceName: string, blobName: string): string {
+  return sourceName === '' ? blobName : `${sourceName}:${blobName}`;
+}
+
+/**
+ * Create the blob sources of config.additionalSources.
+ *
+ * @param config - Validated configuration of the primary source.
+ * @param options - AzureVenvOptions.sources; its injected blob sources replace the ones selected by URL.
+ * @returns One SyncSource per additional source, in precedence order.
+ *
+ * Contract:
+ *   - Each source's configuration is the primary one with its own URL, credentials, .env files and
+ *     sourceName; operational settings (concurrency, retries, filters, limits, cache) are shared
+ *   - Each source logs through its own logger, which redacts its own SAS token
+ */
+export function createAdditionalSyncSources(
+  config: AzureVenvConfig,
+  options?: readonly AzureVenvSourceOptions[],
+): SyncSource[] {
+  return config.additionalSources.map((additional, index) => {
+    const sourceConfig: AzureVenvConfig = {
+      ...config,
+      blobUrl: additional.blobUrl,
+      auth: additional.auth,
+      sasToken: additional.sasToken,
+      sasExpiry: additional.sasExpiry,
+      envFiles: additional.envFiles,
+      sourceName: additional.name,
+      additionalSources: [],
+    };
+    const logger = createLogger(config.logLevel, authSecret(additional.auth));
+
+    return {
+      config: sourceConfig,
+      source: createBlobSource(sourceConfig, logger, options?.[index]?.source),
+      logger,
+    };
+  });
+}
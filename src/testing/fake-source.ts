@@ -0,0 +1,236 @@
+import { createHash } from 'node:crypto';
+import type { BlobInfo } from '../azure/types.js';
+import type { BlobSource } from '../source/types.js';
+import { AuthenticationError, AzureConnectionError, SyncError } from '../errors/index.js';
+import { throwIfAborted } from '../source/abort.js';
+
+/** Blob content accepted by the fake source: text, bytes, or content with metadata. */
+export type FakeBlobInput =
+  | string
+  | Buffer
+  | { readonly content: string | Buffer; readonly metadata?: Readonly<Record<string, string>> };
+
+/** Fake source operations that can be made to fail. */
+export type FakeBlobOperation = 'list' | 'download';
+
+/**
+ * Failure injected into a fake source operation.
+ * - 'forbidden': AuthenticationError, as for an Azure 403
+ * - 'timeout': AzureConnectionError, as for a network timeout
+ * - 'not-found': SyncError for downloads, AzureConnectionError (404) for listings
+ * - an Error instance: thrown as-is
+ */
+export type FakeBlobFailure = 'forbidden' | 'timeout' | 'not-found' | Error;
+
+/**
+ * Options for createFakeBlobSource().
+ */
+export interface FakeBlobSourceOptions {
+  /** Initial blobs keyed by full blob name. */
+  readonly blobs?: Readonly<Record<string, FakeBlobInput>>;
+
+  /** Time source for lastModified. Default: Date.now. */
+  readonly now?: () => number;
+}
+
+/**
+ * In-memory BlobSource whose container is edited and broken by tests.
+ */
+export interface FakeBlobSource extends BlobSource {
+  /**
+   * Create or replace a blob. Every call assigns a new ETag.
+   *
+   * @returns The new ETag.
+   */
+  setBlob(name: string, input: FakeBlobInput): string;
+
+  /**
+   * Delete a blob.
+   *
+   * @returns true if the blob existed.
+   */
+  deleteBlob(name: string): boolean;
+
+  /** Names of all blobs, sorted. */
+  blobNames(): string[];
+
+  /**
+   * Make upcoming calls of an operation fail.
+   *
+   * @param operation - Operation to fail.
+   * @param failure - Error to raise.
+   * @param options.times - Number of calls to fail. Default: 1.
+   * @param options.blobName - Only fail downloads of this blob.
+   */
+  failNext(
+    operation: FakeBlobOperation,
+    failure: FakeBlobFailure,
+    options?: { readonly times?: number; readonly blobName?: string },
+  ): void;
+
+  /** Drop all pending injected failures. */
+  clearFailures(): void;
+
+  /** Prefixes passed to listBlobs and blob names passed to the download methods, in call order. */
+  readonly calls: { readonly list: readonly string[]; readonly download: readonly string[] };
+}
+
+/** Blob stored by the fake source. */
+interface FakeBlob {
+  readonly content: Buffer;
+  readonly etag: string;
+  readonly lastModified: Date;
+  readonly metadata?: Readonly<Record<string, string>>;
+}
+
+/** Injected failure waiting to be raised. */
+interface PendingFailure {
+  readonly operation: FakeBlobOperation;
+  readonly failure: FakeBlobFailure;
+  readonly blobName?: string;
+  remaining: number;
+}
+
+/**
+ * Build the library error raised for an injected failure.
+ */
+function failureError(failure: FakeBlobFailure, operation: FakeBlobOperation, target: string): Error {
+  if (failure instanceof Error) {
+    return failure;
+  }
+
+  const context = operation === 'list'
+    ? `Failed to list blobs with prefix "${target}"`
+    : `Failed to download blob "${target}" to buffer`;
+
+  switch (failure) {
+    case 'forbidden':
+      return new AuthenticationError(`${context}: This request is not authorized to perform this operation.`);
+    case 'timeout':
+      return new AzureConnectionError(`${context}: The operation timed out.`);
+    case 'not-found':
+      return operation === 'list'
+        ? new AzureConnectionError(`${context}: The specified container does not exist.`, 404)
+        : new SyncError(`${context}: The specified blob does not exist.`);
+  }
+}
+
+/**
+ * Create an in-memory blob source for tests.
+ *
+ * Pass it as the `source` option of initAzureVenv, watchAzureVenv or initAssetStore
+ * (or use createTestHarness, which wires it up together with a manual clock).
+ *
+ * @param options - Initial blobs and time source.
+ *
+ * Contract:
+ *   - ETags are deterministic: "0x1", "0x2", ... in setBlob call order
+ *   - Listings report the base64 MD5 of each blob's content, like Azure
+ *   - Listings are sorted by name and only contain blobs starting with the prefix
+ *   - Downloads of missing blobs raise SyncError, like a 404 from Azure
+ *   - Injected failures are consumed in the order they were added
+ */
+export function createFakeBlobSource(options?: FakeBlobSourceOptions): FakeBlobSource {
+  const now = options?.now ?? Date.now;
+  const blobs = new Map<string, FakeBlob>();
+  const failures: PendingFailure[] = [];
+  const listCalls: string[] = [];
+  const downloadCalls: string[] = [];
+  let etagCounter = 0;
+
+  /** Raise the first pending failure matching the call, if any. */
+  const maybeFail = (operation: FakeBlobOperation, target: string): void => {
+    const index = failures.findIndex(
+      (f) => f.operation === operation && (f.blobName === undefined || f.blobName === target),
+    );
+    if (index === -1) {
+      return;
+    }
+
+    const pending = failures[index];
+    pending.remaining--;
+    if (pending.remaining <= 0) {
+      failures.splice(index, 1);
+    }
+    throw failureError(pending.failure, operation, target);
+  };
+
+  /** Look up a blob for download, failing like Azure when it is missing. */
+  const getBlob = (blobName: string): FakeBlob => {
+    downloadCalls.push(blobName);
+    maybeFail('download', blobName);
+
+    const blob = blobs.get(blobName);
+    if (blob === undefined) {
+      throw failureError('not-found', 'download', blobName);
+    }
+    return blob;
+  };
+
+  const source: FakeBlobSource = {
+    async listBlobs(prefix: string, signal?: AbortSignal): Promise<BlobInfo[]> {
+      throwIfAborted(signal);
+      listCalls.push(prefix);
+      maybeFail('list', prefix);
+
+      return [...blobs.entries()]
+        .filter(([name]) => name.startsWith(prefix))
+        .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+        .map(([name, blob]) => ({
+          name,
+          etag: blob.etag,
+          lastModified: blob.lastModified,
+          contentLength: blob.content.length,
+          contentMD5: createHash('md5').update(blob.content).digest('base64'),
+          metadata: blob.metadata,
+        }));
+    },
+
+    async downloadToBuffer(blobName: string, signal?: AbortSignal): Promise<Buffer> {
+      throwIfAborted(signal);
+      return Buffer.from(getBlob(blobName).content);
+    },
+
+    setBlob(name: string, input: FakeBlobInput): string {
+      const entry = typeof input === 'string' || Buffer.isBuffer(input) ? { content: input } : input;
+      const etag = `"0x${(++etagCounter).toString(16).toUpperCase()}"`;
+
+      blobs.set(name, {
+        content: Buffer.from(entry.content),
+        etag,
+        lastModified: new Date(now()),
+        metadata: 'metadata' in entry ? entry.metadata : undefined,
+      });
+      return etag;
+    },
+
+    deleteBlob(name: string): boolean {
+      return blobs.delete(name);
+    },
+
+    blobNames(): string[] {
+      return [...blobs.keys()].sort();
+    },
+
+    failNext(operation, failure, failOptions): void {
+      failures.push({
+        operation,
+        failure,
+        blobName: failOptions?.blobName,
+        remaining: failOptions?.times ?? 1,
+      });
+    },
+
+    clearFailures(): void {
+      failures.length = 0;
+    },
+
+    calls: { list: listCalls, download: downloadCalls },
+  };
+
+  for (const [name, input] of Object.entries(options?.blobs ?? {})) {
+    source.setBlob(name, input);
+  }
+
+  return source;
+}
@@ -0,0 +1,195 @@
+import * as os from 'node:os';
+import * as path from 'node:path';
+
+import type { AzureVenvOptions } from '../config/types.js';
+import type { EnvSchema } from '../env/schema.js';
+import type { SyncResult, WatchOptions, WatchResult } from '../types/index.js';
+import { NO_OP_SYNC_RESULT } from '../types/index.js';
+import type { InitAssetStoreOptions } from '../assets/types.js';
+import type { AssetStore } from '../assets/asset-store.js';
+import { initAzureVenv } from '../initialize.js';
+import { watchAzureVenv } from '../watch/watcher.js';
+import { initAssetStore } from '../assets/init-asset-store.js';
+import { bindEnvDetails } from '../env/accessor.js';
+import { createFakeBlobSource } from './fake-source.js';
+import type { FakeBlobSource, FakeBlobSourceOptions } from './fake-source.js';
+import { createManualClock } from './manual-clock.js';
+import type { ManualClock } from './manual-clock.js';
+
+/** AZURE_VENV value the harness configures (the fake source ignores the account and container). */
+export const FAKE_AZURE_VENV_URL = 'https://fakeaccount.blob.core.windows.net/fake-container';
+
+/** SAS token the harness configures. Has no 'se' parameter, so it never expires. */
+export const FAKE_SAS_TOKEN = 'sv=2020-08-04&sig=fake';
+
+/**
+ * Options for createTestHarness().
+ */
+export interface TestHarnessOptions extends Omit<FakeBlobSourceOptions, 'now'> {
+  /** Blob prefix (virtual directory) with trailing '/'. Default: '' (container root). */
+  readonly prefix?: string;
+
+  /**
+   * Directory holding the local .env. Default: a directory that does not exist,
+   * so no local .env is loaded unless a test asks for one.
+   */
+  readonly rootDir?: string;
+
+  /** Initial time of the manual clock in epoch milliseconds. Default: 0. */
+  readonly startTime?: number;
+}
+
+/**
+ * Deterministic test environment for code that consumes azure-venv.
+ */
+export interface TestHarness {
+  /** Fake container read by every call below. */
+  readonly source: FakeBlobSource;
+
+  /** Clock driving watch polling; advance it with clock.tick(ms). */
+  readonly clock: ManualClock;
+
+  /** Run initAzureVenv against the fake source. */
+  initAzureVenv<TEnv>(options: AzureVenvOptions<TEnv> & { envSchema: EnvSchema<TEnv> }): Promise<SyncResult<TEnv>>;
+  initAzureVenv(options?: AzureVenvOptions & { envSchema?: undefined }): Promise<SyncResult<undefined>>;
+  initAzureVenv(options?: AzureVenvOptions): Promise<SyncResult>;
+
+  /** Run watchAzureVenv against the fake source with watch mode enabled on the manual clock. */
+  watchAzureVenv<TEnv>(
+    options: Omit<AzureVenvOptions<TEnv>, 'signal'> & WatchOptions & { envSchema: EnvSchema<TEnv> },
+  ): Promise<WatchResult<TEnv>>;
+  watchAzureVenv(
+    options?: Omit<AzureVenvOptions, 'signal'> & WatchOptions & { envSchema?: undefined },
+  ): Promise<WatchResult<undefined>>;
+  watchAzureVenv(options?: Omit<AzureVenvOptions, 'signal'> & WatchOptions): Promise<WatchResult>;
+
+  /** Run initAssetStore against the fake source. */
+  initAssetStore(
+    options: Omit<InitAssetStoreOptions, 'url' | 'sasToken' | 'source'>,
+  ): Promise<AssetStore>;
+
+  /**
+   * Restore process.env to its state when the harness was created (drops applied remote variables)
+   * and reset the env accessor to read process.env alone.
+   */
+  restoreEnv(): void;
+}
+
+/**
+ * Replace process.env with a saved copy, in place.
+ */
+function restoreProcessEnv(saved: Readonly<NodeJS.ProcessEnv>): void {
+  for (const key of Object.keys(process.env)) {
+    if (!(key in saved)) {
+      delete process.env[key];
+    }
+  }
+  for (const [key, value] of Object.entries(saved)) {
+    process.env[key] = value;
+  }
+}
+
+/**
+ * Create a test harness that drives initAzureVenv, watchAzureVenv and initAssetStore
+ * against an in-memory fake source and a manual clock.
+ *
+ * The harness sets AZURE_VENV and AZURE_VENV_SAS_TOKEN only for the duration of each call,
+ * forces SAS auth and defaults logLevel to 'error'. Variables applied from the fake remote
+ * .env stay in process.env until restoreEnv() is called.
+ *
+ * @example
+ * ```typescript
+ * const harness = createTestHarness({ blobs: { '.env': 'FEATURE=on', 'app.json': '{}' } });
+ * const watch = await harness.watchAzureVenv({ pollInterval: 5000 });
+ *
+ * harness.source.setBlob('app.json', '{"v":2}');
+ * await harness.clock.tick(5000);
+ * expect(watch.getCurrentSnapshot().version).toBe(1);
+ *
+ * watch.stop();
+ * harness.restoreEnv();
+ * ```
+ */
+export function createTestHarness(options?: TestHarnessOptions): TestHarness {
+  const clock = createManualClock(options?.startTime ?? 0);
+  const source = createFakeBlobSource({ blobs: options?.blobs, now: () => clock.now() });
+  const url = `${FAKE_AZURE_VENV_URL}/${options?.prefix ?? ''}`.replace(/\/$/, '');
+  const rootDir = options?.rootDir ?? path.join(os.tmpdir(), 'azure-venv-test-harness-no-local-env');
+  const savedEnv = { ...process.env };
+
+  /** Run a call with the harness AZURE_VENV settings, restoring the previous values afterwards. */
+  const withFakeConfig = async <T>(call: () => Promise<T>): Promise<T> => {
+    const savedVenv = process.env.AZURE_VENV;
+    const savedSas = process.env.AZURE_VENV_SAS_TOKEN;
+
+    try {
+      process.env.AZURE_VENV = url;
+      process.env.AZURE_VENV_SAS_TOKEN = FAKE_SAS_TOKEN;
+      return await call();
+    } finally {
+      if (savedVenv !== undefined) {
+        process.env.AZURE_VENV = savedVenv;
+      } else {
+        delete process.env.AZURE_VENV;
+      }
+      if (savedSas !== undefined) {
+        process.env.AZURE_VENV_SAS_TOKEN = savedSas;
+      } else {
+        delete process.env.AZURE_VENV_SAS_TOKEN;
+      }
+    }
+  };
+
+  function harnessInit<TEnv>(
+    callOptions: AzureVenvOptions<TEnv> & { envSchema: EnvSchema<TEnv> },
+  ): Promise<SyncResult<TEnv>>;
+  function harnessInit(callOptions?: AzureVenvOptions & { envSchema?: undefined }): Promise<SyncResult<undefined>>;
+  function harnessInit(callOptions?: AzureVenvOptions): Promise<SyncResult>;
+  function harnessInit(callOptions?: AzureVenvOptions): Promise<SyncResult> {
+    return withFakeConfig(() =>
+      initAzureVenv({ rootDir, logLevel: 'error', ...callOptions, authMode: 'sas', source }),
+    );
+  }
+
+  function harnessWatch<TEnv>(
+    callOptions: Omit<AzureVenvOptions<TEnv>, 'signal'> & WatchOptions & { envSchema: EnvSchema<TEnv> },
+  ): Promise<WatchResult<TEnv>>;
+  function harnessWatch(
+    callOptions?: Omit<AzureVenvOptions, 'signal'> & WatchOptions & { envSchema?: undefined },
+  ): Promise<WatchResult<undefined>>;
+  function harnessWatch(callOptions?: Omit<AzureVenvOptions, 'signal'> & WatchOptions): Promise<WatchResult>;
+  function harnessWatch(callOptions?: Omit<AzureVenvOptions, 'signal'> & WatchOptions): Promise<WatchResult> {
+    return withFakeConfig(() =>
+      watchAzureVenv({
+        rootDir,
+        logLevel: 'error',
+        watchEnabled: true,
+        ...callOptions,
+        authMode: 'sas',
+        source,
+        clock,
+      }),
+    );
+  }
+
+  return {
+    source,
+    clock,
+    initAzureVenv: harnessInit,
+    watchAzureVenv: harnessWatch,
+
+    initAssetStore: (storeOptions) =>
+      initAssetStore({
+        logLevel: 'error',
+        ...storeOptions,
+        url,
+        sasToken: FAKE_SAS_TOKEN,
+        source,
+      }),
+
+    restoreEnv: () => {
+      restoreProcessEnv(savedEnv);
+      bindEnvDetails(NO_OP_SYNC_RESULT.envDetails);
+    },
+  };
+}
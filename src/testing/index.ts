@@ -0,0 +1,14 @@
+export { createFakeBlobSource } from './fake-source.js';
+export { createManualClock } from './manual-clock.js';
+export { createMemorySecretResolver } from './memory-secrets.js';
+export { createTestHarness, FAKE_AZURE_VENV_URL, FAKE_SAS_TOKEN } from './harness.js';
+export type {
+  FakeBlobSource,
+  FakeBlobSourceOptions,
+  FakeBlobInput,
+  FakeBlobOperation,
+  FakeBlobFailure,
+} from './fake-source.js';
+export type { ManualClock } from './manual-clock.js';
+export type { MemorySecretResolver } from './memory-secrets.js';
+export type { TestHarness, TestHarnessOptions } from './harness.js';
@@ -0,0 +1,78 @@
+import type { WatchClock } from '../types/index.js';
+
+/**
+ * Watch clock whose time only moves when a test advances it.
+ */
+export interface ManualClock extends WatchClock {
+  /**
+   * Advance time by `ms` milliseconds, firing every timer that falls due in order.
+   * Each callback (a watch poll cycle) is awaited before the next one fires.
+   */
+  tick(ms: number): Promise<void>;
+
+  /** Number of active interval timers. */
+  readonly pendingTimers: number;
+}
+
+/** Interval timer registered on a manual clock. */
+interface ManualTimer {
+  readonly callback: () => void | Promise<void>;
+  readonly interval: number;
+  nextAt: number;
+}
+
+/**
+ * Create a clock for driving watch mode deterministically.
+ *
+ * @param startTime - Initial time in epoch milliseconds. Default: 0.
+ *
+ * Contract:
+ *   - now() only changes inside tick()
+ *   - Timers fire in due-time order, ties in registration order
+ *   - Timers cleared by a callback never fire again
+ *   - After tick(ms) resolves, now() equals the previous time plus ms
+ */
+export function createManualClock(startTime = 0): ManualClock {
+  let current = startTime;
+  const timers = new Set<ManualTimer>();
+
+  return {
+    now: () => current,
+
+    setInterval: (callback, ms) => {
+      const timer: ManualTimer = { callback, interval: Math.max(1, ms), nextAt: current + Math.max(1, ms) };
+      timers.add(timer);
+      return timer;
+    },
+
+    clearInterval: (handle) => {
+      timers.delete(handle as ManualTimer);
+    },
+
+    async tick(ms: number): Promise<void> {
+      const target = current + ms;
+
+      for (;;) {
+        let due: ManualTimer | null = null;
+        for (const timer of timers) {
+          if (timer.nextAt <= target && (due === null || timer.nextAt < due.nextAt)) {
+            due = timer;
+          }
+        }
+        if (due === null) {
+          break;
+        }
+
+        current = due.nextAt;
+        due.nextAt += due.interval;
+        await due.callback();
+      }
+
+      current = target;
+    },
+
+    get pendingTimers(): number {
+      return timers.size;
+    },
+  };
+}
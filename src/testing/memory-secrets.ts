@@ -0,0 +1,62 @@
+import type { SecretReference, SecretResolver } from '../env/secrets.js';
+import { throwIfAborted } from '../source/abort.js';
+
+/**
+ * In-memory SecretResolver whose secrets are edited by tests.
+ */
+export interface MemorySecretResolver extends SecretResolver {
+  /** Create or replace the secret `<provider>/<name>`. */
+  setSecret(id: string, value: string): void;
+
+  /**
+   * Delete a secret.
+   *
+   * @returns true if the secret existed.
+   */
+  deleteSecret(id: string): boolean;
+
+  /** Ids (`<provider>/<name>`) passed to resolve, in call order. */
+  readonly calls: readonly string[];
+}
+
+/**
+ * Create an in-memory secret resolver.
+ *
+ * @param secrets - Initial secrets keyed by `<provider>/<name>`, e.g. "keyvault/myvault/db-password"
+ *   for `@keyvault(name=myvault;secret=db-password)`.
+ *
+ * @example
+ * ```typescript
+ * const secretResolver = createMemorySecretResolver({ 'vault/db-password': 's3cret' });
+ * await harness.initAzureVenv({ secretResolver }); // DB_PASSWORD=secretref://vault/db-password
+ * ```
+ *
+ * Contract:
+ *   - Pinned versions are ignored
+ *   - An unknown secret rejects with an Error naming its id
+ */
+export function createMemorySecretResolver(secrets?: Readonly<Record<string, string>>): MemorySecretResolver {
+  const values = new Map(Object.entries(secrets ?? {}));
+  const calls: string[] = [];
+
+  return {
+    calls,
+
+    resolve: async (reference: SecretReference, signal?: AbortSignal): Promise<string> => {
+      const id = `${reference.provider}/${reference.name}`;
+      calls.push(id);
+      throwIfAborted(signal);
+      const value = values.get(id);
+      if (value === undefined) {
+        throw new Error(`secret "${id}" not found`);
+      }
+      return value;
+    },
+
+    setSecret: (id, value) => {
+      values.set(id, value);
+    },
+
+    deleteSecret: (id) => values.delete(id),
+  };
+}
@@ -1,9 +1,15 @@
 // Re-export configuration types
 export type {
   ParsedBlobUrl,
+  BlobUrlStyle,
   LogLevel,
+  AuthMode,
+  AzureVenvAuth,
   AzureVenvConfig,
   AzureVenvOptions,
+  AzureVenvSourceOptions,
+  AdditionalSourceConfig,
+  OfflineCacheConfig,
   RawEnvConfig,
 } from '../config/types.js';
 
@@ -21,6 +27,17 @@ export type { Logger } from '../logging/logger.js';
  */
 export type EnvSource = 'os' | 'remote' | 'local';
 
+/**
+ * Order of the source tiers, highest precedence first.
+ */
+export interface EnvPrecedence {
+  /** Order applied to every key without an override. Default: os, remote, local. */
+  readonly order: readonly EnvSource[];
+
+  /** Order of individual keys, replacing order for them. */
+  readonly overrides: Readonly<Record<string, readonly EnvSource[]>>;
+}
+
 /**
  * Parsed key-value pairs from a .env file.
  */
@@ -44,6 +61,12 @@ export interface EnvLoadResult {
 
   /** Keys from OS environment that were preserved (not overridden). */
   readonly osKeys: readonly string[];
+
+  /** Previously remote keys that were deleted from process.env (no longer in any tier). */
+  readonly removedKeys: readonly string[];
+
+  /** Previously remote keys that fell back to their local .env or OS value. */
+  readonly restoredKeys: readonly string[];
 }
 
 /**
@@ -56,9 +79,18 @@ export interface BlobContent {
   /** Path relative to prefix (e.g., "config/app.json"). Forward-slash normalized. */
   readonly relativePath: string;
 
-  /** Raw blob content. */
+  /**
+   * Raw blob content. In lazy mode (AZURE_VENV_LOAD_MODE=lazy) reading it always throws
+   * ConfigurationError; use load() or loadBlobContent().
+   */
   readonly content: Buffer;
 
+  /**
+   * Download the content on first use (served from the LRU cache afterwards).
+   * Present only on blobs listed in lazy mode.
+   */
+  readonly load?: () => Promise<Buffer>;
+
   /** Content length in bytes. */
   readonly size: number;
 
@@ -68,11 +100,60 @@ export interface BlobContent {
   /** Last modified date (ISO 8601). */
   readonly lastModified: string;
 
+  /** Base64 MD5 hash of the content as reported by the blob listing, if available. */
+  readonly contentMD5?: string;
+
+  /**
+   * Hex SHA-256 of the content, computed when it was downloaded and verified.
+   * Identifies exactly which version was loaded. Absent on blobs listed in lazy mode.
+   */
+  readonly sha256?: string;
+
   /** Source registry where the file is maintained (from blob metadata `source_registry`). */
   readonly sourceRegistry?: string;
 
   /** Exact path of the file inside the source registry (from blob metadata `source_path`). */
   readonly sourcePath?: string;
+
+  /** Name of the additional source the blob was read from. Absent for blobs of the primary AZURE_VENV source. */
+  readonly sourceName?: string;
+}
+
+/**
+ * Why a blob was not read into memory.
+ * - 'max-blob-size': the blob is larger than AZURE_VENV_MAX_BLOB_SIZE
+ * - 'memory-budget': reading it would exceed AZURE_VENV_MEMORY_BUDGET
+ */
+export type SkipReason = 'max-blob-size' | 'memory-budget';
+
+/**
+ * A blob left out of memory by the size limits. Sizes come from the blob listing,
+ * so nothing is downloaded to decide.
+ */
+export interface SkippedBlob {
+  /** Full blob name in Azure Blob Storage. */
+  readonly blobName: string;
+
+  /** Path relative to prefix (e.g., "archives/2024.tar"). */
+  readonly relativePath: string;
+
+  /** Name of the additional source the blob belongs to. Absent for blobs of the primary AZURE_VENV source. */
+  readonly sourceName?: string;
+
+  /** Content length in bytes, from the blob listing. */
+  readonly size: number;
+
+  /** Blob ETag. */
+  readonly etag: string;
+
+  /** Which limit the blob exceeded. */
+  readonly reason: SkipReason;
+
+  /**
+   * Download the blob's current content on demand. Present only when AZURE_VENV_LAZY_OVERSIZED
+   * is enabled. The content is not retained by the library and does not count against the budget.
+   */
+  readonly load?: () => Promise<Buffer>;
 }
 
 /**
@@ -122,31 +203,90 @@ export interface EnvDetails {
 
   /** OS environment keys that were preserved (not overridden by .env files). */
   readonly osKeys: readonly string[];
+
+  /**
+   * Remote .env blob that supplied the value of each remote key (keys of remoteKeys only).
+   * With several AZURE_VENV_ENV_FILES, this is the last file defining the key.
+   * Files of an additional source are qualified as `<source>:<blobName>`.
+   */
+  readonly remoteFiles: Readonly<Record<string, string>>;
+
+  /** Remote keys whose value was resolved from a secret reference (AzureVenvOptions.secretResolver). */
+  readonly secretKeys: readonly string[];
+}
+
+/**
+ * Statistics of one blob source of a sync.
+ */
+export interface SourceSyncResult {
+  /** Source name: empty for the primary AZURE_VENV source, the namespace of an additional source. */
+  readonly name: string;
+
+  /** Account URL, container and prefix of the source (never includes credentials). */
+  readonly url: string;
+
+  /** Blobs found in the source (after include/exclude filtering). */
+  readonly totalBlobs: number;
+
+  /** Blobs downloaded to memory. */
+  readonly downloaded: number;
+
+  /** Unchanged blobs reused from the previous sync. */
+  readonly reused: number;
+
+  /** Blobs skipped by the include/exclude filters. */
+  readonly excluded: number;
+
+  /** Blobs that failed to download. */
+  readonly failed: number;
+
+  /** Whether at least one of the source's remote .env files was loaded. */
+  readonly remoteEnvLoaded: boolean;
+
+  /** Whether the source's blobs and remote .env were served from the offline cache. */
+  readonly servedFromCache: boolean;
 }
 
 /**
  * Result of a complete sync operation. Returned by initAzureVenv().
+ *
+ * @typeParam TEnv - Type of the config object parsed by AzureVenvOptions.envSchema.
  */
-export interface SyncResult {
+export interface SyncResult<TEnv = unknown> {
   /** Whether Azure sync was attempted. False if AZURE_VENV was not configured. */
   readonly attempted: boolean;
 
-  /** Total number of blobs found in Azure Blob Storage. */
+  /** Total number of blobs found in Azure Blob Storage (after include/exclude filtering). */
   readonly totalBlobs: number;
 
   /** Number of blobs successfully downloaded to memory. */
   readonly downloaded: number;
 
+  /** Number of unchanged blobs whose content was reused from the previous sync instead of downloaded. */
+  readonly reused: number;
+
+  /** Number of blobs skipped by the include/exclude filters (not counted in totalBlobs). */
+  readonly excluded: number;
+
   /** Number of blobs that failed to download. */
   readonly failed: number;
 
-  /** Names of blobs that failed to download. */
+  /** Names of blobs that failed to download. Blobs of an additional source are qualified as `<source>:<blobName>`. */
   readonly failedBlobs: readonly string[];
 
+  /** Blobs not read into memory because of the blob size limit or memory budget (counted in totalBlobs). */
+  readonly skippedBlobs: readonly SkippedBlob[];
+
   /** Total sync duration in milliseconds. */
   readonly duration: number;
 
-  /** Whether a remote .env file was found and loaded. */
+  /**
+   * Whether the sync was stopped by AzureVenvOptions.deadlineMs or AzureVenvOptions.signal.
+   * The result is then partial: blobs not read in time are counted in failed/failedBlobs.
+   */
+  readonly timedOut: boolean;
+
+  /** Whether at least one remote .env file (see AZURE_VENV_ENV_FILES) was found and loaded. */
   readonly remoteEnvLoaded: boolean;
 
   /** Map of environment variable names to their source tier. */
@@ -160,6 +300,31 @@ export interface SyncResult {
 
   /** Full environment variable introspection data. */
   readonly envDetails: EnvDetails;
+
+  /**
+   * Whether the blobs and remote .env were served from the offline cache
+   * (last-known-good sync) because Azure was unreachable. With additional sources:
+   * whether any source was served from the cache (see sources).
+   */
+  readonly servedFromCache: boolean;
+
+  /**
+   * Age in milliseconds of the served cache entry at sync time (the oldest, with several sources),
+   * or null when not served from cache.
+   */
+  readonly cacheAge: number | null;
+
+  /**
+   * Per-source statistics: the primary AZURE_VENV source first, then the additional sources.
+   * The top-level counters are their sums.
+   */
+  readonly sources: readonly SourceSyncResult[];
+
+  /**
+   * Config object parsed from the merged environment by AzureVenvOptions.envSchema,
+   * or undefined without a schema.
+   */
+  readonly env: TEnv;
 }
 
 /**
@@ -169,9 +334,13 @@ export const NO_OP_SYNC_RESULT: SyncResult = {
   attempted: false,
   totalBlobs: 0,
   downloaded: 0,
+  reused: 0,
+  excluded: 0,
   failed: 0,
   failedBlobs: [],
+  skippedBlobs: [],
   duration: 0,
+  timedOut: false,
   remoteEnvLoaded: false,
   envSources: {},
   blobs: [],
@@ -182,7 +351,13 @@ export const NO_OP_SYNC_RESULT: SyncResult = {
     localKeys: [],
     remoteKeys: [],
     osKeys: [],
+    remoteFiles: {},
+    secretKeys: [],
   },
+  servedFromCache: false,
+  cacheAge: null,
+  sources: [],
+  env: undefined,
 } as const;
 
 // ---- Watch Mode Types ----
@@ -190,7 +365,7 @@ export const NO_OP_SYNC_RESULT: SyncResult = {
 /**
  * Type of change detected during watch polling.
  */
-export type WatchChangeType = 'added' | 'modified';
+export type WatchChangeType = 'added' | 'modified' | 'deleted';
 
 /**
  * A single change event detected during a watch poll cycle.
@@ -199,19 +374,86 @@ export interface WatchChangeEvent {
   /** Type of change. */
   readonly type: WatchChangeType;
 
-  /** Full blob name in Azure. */
+  /** Full blob name in Azure. Blobs of an additional source are qualified as `<source>:<blobName>`. */
   readonly blobName: string;
 
-  /** Relative path from the blob prefix. */
+  /** Relative path from the blob prefix, under the source namespace for an additional source. */
   readonly relativePath: string;
 
   /** Timestamp when the change was detected. */
   readonly timestamp: Date;
 
-  /** Updated blob content (available after download). */
+  /** Updated blob content (available after download; never set for deletions). */
   readonly blob?: BlobContent;
 }
 
+/**
+ * Callback receiving the changes applied by one watch poll cycle.
+ * Awaited before the next poll cycle starts; errors are logged and ignored.
+ */
+export type WatchChangeListener = (changes: readonly WatchChangeEvent[]) => void | Promise<void>;
+
+/**
+ * Change to a single environment variable after the remote .env was re-applied.
+ */
+export interface EnvVariableChange {
+  /** Variable name. */
+  readonly key: string;
+
+  /** Source tier after the change. Absent for removed keys. */
+  readonly source?: EnvSource;
+
+  /** Source tier before the change. Absent for added keys. */
+  readonly previousSource?: EnvSource;
+
+  /** New value. Only present when includeEnvValues is enabled; absent for removed keys. */
+  readonly value?: string;
+
+  /** Previous value. Only present when includeEnvValues is enabled; absent for added keys. */
+  readonly previousValue?: string;
+}
+
+/**
+ * Per-key diff of the tracked environment, produced when watch mode re-applies the remote .env.
+ */
+export interface EnvChangeEvent {
+  /** Keys that were not tracked before. */
+  readonly added: readonly EnvVariableChange[];
+
+  /** Keys whose value or source tier changed. */
+  readonly changed: readonly EnvVariableChange[];
+
+  /** Keys that are no longer tracked. */
+  readonly removed: readonly EnvVariableChange[];
+
+  /** When the change was applied. */
+  readonly timestamp: Date;
+}
+
+/**
+ * Callback receiving environment variable diffs in watch mode.
+ * Awaited before the next poll cycle starts; errors are logged and ignored.
+ */
+export type EnvChangeListener = (event: EnvChangeEvent) => void | Promise<void>;
+
+/**
+ * Time source and timer used by watch mode. Replaceable for deterministic tests
+ * (see createManualClock).
+ */
+export interface WatchClock {
+  /** Current time in epoch milliseconds. */
+  now(): number;
+
+  /**
+   * Call `callback` every `ms` milliseconds until cleared. The callback may return the
+   * promise of the poll cycle it started; clocks driven by tests can await it.
+   */
+  setInterval(callback: () => void | Promise<void>, ms: number): unknown;
+
+  /** Cancel a timer returned by setInterval. */
+  clearInterval(handle: unknown): void;
+}
+
 /**
  * Options for the watch mode.
  */
@@ -219,16 +461,61 @@ export interface WatchOptions {
   /** Override polling interval in ms. */
   pollInterval?: number;
 
-  /** External AbortSignal for cancellation. */
+  /** External AbortSignal that stops the watcher. It does not cancel the initial sync. */
   signal?: AbortSignal;
+
+  /**
+   * Cancels the initial sync of watchAzureVenv, as AzureVenvOptions.signal does for initAzureVenv.
+   * It does not stop the watcher.
+   */
+  initialSyncSignal?: AbortSignal;
+
+  /** Called with each batch of applied changes (blob content included for added/modified blobs). */
+  onChange?: WatchChangeListener;
+
+  /** Called when re-applying the remote .env added, changed or removed at least one variable. */
+  onEnvChange?: EnvChangeListener;
+
+  /**
+   * Include variable values (not only key names) in EnvChangeEvent.
+   * Values may contain secrets. Default: false.
+   */
+  includeEnvValues?: boolean;
+
+  /** Clock driving the polling interval and change timestamps. Default: the system clock. */
+  clock?: WatchClock;
+}
+
+/**
+ * Point-in-time view of the live state maintained by the watcher.
+ * Has the same shape as SyncResult, plus versioning information.
+ */
+export interface WatchSnapshot<TEnv = unknown> extends SyncResult<TEnv> {
+  /** Monotonic state version. 0 for the initial sync, incremented on every applied change. */
+  readonly version: number;
+
+  /** When the state was last changed (ISO 8601). */
+  readonly lastUpdated: string;
 }
 
 /**
  * Result returned by watchAzureVenv().
  */
-export interface WatchResult {
+export interface WatchResult<TEnv = unknown> {
   /** Result of the initial sync. */
-  readonly initialSync: SyncResult;
+  readonly initialSync: SyncResult<TEnv>;
+
+  /**
+   * Return a view of the current blob and environment state.
+   * Reflects every change applied by the watcher since the initial sync.
+   */
+  readonly getCurrentSnapshot: () => WatchSnapshot<TEnv>;
+
+  /**
+   * Subscribe to change batches as an async iterator. Each call creates an
+   * independent subscription; the iterator completes when watching stops.
+   */
+  readonly events: () => AsyncIterableIterator<readonly WatchChangeEvent[]>;
 
   /** Call to gracefully stop watching. */
   readonly stop: () => void;
@@ -0,0 +1,76 @@
+import type { WatchChangeEvent, WatchChangeListener } from '../types/index.js';
+
+/**
+ * Create an async iterator that yields each batch of watch changes delivered
+ * to the listener it registers through `subscribe`.
+ *
+ * Batches are buffered until consumed, so a slow consumer never misses changes.
+ * The iterator completes (after draining buffered batches) when `closed` aborts,
+ * and unsubscribes when the consumer exits early (break/return/throw).
+ *
+ * @param subscribe - Registers a listener and returns its unsubscribe function.
+ * @param closed - Signal that aborts when the watcher stops.
+ * @returns Async iterator of change batches.
+ */
+export function createChangeStream(
+  subscribe: (listener: WatchChangeListener) => () => void,
+  closed: AbortSignal,
+): AsyncIterableIterator<readonly WatchChangeEvent[]> {
+  const buffered: (readonly WatchChangeEvent[])[] = [];
+  const waiting: ((result: IteratorResult<readonly WatchChangeEvent[]>) => void)[] = [];
+  let done = closed.aborted;
+
+  const finish = (): void => {
+    if (done) {
+      return;
+    }
+    done = true;
+    unsubscribe();
+    closed.removeEventListener('abort', finish);
+    for (const resolve of waiting.splice(0)) {
+      resolve({ value: undefined, done: true });
+    }
+  };
+
+  const unsubscribe = done
+    ? () => {
+        /* never subscribed */
+      }
+    : subscribe((changes) => {
+        const resolve = waiting.shift();
+        if (resolve) {
+          resolve({ value: changes, done: false });
+        } else {
+          buffered.push(changes);
+        }
+      });
+
+  if (!done) {
+    closed.addEventListener('abort', finish);
+  }
+
+  const iterator: AsyncIterableIterator<readonly WatchChangeEvent[]> = {
+    next(): Promise<IteratorResult<readonly WatchChangeEvent[]>> {
+      const changes = buffered.shift();
+      if (changes !== undefined) {
+        return Promise.resolve({ value: changes, done: false });
+      }
+      if (done) {
+        return Promise.resolve({ value: undefined, done: true });
+      }
+      return new Promise((resolve) => {
+        waiting.push(resolve);
+      });
+    },
+    return(): Promise<IteratorResult<readonly WatchChangeEvent[]>> {
+      buffered.length = 0;
+      finish();
+      return Promise.resolve({ value: undefined, done: true });
+    },
+    [Symbol.asyncIterator]() {
+      return iterator;
+    },
+  };
+
+  return iterator;
+}
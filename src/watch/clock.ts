@@ -0,0 +1,20 @@
+import type { WatchClock } from '../types/index.js';
+
+/**
+ * Watch clock backed by Date.now() and the global timers.
+ * Timers are unref'd so polling never keeps the process alive.
+ */
+export const systemClock: WatchClock = {
+  now: () => Date.now(),
+  setInterval: (callback, ms) => {
+    const timer = setInterval(() => {
+      // Do not await here -- the poll cycle runs in background and logs its own errors
+      void callback();
+    }, ms);
+    timer.unref?.();
+    return timer;
+  },
+  clearInterval: (handle) => {
+    clearInterval(handle as NodeJS.Timeout);
+  },
+};
@@ -1 +1,3 @@
 export { watchAzureVenv, BlobWatcher } from './watcher.js';
+export { createChangeStream } from './change-stream.js';
+export { systemClock } from './clock.js';
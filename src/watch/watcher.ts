@@ -1,24 +1,58 @@
 import * as path from 'node:path';
 
 import type { AzureVenvConfig, AzureVenvOptions } from '../config/types.js';
-import { AzureVenvBlobClient } from '../azure/client.js';
+import { authSecret } from '../azure/client.js';
+import type { BlobSource } from '../source/types.js';
+import { createBlobSource } from '../source/factory.js';
 import type {
   SyncResult,
   BlobContent,
+  SkippedBlob,
+  SkipReason,
   WatchChangeEvent,
   WatchOptions,
   WatchResult,
   WatchChangeType,
+  WatchChangeListener,
+  WatchSnapshot,
+  WatchClock,
+  EnvChangeEvent,
+  EnvChangeListener,
   EnvRecord,
   EnvDetails,
 } from '../types/index.js';
 import { buildFileTree } from '../introspection/file-tree.js';
+import { sortBlobs } from '../introspection/manifest-reader.js';
+import { createChangeStream } from './change-stream.js';
+import { systemClock } from './clock.js';
 import { NO_OP_SYNC_RESULT } from '../types/index.js';
 import type { Logger } from '../logging/logger.js';
 import type { BlobInfo } from '../azure/types.js';
-import { SyncEngine } from '../sync/engine.js';
+import { SyncEngine, checkSizeLimits } from '../sync/engine.js';
+import {
+  runInitialSync,
+  failedSyncResult,
+  localEnvDetails,
+  toEnvDetails,
+  expandIfEnabled,
+} from '../sync/initial-sync.js';
+import { createSyncDeadline } from '../sync/deadline.js';
+import { createAdditionalSyncSources, qualifiedBlobName } from '../sync/sources.js';
+import type { SyncSource } from '../sync/sources.js';
+import { createBlobFilter } from '../sync/filter.js';
+import { lazyCacheFor } from '../sync/lazy.js';
+import { runPool } from '../sync/pool.js';
+import type { BlobFilter } from '../sync/filter.js';
 import { parseEnvBuffer } from '../env/loader.js';
+import { resolveSecretReferences } from '../env/secrets.js';
+import type { SecretResolver } from '../env/secrets.js';
+import { parseEnv, withParsedEnv } from '../env/schema.js';
+import { bindEnvDetails } from '../env/accessor.js';
+import type { EnvSchema } from '../env/schema.js';
 import { applyPrecedence } from '../env/precedence.js';
+import { mergeRemoteEnvFiles } from '../env/remote-files.js';
+import type { RemoteEnvFile } from '../env/remote-files.js';
+import { diffEnvDetails, hasEnvChanges } from '../env/diff.js';
 import { validateConfig } from '../config/validator.js';
 import { createLogger } from '../logging/logger.js';
 import { parseEnvFile } from '../env/loader.js';
@@ -27,6 +61,8 @@ import {
   ConfigurationError,
   AuthenticationError,
   AzureConnectionError,
+  SyncAbortedError,
+  EnvValidationError,
 } from '../errors/index.js';
 
 /**
@@ -41,26 +77,70 @@ function stripPrefix(blobName: string, prefix: string): string {
 }
 
 /**
- * Helper to build a failed SyncResult for error recovery paths.
+ * Name of a synced or skipped blob qualified by its source (see qualifiedBlobName).
+ */
+function blobKey(blob: { readonly blobName: string; readonly sourceName?: string }): string {
+  return qualifiedBlobName(blob.sourceName ?? '', blob.blobName);
+}
+
+/**
+ * Replace process.env with a saved copy, in place.
+ */
+function restoreProcessEnv(saved: Readonly<NodeJS.ProcessEnv>): void {
+  for (const key of Object.keys(process.env)) {
+    if (!(key in saved)) {
+      delete process.env[key];
+    }
+  }
+  for (const [key, value] of Object.entries(saved)) {
+    if (process.env[key] !== value) {
+      process.env[key] = value;
+    }
+  }
+}
+
+/**
+ * A source polled by the watcher: AZURE_VENV, or one of the additional sources.
+ */
+interface WatchedSource {
+  readonly config: AzureVenvConfig;
+  readonly client: BlobSource;
+  readonly engine: SyncEngine;
+  readonly filter: BlobFilter;
+}
+
+/**
+ * A listed blob that is new or whose ETag changed since the last poll.
+ */
+interface BlobChange {
+  readonly source: WatchedSource;
+  readonly blob: BlobInfo;
+
+  /** Blob name qualified by its source (see qualifiedBlobName); keys the watcher state. */
+  readonly key: string;
+
+  readonly type: WatchChangeType;
+}
+
+/**
+ * Build the WatchResult for a SyncResult that will never change
+ * (watch mode disabled, not configured, or initial sync failed).
+ * The snapshot stays at version 0 and event iterators complete immediately.
  */
-function failedSyncResult(startTime: number): SyncResult {
+function staticWatchResult<TEnv>(initialSync: SyncResult<TEnv>): WatchResult<TEnv> {
+  bindEnvDetails(initialSync.envDetails);
+  const snapshot: WatchSnapshot<TEnv> = {
+    ...initialSync,
+    version: 0,
+    lastUpdated: new Date().toISOString(),
+  };
+  const closed = AbortSignal.abort();
   return {
-    attempted: true,
-    totalBlobs: 0,
-    downloaded: 0,
-    failed: 0,
-    failedBlobs: [],
-    duration: Date.now() - startTime,
-    remoteEnvLoaded: false,
-    envSources: {},
-    blobs: [],
-    fileTree: [],
-    envDetails: {
-      variables: {},
-      sources: {},
-      localKeys: [],
-      remoteKeys: [],
-      osKeys: [],
+    initialSync,
+    getCurrentSnapshot: () => snapshot,
+    events: () => createChangeStream(() => () => undefined, closed),
+    stop: () => {
+      /* no-op */
     },
   };
 }
@@ -69,41 +149,135 @@ function failedSyncResult(startTime: number): SyncResult {
  * Watches Azure Blob Storage for changes and re-reads blobs into memory on a polling interval.
  *
  * The watcher compares blob ETags against the last known state to detect
- * added or modified blobs, then downloads only the changed ones to memory.
- * If a remote .env file changes, it is re-downloaded, re-parsed,
- * and the three-tier precedence model is re-applied.
+ * added, modified or deleted blobs, then downloads only the changed ones to memory.
+ * If a remote .env file (see AZURE_VENV_ENV_FILES) changes, it is re-downloaded, re-parsed,
+ * and the files are merged again before the three-tier precedence model is re-applied.
+ * If a file is deleted, its variables are dropped: the next file defining a key, or
+ * the local .env, takes effect again.
+ *
+ * Additional sources (AZURE_VENV_<n>) are polled in the same cycle. Their blobs and remote .env
+ * files are tracked under names qualified as `<source>:<blobName>`, and their .env files are
+ * merged with the precedence of the initial sync (AZURE_VENV first, then the sources in order).
+ *
+ * The watcher maintains a live, versioned copy of the blob collection and
+ * environment details, exposed through getCurrentSnapshot().
  */
 export class BlobWatcher {
   private readonly config: AzureVenvConfig;
-  private readonly client: AzureVenvBlobClient;
   private readonly logger: Logger;
   private readonly osEnvSnapshot: ReadonlySet<string>;
   private readonly localEnv: Readonly<EnvRecord>;
-  private intervalId: NodeJS.Timeout | null = null;
+  private readonly clock: WatchClock;
+  private readonly secretResolver: SecretResolver | undefined;
+  private readonly envSchema: EnvSchema<unknown> | undefined;
+  private readonly osEnv: Readonly<Record<string, string | undefined>>;
+  private intervalId: unknown = null;
   private abortController: AbortController;
+  private signalHandler: (() => void) | null = null;
+
+  /** Sources polled by the watcher, AZURE_VENV first. */
+  private readonly sources: readonly WatchedSource[];
 
-  /** Track known blob ETags for change detection. */
+  /** Relative paths of the remote .env files of all sources, keyed by qualified blob name. */
+  private readonly envFilePaths: ReadonlyMap<string, string>;
+
+  /** Track known blob ETags for change detection, keyed by qualified blob name. */
   private knownEtags: Map<string, string> = new Map();
 
+  /** Live in-memory blob collection, keyed by qualified blob name. */
+  private blobs: Map<string, BlobContent> = new Map();
+
+  /** Qualified names of blobs that have never been read successfully. */
+  private failedBlobs: Set<string> = new Set();
+
+  /** Initial sync result; base for fields the watcher does not track (e.g. duration). */
+  private baseSync: SyncResult = NO_OP_SYNC_RESULT;
+
+  /** Current environment variable introspection data. */
+  private envDetails: EnvDetails = NO_OP_SYNC_RESULT.envDetails;
+
+  /** Parsed config object of the last environment that matched the env schema. */
+  private env: unknown = undefined;
+
+  /** Whether a remote .env has been loaded (initially or by a poll). */
+  private remoteEnvLoaded = false;
+
+  /** Parsed contents of the remote .env files currently loaded, keyed by qualified blob name. */
+  private remoteEnvFiles: Map<string, Readonly<EnvRecord>> = new Map();
+
+  /** Whether the state still comes from the offline cache (no poll has reached the source yet). */
+  private servedFromCache = false;
+
+  /** Blobs left out of memory by the size limits, keyed by qualified blob name. */
+  private skippedBlobs: Map<string, SkippedBlob> = new Map();
+
+  /** Number of listed blobs skipped by the include/exclude filters in the latest listing. */
+  private excluded = 0;
+
+  /** State version, incremented whenever a poll applies at least one change. */
+  private version = 0;
+
+  /** When the state last changed. */
+  private lastUpdated: Date = new Date();
+
+  /** Cached snapshot of the current version, rebuilt lazily after changes. */
+  private snapshot: WatchSnapshot | null = null;
+
+  /** Subscribers notified with each batch of applied changes. */
+  private readonly listeners: Set<WatchChangeListener> = new Set();
+
+  /** Subscribers notified with environment variable diffs. */
+  private readonly envListeners: Set<EnvChangeListener> = new Set();
+
+  /** Whether env change events carry variable values. */
+  private includeEnvValues = false;
+
+  /** Whether a poll cycle is currently running. */
+  private polling = false;
+
   /**
    * @param config - Validated Azure VENV configuration.
-   * @param client - Azure Blob client for listing and downloading.
+   * @param client - Blob source for listing and downloading.
    * @param logger - Logger instance.
    * @param osEnvSnapshot - Snapshot of OS environment variable keys taken before .env loading.
    * @param localEnv - Parsed key-value pairs from the local .env file.
+   * @param clock - Clock driving the polling interval and timestamps. Default: system clock.
+   * @param secretResolver - Resolves secret references in remote .env values. Default: none.
+   * @param envSchema - Schema the environment is validated against after each re-apply. Default: none.
+   * @param osEnv - process.env as captured with osEnvSnapshot, for tiers that outrank OS. Default: process.env.
+   * @param additionalSources - Sources of config.additionalSources (see createAdditionalSyncSources),
+   *   in order. Default: none.
    */
   constructor(
     config: AzureVenvConfig,
-    client: AzureVenvBlobClient,
+    client: BlobSource,
     logger: Logger,
     osEnvSnapshot: ReadonlySet<string>,
     localEnv: Readonly<EnvRecord>,
+    clock: WatchClock = systemClock,
+    secretResolver?: SecretResolver,
+    envSchema?: EnvSchema<unknown>,
+    osEnv: Readonly<Record<string, string | undefined>> = process.env,
+    additionalSources: readonly SyncSource[] = [],
   ) {
     this.config = config;
-    this.client = client;
     this.logger = logger;
     this.osEnvSnapshot = osEnvSnapshot;
     this.localEnv = localEnv;
+    this.clock = clock;
+    this.secretResolver = secretResolver;
+    this.envSchema = envSchema;
+    this.osEnv = osEnv;
+    this.sources = [{ config, source: client, logger }, ...additionalSources].map((sync) => ({
+      config: sync.config,
+      client: sync.source,
+      engine: new SyncEngine(sync.source, sync.logger, sync.config.sourceName),
+      filter: createBlobFilter(sync.config.include, sync.config.exclude),
+    }));
+    this.envFilePaths = new Map(this.sources.flatMap((source) => source.config.envFiles.map((blobName) => [
+      qualifiedBlobName(source.config.sourceName, blobName),
+      source.engine.relativePathOf(blobName, source.config.blobUrl.prefix),
+    ])));
     this.abortController = new AbortController();
   }
 
@@ -113,12 +287,115 @@ export class BlobWatcher {
   setInitialEtags(blobs: readonly BlobContent[]): void {
     this.knownEtags.clear();
     for (const blob of blobs) {
-      this.knownEtags.set(blob.blobName, blob.etag);
+      this.knownEtags.set(blobKey(blob), blob.etag);
+    }
+  }
+
+  /**
+   * Seed the live state from the initial sync.
+   *
+   * @param initialSync - Result of the initial sync.
+   * @param remoteEnvFiles - Remote .env files read by the initial sync, with their ETags and
+   *   qualified blob names. A file without an ETag is reported as added by the first poll.
+   */
+  setInitialState(initialSync: SyncResult, remoteEnvFiles: readonly RemoteEnvFile[] = []): void {
+    this.setInitialEtags(initialSync.blobs);
+    for (const skipped of initialSync.skippedBlobs) {
+      this.knownEtags.set(blobKey(skipped), skipped.etag);
+    }
+    this.remoteEnvFiles = new Map();
+    for (const file of remoteEnvFiles) {
+      this.remoteEnvFiles.set(file.blobName, file.env);
+      if (file.etag !== undefined) {
+        this.knownEtags.set(file.blobName, file.etag);
+      }
+    }
+
+    this.blobs = new Map(initialSync.blobs.map((blob) => [blobKey(blob), blob]));
+    this.failedBlobs = new Set(initialSync.failedBlobs);
+    this.skippedBlobs = new Map(initialSync.skippedBlobs.map((skipped) => [blobKey(skipped), skipped]));
+    this.baseSync = initialSync;
+    this.envDetails = initialSync.envDetails;
+    bindEnvDetails(this.envDetails);
+    this.env = initialSync.env;
+    this.remoteEnvLoaded = initialSync.remoteEnvLoaded;
+    this.servedFromCache = initialSync.servedFromCache;
+    this.excluded = initialSync.excluded;
+    this.version = 0;
+    this.lastUpdated = new Date(this.clock.now());
+    this.snapshot = null;
+  }
+
+  /**
+   * Return a SyncResult-shaped view of the current live state.
+   * The same object is returned until the next change is applied.
+   */
+  getCurrentSnapshot(): WatchSnapshot {
+    if (this.snapshot === null) {
+      const blobs = sortBlobs([...this.blobs.values()]);
+      this.snapshot = {
+        ...this.baseSync,
+        totalBlobs: blobs.length + this.failedBlobs.size + this.skippedBlobs.size,
+        downloaded: blobs.length,
+        reused: 0,
+        excluded: this.excluded,
+        failed: this.failedBlobs.size,
+        failedBlobs: [...this.failedBlobs],
+        skippedBlobs: [...this.skippedBlobs.values()],
+        // Blobs a stopped initial sync did not read are picked up by the next applied poll
+        timedOut: this.version === 0 && this.baseSync.timedOut,
+        remoteEnvLoaded: this.remoteEnvLoaded,
+        envSources: this.envDetails.sources,
+        blobs,
+        fileTree: buildFileTree(blobs),
+        envDetails: this.envDetails,
+        env: this.env,
+        servedFromCache: this.servedFromCache,
+        cacheAge: this.servedFromCache ? this.baseSync.cacheAge : null,
+        version: this.version,
+        lastUpdated: this.lastUpdated.toISOString(),
+      };
     }
+    return this.snapshot;
+  }
+
+  /**
+   * Register a listener for batches of applied changes.
+   *
+   * @param listener - Called after each poll cycle that applied at least one change.
+   * @returns Function that removes the listener.
+   */
+  subscribe(listener: WatchChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Register a listener for environment variable diffs.
+   *
+   * @param listener - Called after each poll cycle in which re-applying the
+   *   remote .env added, changed or removed at least one variable.
+   * @returns Function that removes the listener.
+   */
+  subscribeEnv(listener: EnvChangeListener): () => void {
+    this.envListeners.add(listener);
+    return () => {
+      this.envListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Subscribe to batches of applied changes as an async iterator.
+   * The iterator completes when the watcher stops.
+   */
+  events(): AsyncIterableIterator<readonly WatchChangeEvent[]> {
+    return createChangeStream((listener) => this.subscribe(listener), this.abortController.signal);
   }
 
   /**
-   * Start the polling watcher. Runs the first poll immediately, then at each pollInterval.
+   * Start the polling watcher. Runs the first poll after one pollInterval, then at each pollInterval.
    *
    * @param options - Optional watch configuration overrides.
    * @returns WatchResult containing the stop function (initial sync is handled externally).
@@ -126,51 +403,61 @@ export class BlobWatcher {
   start(options?: WatchOptions): { stop: () => void } {
     const pollInterval = options?.pollInterval ?? this.config.pollInterval;
 
-    // Hook external abort signal if provided
+    if (options?.onChange) {
+      this.subscribe(options.onChange);
+    }
+    if (options?.onEnvChange) {
+      this.subscribeEnv(options.onEnvChange);
+    }
+    this.includeEnvValues = options?.includeEnvValues ?? false;
+
+    // Hook external abort signal if provided; it may have been aborted during the initial sync.
+    // The listener goes away once the watcher stops, however it is stopped.
     if (options?.signal) {
       options.signal.addEventListener('abort', () => {
         this.stop();
-      });
+      }, { once: true, signal: this.abortController.signal });
     }
 
-    // Register process signal handlers for graceful shutdown
-    const signalHandler = (): void => {
+    // Register process signal handlers for graceful shutdown; stop() removes them
+    this.signalHandler = (): void => {
       this.stop();
     };
 
-    process.on('SIGINT', signalHandler);
-    process.on('SIGTERM', signalHandler);
+    process.on('SIGINT', this.signalHandler);
+    process.on('SIGTERM', this.signalHandler);
 
     this.logger.info(
       `Watch mode started, polling every ${pollInterval}ms`,
     );
 
-    // Start polling on interval (first poll after one interval, not immediately)
-    this.intervalId = setInterval(() => {
-      // Do not await here -- poll runs in background and logs its own errors
-      void this.poll();
-    }, pollInterval);
-
-    // Ensure the interval does not prevent Node from exiting
-    if (this.intervalId.unref) {
-      this.intervalId.unref();
+    // Start polling on interval (first poll after one interval, not immediately).
+    // The system clock runs polls in background and never keeps Node from exiting.
+    this.intervalId = this.clock.setInterval(() => this.poll(), pollInterval);
+    if (options?.signal?.aborted) {
+      this.stop();
     }
 
     return {
       stop: (): void => {
-        process.removeListener('SIGINT', signalHandler);
-        process.removeListener('SIGTERM', signalHandler);
         this.stop();
       },
     };
   }
 
   /**
-   * Stop the watcher, clear the polling interval, and abort any in-progress operations.
+   * Stop the watcher, clear the polling interval, remove the process signal handlers
+   * and abort any in-progress operations.
    */
   private stop(): void {
+    if (this.signalHandler !== null) {
+      process.removeListener('SIGINT', this.signalHandler);
+      process.removeListener('SIGTERM', this.signalHandler);
+      this.signalHandler = null;
+    }
+
     if (this.intervalId !== null) {
-      clearInterval(this.intervalId);
+      this.clock.clearInterval(this.intervalId);
       this.intervalId = null;
     }
 
@@ -178,91 +465,252 @@ export class BlobWatcher {
     this.logger.info('Watch mode stopped');
   }
 
+  /**
+   * Merge the loaded remote .env files in configured order, resolve their secret references,
+   * re-apply the three-tier precedence, expand variable references (AZURE_VENV_EXPAND), validate the
+   * merged variables against the env schema and update the tracked environment details. Keys that
+   * disappeared from every remote .env (or whose secret cannot be resolved) are removed from
+   * process.env or fall back to their local value.
+   *
+   * When the merged variables fail the env schema, process.env is put back as it was and the
+   * previous environment details and config are kept.
+   *
+   * @returns Per-key diff between the previous and the new environment details, or null when
+   *   the merged variables failed the env schema.
+   */
+  private async applyRemoteEnv(): Promise<EnvChangeEvent | null> {
+    const previous = this.envDetails;
+    // mergeRemoteEnvFiles lets later files win: feed the lowest-precedence source first
+    const remoteEnv = mergeRemoteEnvFiles(
+      [...this.sources].reverse().flatMap((source) => source.config.envFiles.flatMap((blobName) => {
+        const key = qualifiedBlobName(source.config.sourceName, blobName);
+        const env = this.remoteEnvFiles.get(key);
+        return env !== undefined ? [{ blobName: key, env }] : [];
+      })),
+    );
+
+    const remoteSecrets = await resolveSecretReferences(remoteEnv.env, this.secretResolver, this.logger, {
+      failOnError: false,
+      signal: this.abortController.signal,
+    });
+
+    const savedEnv = { ...process.env };
+    const envResult = applyPrecedence(
+      this.osEnvSnapshot,
+      this.localEnv,
+      remoteSecrets.env,
+      this.logger,
+      previous.remoteKeys,
+      { precedence: this.config.precedence, osEnv: this.osEnv },
+    );
+    // A cycle introduced by a poll never throws: the watcher logs it and keeps polling
+    const expanded = expandIfEnabled({ ...this.config, failOnError: false }, envResult, remoteSecrets.secretKeys, this.logger);
+
+    if (this.envSchema !== undefined) {
+      try {
+        this.env = parseEnv(this.envSchema, expanded.variables);
+      } catch (error: unknown) {
+        if (!(error instanceof EnvValidationError)) {
+          throw error;
+        }
+        restoreProcessEnv(savedEnv);
+        this.logger.error(`Watch poll: ${error.message}; keeping the previous config`);
+        return null;
+      }
+    }
+
+    this.envDetails = toEnvDetails(expanded, remoteEnv.origins, remoteSecrets.secretKeys);
+    bindEnvDetails(this.envDetails);
+    this.remoteEnvLoaded = this.remoteEnvFiles.size > 0;
+
+    return diffEnvDetails(previous, this.envDetails, this.includeEnvValues, new Date(this.clock.now()));
+  }
+
+  /**
+   * Bump the state version and invalidate the cached snapshot.
+   */
+  private markChanged(): void {
+    this.version++;
+    this.lastUpdated = new Date(this.clock.now());
+    this.snapshot = null;
+  }
+
   /**
    * Execute a single poll cycle:
-   * 1. List all blobs with prefix
-   * 2. Compare ETags to find added/modified blobs
-   * 3. Download changed blobs to memory
-   * 4. If remote .env changed, re-download and re-apply precedence
-   * 5. Update known ETags
-   * 6. Log summary of changes
+   * 1. List all blobs with prefix, source by source
+   * 2. Compare ETags to find added/modified blobs, and known names to find deleted blobs
+   * 3. Download changed blobs into the live blob collection, drop deleted ones
+   * 4. If a remote .env file changed or was deleted, re-merge the files and re-apply precedence
+   * 5. Update known ETags and the state version
+   * 6. Deliver the environment diff and the applied changes to subscribers
+   * 7. Log summary of changes
+   *
+   * Poll cycles never overlap: a tick that fires while the previous cycle
+   * (including subscriber callbacks) is still running is skipped.
    */
   private async poll(): Promise<void> {
     if (this.abortController.signal.aborted) {
       return;
     }
 
+    if (this.polling) {
+      this.logger.debug('Watch poll skipped: previous poll cycle still in progress');
+      return;
+    }
+
+    this.polling = true;
     this.logger.debug('Watch poll cycle starting');
+    // Stopping the watcher aborts the listings and downloads of the running poll
+    const { signal } = this.abortController;
 
     try {
-      const prefix = this.config.blobUrl.prefix;
-
-      // Step 1: List all blobs
-      const allBlobs = await this.client.listBlobs(prefix);
+      // Step 1: List all blobs of each source, and the remote .env files outside its prefix
+      const listings: { source: WatchedSource; blobs: BlobInfo[] }[] = [];
+      let excluded = 0;
+      for (const source of this.sources) {
+        const { prefix } = source.config.blobUrl;
+        const listedBlobs = await source.client.listBlobs(prefix, signal);
+        const envBlobs = await source.engine.listEnvFiles(source.config.envFiles, prefix, listedBlobs, signal);
+
+        // Blobs rejected by the include/exclude globs are not tracked at all
+        const envFileNames = new Set(source.config.envFiles);
+        const fileListing = listedBlobs.filter((blob) => !envFileNames.has(blob.name));
+        const fileBlobs = fileListing.filter((blob) => source.filter(stripPrefix(blob.name, prefix)));
+        excluded += fileListing.length - fileBlobs.length;
+        listings.push({ source, blobs: [...fileBlobs, ...envBlobs] });
+      }
 
       if (this.abortController.signal.aborted) {
         return;
       }
 
-      // Step 2: Compare ETags - find added/modified blobs
-      const envBlobName = prefix ? `${prefix}.env` : '.env';
-      const changes: WatchChangeEvent[] = [];
-      const changedFileBlobs: BlobInfo[] = [];
-      let envChanged = false;
+      if (excluded !== this.excluded) {
+        this.excluded = excluded;
+        this.snapshot = null;
+      }
 
-      for (const blob of allBlobs) {
-        const knownEtag = this.knownEtags.get(blob.name);
-        let changeType: WatchChangeType | null = null;
+      // The source is reachable again: from now on the state tracks it, not the offline cache
+      if (this.servedFromCache) {
+        this.servedFromCache = false;
+        this.snapshot = null;
+        this.logger.info('Blob source reachable again, replacing offline cache state with live changes');
+      }
 
-        if (knownEtag === undefined) {
-          changeType = 'added';
-        } else if (knownEtag !== blob.etag) {
-          changeType = 'modified';
-        }
+      // Step 2: Compare ETags - find added/modified/deleted blobs
+      const changedFileBlobs: BlobChange[] = [];
+      const deletedFileBlobs: string[] = [];
+      const envChanges: BlobChange[] = [];
+      const deletedEnvFiles: string[] = [];
+      const listedNames = new Set<string>();
+
+      for (const { source, blobs } of listings) {
+        for (const blob of blobs) {
+          const key = qualifiedBlobName(source.config.sourceName, blob.name);
+          listedNames.add(key);
+          const knownEtag = this.knownEtags.get(key);
+          let changeType: WatchChangeType | null = null;
+
+          if (knownEtag === undefined) {
+            changeType = 'added';
+          } else if (knownEtag !== blob.etag) {
+            changeType = 'modified';
+          }
 
-        if (changeType !== null) {
-          if (blob.name === envBlobName) {
-            envChanged = true;
-          } else {
-            changedFileBlobs.push(blob);
+          if (changeType !== null) {
+            if (this.envFilePaths.has(key)) {
+              envChanges.push({ source, blob, key, type: changeType });
+            } else {
+              changedFileBlobs.push({ source, blob, key, type: changeType });
+            }
           }
+        }
+      }
 
-          const relativePath = stripPrefix(blob.name, prefix);
+      // Known (or previously failed) blobs missing from the listing were deleted
+      const previousNames = new Set([...this.knownEtags.keys(), ...this.failedBlobs, ...this.remoteEnvFiles.keys()]);
 
-          changes.push({
-            type: changeType,
-            blobName: blob.name,
-            relativePath,
-            timestamp: new Date(),
-          });
+      for (const key of previousNames) {
+        if (listedNames.has(key)) {
+          continue;
+        }
+
+        if (this.envFilePaths.has(key)) {
+          deletedEnvFiles.push(key);
+        } else {
+          deletedFileBlobs.push(key);
         }
       }
 
-      if (changes.length === 0) {
+      const detectedCount =
+        changedFileBlobs.length + deletedFileBlobs.length + envChanges.length + deletedEnvFiles.length;
+
+      if (detectedCount === 0) {
         this.logger.debug('Watch poll: no changes detected');
         return;
       }
 
-      this.logger.info(`Watch poll: detected ${changes.length} change(s)`);
+      this.logger.info(`Watch poll: detected ${detectedCount} change(s)`);
 
       if (this.abortController.signal.aborted) {
         return;
       }
 
-      // Step 3: Download changed file blobs to memory
+      const applied: WatchChangeEvent[] = [];
+      let envDiff: EnvChangeEvent | null = null;
+
+      // Step 3: Download changed file blobs into the live collection
       if (changedFileBlobs.length > 0) {
+        // Over the size limits: drop any held content instead of downloading.
+        // Blobs admitted earlier in this poll count at their new listed size.
+        const toRead: BlobChange[] = [];
+        const admitted = new Map<string, number>();
+        for (const change of changedFileBlobs) {
+          const { blob, key } = change;
+          const reason = checkSizeLimits(blob.contentLength, this.heldBytes(key, admitted), this.config);
+          if (reason !== null) {
+            this.skipBlob(change, reason, applied);
+            continue;
+          }
+          admitted.set(key, blob.contentLength);
+          toRead.push(change);
+        }
+
+        // Lazy mode only swaps in a new accessor; the content is fetched on first use.
+        // One lazy cache serves all sources, as in the initial sync.
+        const results = await runPool(toRead, this.config.concurrency, async ({ source, blob }) =>
+          this.config.loadMode === 'lazy'
+            ? source.engine.toLazyBlobContent(blob, source.config.blobUrl.prefix, lazyCacheFor(this.config))
+            : source.engine.downloadBlobToMemory(blob, source.config.blobUrl.prefix, signal),
+        );
+        if (signal.aborted) {
+          return;
+        }
+
         let readCount = 0;
-        for (const blob of changedFileBlobs) {
-          try {
-            await this.client.downloadToBuffer(blob.name);
-            // Update known ETag
-            this.knownEtags.set(blob.name, blob.etag);
-            readCount++;
-          } catch (error: unknown) {
+        for (let i = 0; i < results.length; i++) {
+          const { key, blob, type } = toRead[i];
+          const result = results[i];
+
+          if (result.status === 'rejected') {
+            // Keep serving the previous content (if any); the blob is retried next poll
+            if (!this.blobs.has(key)) {
+              this.failedBlobs.add(key);
+            }
             this.logger.error(
-              `Watch poll: failed to read blob "${blob.name}": ${error instanceof Error ? error.message : String(error)}`,
+              `Watch poll: failed to read blob "${key}": ${result.reason instanceof Error ? result.reason.message : String(result.reason)}`,
             );
+            continue;
           }
+
+          const content = result.value;
+          // A previously skipped blob was never delivered (or was reported deleted), so it is new to subscribers
+          const wasSkipped = this.skippedBlobs.delete(key) && !this.blobs.has(key);
+          this.blobs.set(key, content);
+          this.failedBlobs.delete(key);
+          // Update known ETag
+          this.knownEtags.set(key, blob.etag);
+          applied.push(this.changeEvent(wasSkipped ? 'added' : type, key, content.relativePath, content));
+          readCount++;
         }
 
         this.logger.info(
@@ -270,42 +718,202 @@ export class BlobWatcher {
         );
       }
 
-      // Step 4: If remote .env changed, re-download and re-apply precedence
-      if (envChanged) {
-        this.logger.info('Watch poll: remote .env changed, re-applying environment variables');
+      // Step 3b: Drop deleted blobs from the live collection
+      for (const key of deletedFileBlobs) {
+        this.knownEtags.delete(key);
+        this.skippedBlobs.delete(key);
+        this.failedBlobs.delete(key);
+        // A blob that was only ever skipped or failed to read was never delivered, so no event is due
+        const held = this.blobs.get(key);
+        if (held === undefined) {
+          this.snapshot = null;
+          continue;
+        }
+        this.blobs.delete(key);
+        applied.push(this.changeEvent('deleted', key, held.relativePath));
+      }
+
+      if (deletedFileBlobs.length > 0) {
+        this.logger.info(
+          `Watch poll: removed ${deletedFileBlobs.length} deleted blob(s) from memory`,
+        );
+      }
+
+      // Step 4: Re-download changed remote .env files; a failed one keeps its previous content
+      const envEventCount = applied.length;
+      const previousEnvFiles = new Map(this.remoteEnvFiles);
+      const previousEnvEtags = new Map(
+        [...envChanges.map((change) => change.key), ...deletedEnvFiles].map((key) => [key, this.knownEtags.get(key)]),
+      );
+      for (const { source, blob, key, type } of envChanges) {
+        this.logger.info(`Watch poll: remote .env "${key}" changed, re-applying environment variables`);
 
         try {
-          const envBuffer = await this.client.downloadToBuffer(envBlobName);
-          const remoteEnv = parseEnvBuffer(envBuffer);
+          const envContent = await source.engine.downloadBlobToMemory(blob, source.config.blobUrl.prefix, signal);
+          const remoteEnv = parseEnvBuffer(envContent.content);
 
           this.logger.info(
-            `Watch poll: parsed ${Object.keys(remoteEnv).length} variable(s) from remote .env`,
+            `Watch poll: parsed ${Object.keys(remoteEnv).length} variable(s) from remote .env "${key}"`,
           );
 
-          applyPrecedence(this.osEnvSnapshot, this.localEnv, remoteEnv, this.logger);
-
-          // Update known ETag for .env
-          const envBlob = allBlobs.find((b) => b.name === envBlobName);
-          if (envBlob) {
-            this.knownEtags.set(envBlobName, envBlob.etag);
-          }
+          this.remoteEnvFiles.set(key, remoteEnv);
+          // Update known ETag for the .env file
+          this.knownEtags.set(key, blob.etag);
+          applied.push(this.changeEvent(type, key, envContent.relativePath, envContent));
         } catch (error: unknown) {
           this.logger.error(
-            `Watch poll: failed to re-apply remote .env: ${error instanceof Error ? error.message : String(error)}`,
+            `Watch poll: failed to re-apply remote .env "${key}": ${error instanceof Error ? error.message : String(error)}`,
           );
         }
       }
 
-      // Step 6: Log summary
-      const addedCount = changes.filter((c) => c.type === 'added').length;
-      const modifiedCount = changes.filter((c) => c.type === 'modified').length;
+      if (signal.aborted) {
+        return;
+      }
+
+      // Step 4b: Drop the variables of deleted remote .env files
+      for (const key of deletedEnvFiles) {
+        this.logger.info(`Watch poll: remote .env "${key}" deleted, removing its environment variables`);
+
+        this.remoteEnvFiles.delete(key);
+        this.knownEtags.delete(key);
+        applied.push(this.changeEvent('deleted', key, this.envFilePaths.get(key) ?? key));
+      }
+
+      // Step 4c: Re-merge the remote .env files and re-apply precedence
+      if (applied.length > envEventCount) {
+        envDiff = await this.applyRemoteEnv();
+
+        // Rejected by the env schema: forget the .env changes, so that they are neither
+        // reported nor treated as known, and the next poll tries them again
+        if (envDiff === null) {
+          this.remoteEnvFiles = previousEnvFiles;
+          for (const [key, etag] of previousEnvEtags) {
+            if (etag === undefined) {
+              this.knownEtags.delete(key);
+            } else {
+              this.knownEtags.set(key, etag);
+            }
+          }
+          applied.splice(envEventCount);
+        }
+      }
+
+      // Step 5: Publish a new state version if anything was applied
+      if (applied.length > 0) {
+        this.markChanged();
+
+        // Step 6: Notify subscribers (environment diff first, then the change batch)
+        if (envDiff !== null && hasEnvChanges(envDiff)) {
+          this.logger.info(
+            `Watch poll: environment changed (${envDiff.added.length} added, ${envDiff.changed.length} changed, ${envDiff.removed.length} removed)`,
+          );
+          await this.notify(this.envListeners, envDiff);
+        }
+        await this.notify(this.listeners, applied);
+      }
+
+      // Step 7: Log summary
+      const addedCount = applied.filter((c) => c.type === 'added').length;
+      const modifiedCount = applied.filter((c) => c.type === 'modified').length;
+      const deletedCount = applied.filter((c) => c.type === 'deleted').length;
       this.logger.info(
-        `Watch poll complete: ${addedCount} added, ${modifiedCount} modified`,
+        `Watch poll complete: ${addedCount} added, ${modifiedCount} modified, ${deletedCount} deleted (state version ${this.version})`,
       );
     } catch (error: unknown) {
+      if (signal.aborted) {
+        this.logger.debug('Watch poll abandoned: watcher stopped');
+        return;
+      }
       this.logger.error(
         `Watch poll failed: ${error instanceof Error ? error.message : String(error)}`,
       );
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Bytes of blob content held in memory by all sources, not counting one blob about to be replaced.
+   *
+   * @param exceptKey - Qualified name of the blob about to be replaced.
+   * @param admitted - Blobs already admitted for download this poll, counted at their new size.
+   */
+  private heldBytes(exceptKey: string, admitted: ReadonlyMap<string, number>): number {
+    let total = 0;
+    for (const [key, blob] of this.blobs) {
+      if (key !== exceptKey && !admitted.has(key)) {
+        total += blob.size;
+      }
+    }
+    for (const [key, size] of admitted) {
+      if (key !== exceptKey) {
+        total += size;
+      }
+    }
+    return total;
+  }
+
+  /**
+   * Record a changed blob as skipped by the size limits. Content held for it is
+   * dropped and reported as deleted, since it no longer matches the source.
+   */
+  private skipBlob({ source, blob, key }: BlobChange, reason: SkipReason, applied: WatchChangeEvent[]): void {
+    this.logger.warn(
+      `Watch poll: skipping blob "${key}" (${blob.contentLength} bytes, ${reason})`,
+    );
+    this.skippedBlobs.set(
+      key,
+      source.engine.toSkippedBlob(blob, source.config.blobUrl.prefix, reason, this.config.lazyOversized),
+    );
+    this.knownEtags.set(key, blob.etag);
+    this.failedBlobs.delete(key);
+    this.snapshot = null;
+
+    const held = this.blobs.get(key);
+    if (held !== undefined) {
+      this.blobs.delete(key);
+      applied.push(this.changeEvent('deleted', key, held.relativePath));
+    }
+  }
+
+  /**
+   * Build a change event.
+   *
+   * @param blobName - Qualified blob name (see qualifiedBlobName).
+   * @param relativePath - Path of the blob in the synced collection.
+   */
+  private changeEvent(
+    type: WatchChangeType,
+    blobName: string,
+    relativePath: string,
+    blob?: BlobContent,
+  ): WatchChangeEvent {
+    return {
+      type,
+      blobName,
+      relativePath,
+      timestamp: new Date(this.clock.now()),
+      ...(blob ? { blob } : {}),
+    };
+  }
+
+  /**
+   * Deliver an event to every listener of a set, in subscription order.
+   * Listener errors are logged and never interrupt the watcher.
+   */
+  private async notify<T>(
+    listeners: ReadonlySet<(event: T) => void | Promise<void>>,
+    event: T,
+  ): Promise<void> {
+    for (const listener of [...listeners]) {
+      try {
+        await listener(event);
+      } catch (error: unknown) {
+        this.logger.error(
+          `Watch change listener failed: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
     }
   }
 }
@@ -317,20 +925,34 @@ export class BlobWatcher {
  * (load local .env, validate config, create client, initial sync to memory),
  * and then optionally starts a BlobWatcher for continuous polling.
  *
- * @param options - Optional configuration and watch overrides.
- * @returns Promise resolving to WatchResult with initial sync stats and a stop function.
+ * @param options - Optional configuration and watch overrides. options.signal stops the watcher;
+ *   options.initialSyncSignal and options.deadlineMs bound the initial sync.
+ * @returns Promise resolving to WatchResult with initial sync stats, live state and change
+ *   subscription accessors, and a stop function.
  *
  * @throws ConfigurationError if required config is partially present or invalid.
- * @throws AuthenticationError if SAS token is expired or authentication fails (when failOnError: true).
+ * @throws AuthenticationError if the SAS token is expired, Azure answers 401/403 or the Azure AD
+ *   credential cannot get a token (always).
  * @throws AzureConnectionError if Azure is unreachable (when failOnError: true).
+ * @throws EnvValidationError if the environment after the initial sync does not match options.envSchema (always).
  */
+export async function watchAzureVenv<TEnv>(
+  options: Omit<AzureVenvOptions<TEnv>, 'signal'> & WatchOptions & { envSchema: EnvSchema<TEnv> },
+): Promise<WatchResult<TEnv>>;
 export async function watchAzureVenv(
-  options?: AzureVenvOptions & WatchOptions,
+  options?: Omit<AzureVenvOptions, 'signal'> & WatchOptions & { envSchema?: undefined },
+): Promise<WatchResult<undefined>>;
+export async function watchAzureVenv(options?: Omit<AzureVenvOptions, 'signal'> & WatchOptions): Promise<WatchResult>;
+export async function watchAzureVenv(
+  options?: Omit<AzureVenvOptions, 'signal'> & WatchOptions,
 ): Promise<WatchResult> {
+  const envSchema = options?.envSchema;
+
   const startTime = Date.now();
 
   // STEP 0: Capture OS environment snapshot BEFORE any .env loading
-  const osEnvSnapshot = new Set(Object.keys(process.env));
+  const osEnv = { ...process.env };
+  const osEnvSnapshot = new Set(Object.keys(osEnv));
 
   // Create a bootstrap logger (before config is validated, no SAS to sanitize yet)
   const bootstrapLogger = createLogger(options?.logLevel ?? 'info', '');
@@ -359,92 +981,54 @@ export async function watchAzureVenv(
 
   if (config === null) {
     bootstrapLogger.info('AZURE_VENV not configured, skipping Azure sync and watch');
-    return {
-      initialSync: NO_OP_SYNC_RESULT,
-      stop: () => {
-        /* no-op */
-      },
-    };
+    const envDetails = localEnvDetails(osEnv, localEnv);
+    return staticWatchResult(withParsedEnv({ ...NO_OP_SYNC_RESULT, envSources: envDetails.sources, envDetails }, envSchema));
   }
 
-  // Now we have a validated config with SAS token - create the real logger
-  const logger = createLogger(config.logLevel, config.sasToken);
+  // Now we have a validated config with credentials - create the real logger
+  const logger = createLogger(config.logLevel, authSecret(config.auth));
 
   logger.info('Azure VENV configured, starting initial sync');
   logger.debug(`Blob URL: ${config.blobUrl.accountUrl}/${config.blobUrl.containerName}`);
   logger.debug(`Prefix: "${config.blobUrl.prefix}"`);
   logger.debug(`Concurrency: ${config.concurrency}`);
+  for (const additional of config.additionalSources) {
+    logger.debug(`Source "${additional.name}": ${additional.blobUrl.accountUrl}/${additional.blobUrl.containerName}`);
+  }
 
-  try {
-    // STEP 5: Create Azure Blob client
-    const blobClient = new AzureVenvBlobClient(
-      {
-        accountUrl: config.blobUrl.accountUrl,
-        containerName: config.blobUrl.containerName,
-        sasToken: config.sasToken,
-        maxRetries: 3,
-        timeout: config.timeout,
-      },
-      logger,
-    );
-
-    // Create sync engine (in-memory)
-    const syncEngine = new SyncEngine(blobClient, logger);
-
-    // STEP 6 & 7: Fetch and load remote .env (if exists)
-    let remoteEnvLoaded = false;
-    let remoteEnv: EnvRecord = {};
-
-    const remoteEnvBuffer = await syncEngine.fetchRemoteEnv(config.blobUrl.prefix);
-
-    if (remoteEnvBuffer !== null) {
-      remoteEnv = parseEnvBuffer(remoteEnvBuffer);
-      logger.info(`Parsed ${Object.keys(remoteEnv).length} variable(s) from remote .env`);
-      remoteEnvLoaded = true;
-    }
-
-    // Apply three-tier precedence: OS > remote .env > local .env
-    const envResult = applyPrecedence(osEnvSnapshot, localEnv, remoteEnv, logger);
-
-    // STEP 8: Read all blobs into memory
-    const readResult = await syncEngine.readBlobs(config);
-
-    // Build introspection data
-    const fileTree = buildFileTree(readResult.blobs);
+  // The deadline and initialSyncSignal only bound the initial sync; options.signal stops the watcher
+  const deadline = createSyncDeadline(
+    { deadlineMs: options?.deadlineMs, signal: options?.initialSyncSignal },
+    startTime,
+  );
 
-    const envDetails: EnvDetails = {
-      variables: envResult.variables,
-      sources: envResult.sources,
-      localKeys: [...envResult.localKeys],
-      remoteKeys: [...envResult.remoteKeys],
-      osKeys: [...envResult.osKeys],
-    };
+  try {
+    // STEP 5: Create the blob source (Azure, local directory or injected)
+    const blobClient = createBlobSource(config, logger, options?.source);
+    const additionalSources = createAdditionalSyncSources(config, options?.sources);
 
-    // Build the initial SyncResult
-    const duration = Date.now() - startTime;
-    const initialSync: SyncResult = {
-      attempted: true,
-      totalBlobs: readResult.totalBlobs,
-      downloaded: readResult.blobs.length,
-      failed: readResult.failed,
-      failedBlobs: readResult.failedBlobs,
-      duration,
-      remoteEnvLoaded,
-      envSources: envResult.sources,
-      blobs: readResult.blobs,
-      fileTree,
-      envDetails,
-    };
+    // STEP 6-10: Fetch remote .env, apply precedence, read blobs (offline cache fallback)
+    const { result, remoteEnvFiles } = await runInitialSync({
+      config,
+      logger,
+      source: blobClient,
+      osEnvSnapshot,
+      osEnv,
+      localEnv,
+      startTime,
+      previousBlobs: options?.previous?.blobs,
+      signal: deadline.signal,
+      additionalSources,
+      secretResolver: options?.secretResolver,
+    });
+    const initialSync = withParsedEnv(result, envSchema);
 
     logger.info(
-      `Initial sync complete: ${initialSync.downloaded} read, ${initialSync.failed} failed in ${initialSync.duration}ms`,
+      `Initial sync ${initialSync.timedOut ? 'stopped early' : 'complete'}: ` +
+      `${initialSync.downloaded} downloaded, ${initialSync.reused} reused, ${initialSync.failed} failed in ${initialSync.duration}ms`,
     );
 
     // STEP 9: Start watch mode if enabled
-    let stopFn: () => void = () => {
-      /* no-op */
-    };
-
     if (config.watchEnabled || options?.pollInterval !== undefined) {
       const watcher = new BlobWatcher(
         config,
@@ -452,24 +1036,35 @@ export async function watchAzureVenv(
         logger,
         osEnvSnapshot,
         localEnv,
+        options?.clock,
+        options?.secretResolver,
+        envSchema,
+        osEnv,
+        additionalSources,
       );
 
-      // Seed the watcher with known ETags from initial sync
-      watcher.setInitialEtags(readResult.blobs);
+      // Seed the watcher with the initial blobs, ETags and env state
+      watcher.setInitialState(initialSync, remoteEnvFiles);
 
       const watchHandle = watcher.start(options);
-      stopFn = watchHandle.stop;
-    } else {
-      logger.debug('Watch mode not enabled');
+
+      return {
+        initialSync,
+        getCurrentSnapshot: () => watcher.getCurrentSnapshot(),
+        events: () => watcher.events(),
+        stop: watchHandle.stop,
+      };
     }
 
-    return {
-      initialSync,
-      stop: stopFn,
-    };
+    logger.debug('Watch mode not enabled');
+    return staticWatchResult(initialSync);
   } catch (error: unknown) {
-    // Configuration and authentication errors always propagate
-    if (error instanceof ConfigurationError || error instanceof AuthenticationError) {
+    // Configuration, authentication and env validation errors always propagate
+    if (
+      error instanceof ConfigurationError ||
+      error instanceof AuthenticationError ||
+      error instanceof EnvValidationError
+    ) {
       throw error;
     }
 
@@ -481,12 +1076,8 @@ export async function watchAzureVenv(
 
       logger.warn(`Azure sync failed (failOnError=false): ${error.message}`);
 
-      return {
-        initialSync: failedSyncResult(startTime),
-        stop: () => {
-          /* no-op */
-        },
-      };
+      const timedOut = error instanceof SyncAbortedError;
+      return staticWatchResult(withParsedEnv(failedSyncResult(startTime, timedOut, localEnvDetails(osEnv, localEnv)), envSchema));
     }
 
     // Unknown errors - wrap and handle based on failOnError
@@ -500,11 +1091,8 @@ export async function watchAzureVenv(
       `Azure sync failed with unexpected error (failOnError=false): ${error instanceof Error ? error.message : String(error)}`,
     );
 
-    return {
-      initialSync: failedSyncResult(startTime),
-      stop: () => {
-        /* no-op */
-      },
-    };
+    return staticWatchResult(withParsedEnv(failedSyncResult(startTime, false, localEnvDetails(osEnv, localEnv)), envSchema));
+  } finally {
+    deadline.dispose();
   }
 }
@@ -21,12 +21,20 @@ function makeSyncResult(blobs: BlobContent[] = []): SyncResult {
     downloaded: blobs.length,
     failed: 0,
     failedBlobs: [],
+    skippedBlobs: [],
     duration: 100,
     remoteEnvLoaded: false,
     envSources: {},
     blobs,
     fileTree: [],
-    envDetails: { variables: {}, sources: {}, localKeys: [], remoteKeys: [], osKeys: [] },
+    envDetails: { variables: {}, sources: {}, localKeys: [], remoteKeys: [], osKeys: [], remoteFiles: {}, secretKeys: [] },
+    servedFromCache: false,
+    cacheAge: null,
+    sources: [],
+    env: undefined,
+    reused: 0,
+    excluded: 0,
+    timedOut: false,
   };
 }
 
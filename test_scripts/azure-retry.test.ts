@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { RestError } from '@azure/storage-blob';
+import { isRetryableError, retryBackoff, MAX_RETRY_DELAY_MS } from '../src/azure/retry.js';
+import { AzureVenvBlobClient } from '../src/azure/client.js';
+import type { Logger } from '../src/logging/logger.js';
+import { AuthenticationError, AzureConnectionError, SyncAbortedError } from '../src/errors/index.js';
+
+describe('isRetryableError', () => {
+  it('retries throttling, request timeouts and server errors', () => {
+    for (const statusCode of [408, 429, 500, 502, 503, 504]) {
+      expect(isRetryableError(new RestError('failed', { statusCode }))).toBe(true);
+    }
+  });
+
+  it('retries a RestError without a response', () => {
+    expect(isRetryableError(new RestError('socket hang up', { code: 'REQUEST_SEND_ERROR' }))).toBe(true);
+  });
+
+  it('does not retry client errors', () => {
+    for (const statusCode of [400, 403, 404, 409, 412]) {
+      expect(isRetryableError(new RestError('failed', { statusCode }))).toBe(false);
+    }
+  });
+
+  it('retries network errors but not aborts or credential failures', () => {
+    expect(isRetryableError(Object.assign(new Error('read ECONNRESET'), { code: 'ECONNRESET' }))).toBe(true);
+
+    const abort = new Error('The operation was aborted.');
+    abort.name = 'AbortError';
+    expect(isRetryableError(abort)).toBe(false);
+
+    const credential = new Error('no credential');
+    credential.name = 'CredentialUnavailableError';
+    expect(isRetryableError(credential)).toBe(false);
+
+    expect(isRetryableError('boom')).toBe(false);
+  });
+});
+
+describe('retryBackoff', () => {
+  it('doubles the delay for each retry up to the cap', () => {
+    expect([0, 1, 2, 3].map((retry) => retryBackoff(retry, 100))).toEqual([100, 200, 400, 800]);
+    expect(retryBackoff(20, 1000)).toBe(MAX_RETRY_DELAY_MS);
+    expect(retryBackoff(3, 0)).toBe(0);
+  });
+});
+
+describe('AzureVenvBlobClient retries and timeouts', () => {
+  const CONTENT = Buffer.from('{"retried":true}');
+  let server: http.Server;
+  let accountUrl: string;
+  let requests: number;
+  /** Status code answered for each request, in order; 0 means never answer. Afterwards: 200. */
+  let responses: number[];
+  let logger: Logger;
+
+  beforeEach(async () => {
+    logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    requests = 0;
+    responses = [];
+    server = http.createServer((req, res) => {
+      const status = responses[requests++] ?? 200;
+      if (status === 0) {
+        return;
+      }
+      if (status !== 200) {
+        res.writeHead(status, { 'x-ms-error-code': 'ServerBusy' }).end();
+        return;
+      }
+      res.writeHead(200, {
+        'content-length': String(CONTENT.length),
+        'content-type': 'application/octet-stream',
+        'x-ms-blob-type': 'BlockBlob',
+        etag: '"0x1"',
+      });
+      res.end(req.method === 'HEAD' ? undefined : CONTENT);
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    accountUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/devstoreaccount1`;
+  });
+
+  afterEach(async () => {
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  const createClient = (overrides: { maxRetries?: number; timeout?: number } = {}): AzureVenvBlobClient =>
+    new AzureVenvBlobClient(
+      {
+        accountUrl,
+        containerName: 'container',
+        auth: { mode: 'none' },
+        maxRetries: overrides.maxRetries ?? 2,
+        retryDelay: 0,
+        timeout: overrides.timeout ?? 5000,
+      },
+      logger,
+    );
+
+  it('retries transient server errors until the download succeeds', async () => {
+    responses = [503, 500];
+
+    const buffer = await createClient().downloadToBuffer('app.json');
+
+    expect(buffer.equals(CONTENT)).toBe(true);
+    expect(logger.warn).toHaveBeenCalledTimes(2);
+    expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('attempt 1 of 3'));
+  });
+
+  it('gives up after maxRetries and raises AzureConnectionError', async () => {
+    responses = [503, 503, 503, 503];
+
+    await expect(createClient({ maxRetries: 2 }).downloadToBuffer('app.json'))
+      .rejects.toBeInstanceOf(AzureConnectionError);
+    expect(requests).toBe(3);
+  });
+
+  it('does not retry fatal errors', async () => {
+    responses = [403];
+
+    await expect(createClient().downloadToBuffer('app.json')).rejects.toBeInstanceOf(AuthenticationError);
+    expect(requests).toBe(1);
+  });
+
+  it('reports HTTP 401 as AuthenticationError', async () => {
+    responses = [401];
+
+    await expect(createClient().downloadToBuffer('app.json')).rejects.toBeInstanceOf(AuthenticationError);
+    expect(requests).toBe(1);
+  });
+
+  it('aborts an attempt that exceeds the timeout and retries it', async () => {
+    responses = [0, 0];
+
+    await expect(createClient({ maxRetries: 1, timeout: 100 }).downloadToBuffer('app.json'))
+      .rejects.toThrow(/timed out after 100 ms/);
+    expect(requests).toBe(2);
+  });
+
+  it('stops at once without retrying when the caller aborts', async () => {
+    responses = [0, 0, 0];
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 50);
+
+    await expect(createClient({ maxRetries: 2 }).downloadToBuffer('app.json', controller.signal))
+      .rejects.toBeInstanceOf(SyncAbortedError);
+    expect(requests).toBe(1);
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import { createBlobFilter, splitGlobList } from '../src/sync/filter.js';
+import { createTestHarness } from '../src/testing/index.js';
+import type { TestHarness } from '../src/testing/index.js';
+
+describe('createBlobFilter', () => {
+  it('passes every path without patterns', () => {
+    const filter = createBlobFilter([], []);
+    expect(filter('a/b/c.zip')).toBe(true);
+  });
+
+  it('matches patterns without a slash against the file name at any depth', () => {
+    const filter = createBlobFilter([], ['*.zip']);
+    expect(filter('archive.zip')).toBe(false);
+    expect(filter('a/b/archive.zip')).toBe(false);
+    expect(filter('a/b/archive.zip.json')).toBe(true);
+  });
+
+  it('matches patterns with a slash against the whole relative path', () => {
+    const filter = createBlobFilter(['docs/*.md'], []);
+    expect(filter('docs/readme.md')).toBe(true);
+    expect(filter('docs/api/readme.md')).toBe(false);
+    expect(filter('other/docs/readme.md')).toBe(false);
+  });
+
+  it('supports **, ?, character classes and brace alternation', () => {
+    expect(createBlobFilter(['config/**/*.json'], [])('config/app.json')).toBe(true);
+    expect(createBlobFilter(['config/**/*.json'], [])('config/a/b/app.json')).toBe(true);
+    expect(createBlobFilter(['v?.txt'], [])('v1.txt')).toBe(true);
+    expect(createBlobFilter(['v?.txt'], [])('v10.txt')).toBe(false);
+    expect(createBlobFilter(['[!a]*.txt'], [])('b.txt')).toBe(true);
+    expect(createBlobFilter(['[!a]*.txt'], [])('a.txt')).toBe(false);
+    expect(createBlobFilter(['*.{json,y{a,}ml}'], [])('x.yml')).toBe(true);
+    expect(createBlobFilter(['*.{json,y{a,}ml}'], [])('x.toml')).toBe(false);
+  });
+
+  it('treats a trailing slash as the whole directory', () => {
+    const filter = createBlobFilter([], ['archives/']);
+    expect(filter('archives/2024/a.tar')).toBe(false);
+    expect(filter('archives.json')).toBe(true);
+  });
+
+  it('lets exclude win over include', () => {
+    const filter = createBlobFilter(['config/**'], ['**/*.secret.json']);
+    expect(filter('config/app.json')).toBe(true);
+    expect(filter('config/db.secret.json')).toBe(false);
+    expect(filter('readme.md')).toBe(false);
+  });
+
+  it('matches unbalanced braces and unterminated classes literally', () => {
+    expect(createBlobFilter(['a{b.txt'], [])('a{b.txt')).toBe(true);
+    expect(createBlobFilter(['a[b.txt'], [])('a[b.txt')).toBe(true);
+  });
+});
+
+describe('splitGlobList', () => {
+  it('splits on commas outside braces', () => {
+    expect(splitGlobList(' a/** ,*.{json,yaml},, ')).toEqual(['a/**', '*.{json,yaml}']);
+  });
+});
+
+describe('include/exclude filtering during sync', () => {
+  let harness: TestHarness;
+
+  it('skips excluded blobs in the initial sync and reports the count', async () => {
+    harness = createTestHarness({
+      prefix: 'prod/',
+      blobs: {
+        'prod/app.json': '{}',
+        'prod/archives/2024.tar': 'tar',
+        'prod/docs/readme.md': '# docs',
+      },
+    });
+
+    const result = await harness.initAzureVenv({ exclude: ['archives/', '*.md'] });
+
+    expect(result.blobs.map((b) => b.relativePath)).toEqual(['app.json']);
+    expect(result.totalBlobs).toBe(1);
+    expect(result.excluded).toBe(2);
+    expect(harness.source.calls.download).not.toContain('prod/archives/2024.tar');
+  });
+
+  it('never excludes the remote .env', async () => {
+    harness = createTestHarness({ blobs: { '.env': 'FILTER_TEST_VAR=1', 'app.json': '{}' } });
+
+    const result = await harness.initAzureVenv({ include: ['*.yaml'] });
+
+    expect(result.remoteEnvLoaded).toBe(true);
+    expect(result.blobs).toEqual([]);
+    expect(result.excluded).toBe(1);
+  });
+
+  it('applies the filters to watch polling', async () => {
+    harness = createTestHarness({ blobs: { 'app.json': '{}' } });
+    const events: string[] = [];
+    const watch = await harness.watchAzureVenv({
+      pollInterval: 5000,
+      exclude: ['*.zip'],
+      onChange: (changes) => {
+        events.push(...changes.map((c) => c.relativePath));
+      },
+    });
+
+    harness.source.setBlob('backup.zip', 'zip');
+    harness.source.setBlob('extra.json', '{}');
+    await harness.clock.tick(5000);
+
+    expect(events).toEqual(['extra.json']);
+    expect(watch.getCurrentSnapshot().excluded).toBe(1);
+    expect(watch.getCurrentSnapshot().blobs.map((b) => b.relativePath)).toEqual(['app.json', 'extra.json']);
+    watch.stop();
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { createChangeStream } from '../src/watch/change-stream.js';
+import type { WatchChangeEvent, WatchChangeListener } from '../src/types/index.js';
+
+function change(relativePath: string): WatchChangeEvent {
+  return {
+    type: 'added',
+    blobName: `prefix/${relativePath}`,
+    relativePath,
+    timestamp: new Date('2026-01-01T00:00:00Z'),
+  };
+}
+
+/** Minimal subscription source with a listener count for assertions. */
+function createSource() {
+  const listeners = new Set<WatchChangeListener>();
+  return {
+    listeners,
+    subscribe(listener: WatchChangeListener): () => void {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    push(changes: WatchChangeEvent[]): void {
+      for (const listener of listeners) {
+        void listener(changes);
+      }
+    },
+  };
+}
+
+describe('createChangeStream', () => {
+  it('buffers batches pushed before next() is called', async () => {
+    const source = createSource();
+    const stream = createChangeStream((l) => source.subscribe(l), new AbortController().signal);
+
+    source.push([change('a.txt')]);
+    source.push([change('b.txt')]);
+
+    expect((await stream.next()).value?.[0].relativePath).toBe('a.txt');
+    expect((await stream.next()).value?.[0].relativePath).toBe('b.txt');
+  });
+
+  it('resolves a pending next() when a batch arrives', async () => {
+    const source = createSource();
+    const stream = createChangeStream((l) => source.subscribe(l), new AbortController().signal);
+
+    const pending = stream.next();
+    source.push([change('a.txt')]);
+
+    expect((await pending).value?.[0].relativePath).toBe('a.txt');
+  });
+
+  it('drains buffered batches before completing on abort', async () => {
+    const source = createSource();
+    const controller = new AbortController();
+    const stream = createChangeStream((l) => source.subscribe(l), controller.signal);
+
+    source.push([change('a.txt')]);
+    controller.abort();
+
+    expect((await stream.next()).done).toBe(false);
+    expect((await stream.next()).done).toBe(true);
+    expect(source.listeners.size).toBe(0);
+  });
+
+  it('unsubscribes when the consumer breaks out of for-await', async () => {
+    const source = createSource();
+    const stream = createChangeStream((l) => source.subscribe(l), new AbortController().signal);
+    source.push([change('a.txt')]);
+
+    for await (const batch of stream) {
+      expect(batch).toHaveLength(1);
+      break;
+    }
+
+    expect(source.listeners.size).toBe(0);
+  });
+
+  it('completes immediately when the signal is already aborted', async () => {
+    const source = createSource();
+    const stream = createChangeStream((l) => source.subscribe(l), AbortSignal.abort());
+
+    expect(await stream.next()).toEqual({ value: undefined, done: true });
+    expect(source.listeners.size).toBe(0);
+  });
+});
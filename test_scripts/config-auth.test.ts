@@ -0,0 +1,171 @@
+import { describe, it, expect, vi } from 'vitest';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type { AccessToken, TokenCredential } from '@azure/core-auth';
+import { validateConfig } from '../src/config/validator.js';
+import { authSecret } from '../src/azure/client.js';
+import { initAzureVenv } from '../src/initialize.js';
+import { AuthenticationError, ConfigurationError } from '../src/errors/index.js';
+
+const URL_ONLY = { AZURE_VENV: 'https://myaccount.blob.core.windows.net/mycontainer/config' };
+
+/** TokenCredential stub; never called by validateConfig. */
+const fakeCredential: TokenCredential = {
+  getToken: async (): Promise<AccessToken> => ({ token: 'fake', expiresOnTimestamp: Date.now() + 60000 }),
+};
+
+describe('validateConfig - AZURE_VENV_AUTH_MODE', () => {
+  it('defaults to sas mode', () => {
+    const config = validateConfig({ ...URL_ONLY, AZURE_VENV_SAS_TOKEN: '?sv=2020-08-04&sig=abc' });
+    expect(config!.auth).toEqual({ mode: 'sas', sasToken: 'sv=2020-08-04&sig=abc' });
+    expect(config!.sasToken).toBe('sv=2020-08-04&sig=abc');
+  });
+
+  it('rejects an unknown auth mode', () => {
+    expect(() =>
+      validateConfig({ ...URL_ONLY, AZURE_VENV_AUTH_MODE: 'kerberos' }),
+    ).toThrow(ConfigurationError);
+  });
+
+  it('default-credential mode does not require a SAS token', () => {
+    const config = validateConfig({ ...URL_ONLY, AZURE_VENV_AUTH_MODE: 'default-credential' });
+    expect(config!.auth.mode).toBe('default-credential');
+    expect(config!.sasToken).toBe('');
+    expect(config!.sasExpiry).toBeNull();
+  });
+
+  it('uses default-credential mode when a credential is injected', () => {
+    const config = validateConfig(URL_ONLY, { credential: fakeCredential });
+    expect(config!.auth).toEqual({ mode: 'default-credential', credential: fakeCredential });
+  });
+
+  it('rejects an injected credential with a non Azure AD mode', () => {
+    try {
+      validateConfig(
+        { ...URL_ONLY, AZURE_VENV_SAS_TOKEN: 'sv=2020-08-04&sig=abc' },
+        { authMode: 'sas', credential: fakeCredential },
+      );
+      expect.fail('should have thrown');
+    } catch (err) {
+      expect(err).toBeInstanceOf(ConfigurationError);
+      expect((err as ConfigurationError).parameter).toBe('credential');
+    }
+  });
+
+  it('client-secret mode requires tenant, client id and secret', () => {
+    try {
+      validateConfig({
+        ...URL_ONLY,
+        AZURE_VENV_AUTH_MODE: 'client-secret',
+        AZURE_VENV_TENANT_ID: 'tenant',
+        AZURE_VENV_CLIENT_ID: 'client',
+      });
+      expect.fail('should have thrown');
+    } catch (err) {
+      expect(err).toBeInstanceOf(ConfigurationError);
+      expect((err as ConfigurationError).parameter).toBe('AZURE_VENV_CLIENT_SECRET');
+    }
+
+    const config = validateConfig({
+      ...URL_ONLY,
+      AZURE_VENV_AUTH_MODE: 'client-secret',
+      AZURE_VENV_TENANT_ID: 'tenant',
+      AZURE_VENV_CLIENT_ID: 'client',
+      AZURE_VENV_CLIENT_SECRET: 'secret',
+    });
+    expect(config!.auth).toEqual({
+      mode: 'client-secret',
+      tenantId: 'tenant',
+      clientId: 'client',
+      clientSecret: 'secret',
+    });
+  });
+
+  it('account-key mode takes the account name from the URL', () => {
+    const config = validateConfig({
+      ...URL_ONLY,
+      AZURE_VENV_AUTH_MODE: 'account-key',
+      AZURE_VENV_ACCOUNT_KEY: 'a2V5',
+    });
+    expect(config!.auth).toEqual({ mode: 'account-key', accountName: 'myaccount', accountKey: 'a2V5' });
+  });
+
+  it('account-key mode uses the path-style account name for emulator URLs', () => {
+    const config = validateConfig({
+      AZURE_VENV: 'http://127.0.0.1:10000/devstoreaccount1/c',
+      AZURE_VENV_URL_STYLE: 'path-style',
+      AZURE_VENV_AUTH_MODE: 'account-key',
+      AZURE_VENV_ACCOUNT_KEY: 'a2V5',
+    });
+    expect(config!.blobUrl.accountUrl).toBe('http://127.0.0.1:10000/devstoreaccount1');
+    expect(config!.auth).toEqual({ mode: 'account-key', accountName: 'devstoreaccount1', accountKey: 'a2V5' });
+  });
+
+  it('file:// URLs need no credentials', () => {
+    const config = validateConfig({ AZURE_VENV: 'file:///srv/config', AZURE_VENV_AUTH_MODE: 'client-secret' });
+    expect(config!.auth).toEqual({ mode: 'none' });
+    expect(config!.sasToken).toBe('');
+  });
+
+  it('options.urlStyle overrides AZURE_VENV_URL_STYLE', () => {
+    const config = validateConfig(
+      { ...URL_ONLY, AZURE_VENV: 'https://acct.example.com/c', AZURE_VENV_URL_STYLE: 'standard', AZURE_VENV_AUTH_MODE: 'default-credential' },
+      { urlStyle: 'custom-host' },
+    );
+    expect(config!.blobUrl.style).toBe('custom-host');
+  });
+
+  it('connection-string mode requires AZURE_VENV_CONNECTION_STRING', () => {
+    expect(() =>
+      validateConfig({ ...URL_ONLY, AZURE_VENV_AUTH_MODE: 'connection-string' }),
+    ).toThrow(/AZURE_VENV_CONNECTION_STRING is required/);
+  });
+
+  it('options.authMode overrides AZURE_VENV_AUTH_MODE', () => {
+    const config = validateConfig(
+      { ...URL_ONLY, AZURE_VENV_AUTH_MODE: 'default-credential', AZURE_VENV_SAS_TOKEN: 'sv=1&sig=x' },
+      { authMode: 'sas' },
+    );
+    expect(config!.auth.mode).toBe('sas');
+  });
+
+  it('still reports a missing SAS token in sas mode', () => {
+    expect(() => validateConfig(URL_ONLY)).toThrow(/AZURE_VENV_SAS_TOKEN is missing/);
+  });
+});
+
+describe('Azure AD credential failures', () => {
+  it('reject initAzureVenv with AuthenticationError even when failOnError is false', async () => {
+    const failingCredential: TokenCredential = {
+      getToken: async (): Promise<AccessToken> => {
+        const error = new Error('ManagedIdentityCredential: no managed identity endpoint found');
+        error.name = 'CredentialUnavailableError';
+        throw error;
+      },
+    };
+    const logSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    process.env.AZURE_VENV = URL_ONLY.AZURE_VENV;
+    try {
+      await expect(initAzureVenv({
+        credential: failingCredential,
+        failOnError: false,
+        maxRetries: 0,
+        rootDir: path.join(os.tmpdir(), 'config-auth-test-no-local-env'),
+        logLevel: 'error',
+      })).rejects.toBeInstanceOf(AuthenticationError);
+      expect(logSpy).toHaveBeenCalledWith(expect.stringContaining('Authentication failed'));
+    } finally {
+      logSpy.mockRestore();
+    }
+  });
+});
+
+describe('authSecret', () => {
+  it('returns the static secret of each mode', () => {
+    expect(authSecret({ mode: 'sas', sasToken: 'sv=1&sig=x' })).toBe('sv=1&sig=x');
+    expect(authSecret({ mode: 'account-key', accountName: 'a', accountKey: 'k' })).toBe('k');
+    expect(authSecret({ mode: 'connection-string', connectionString: 'cs' })).toBe('cs');
+    expect(authSecret({ mode: 'client-secret', tenantId: 't', clientId: 'c', clientSecret: 's' })).toBe('s');
+    expect(authSecret({ mode: 'default-credential' })).toBe('');
+  });
+});
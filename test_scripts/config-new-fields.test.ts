@@ -83,3 +83,158 @@ describe('validateConfig - options override env vars for new fields', () => {
     expect(config!.watchEnabled).toBe(true);
   });
 });
+
+describe('validateConfig - offline cache', () => {
+  it('is disabled when AZURE_VENV_CACHE_DIR is not set', () => {
+    const config = validateConfig(validEnv());
+    expect(config!.cache).toBeNull();
+  });
+
+  it('resolves the cache directory against rootDir', () => {
+    const config = validateConfig(
+      validEnv({ AZURE_VENV_CACHE_DIR: '.cache/venv', AZURE_VENV_CACHE_KEY: 'secret', AZURE_VENV_CACHE_MAX_AGE: '60000' }),
+      { rootDir: '/app' },
+    );
+    expect(config!.cache).toEqual({ dir: '/app/.cache/venv', key: 'secret', maxAge: 60000 });
+  });
+
+  it('requires AZURE_VENV_CACHE_KEY when a cache directory is set', () => {
+    expect(() => validateConfig(validEnv({ AZURE_VENV_CACHE_DIR: '/tmp/cache' }))).toThrow(ConfigurationError);
+    expect(() => validateConfig(validEnv({ AZURE_VENV_CACHE_DIR: '/tmp/cache' }))).toThrow(
+      /AZURE_VENV_CACHE_KEY is required/,
+    );
+  });
+
+  it('rejects a cache max age that is not a positive integer', () => {
+    const env = { AZURE_VENV_CACHE_DIR: '/tmp/cache', AZURE_VENV_CACHE_KEY: 'secret' };
+    expect(() => validateConfig(validEnv({ ...env, AZURE_VENV_CACHE_MAX_AGE: '0' }))).toThrow(/must be a positive integer/);
+    expect(() => validateConfig(validEnv({ ...env, AZURE_VENV_CACHE_MAX_AGE: '-5' }))).toThrow(ConfigurationError);
+  });
+
+  it('options override the cache env vars', () => {
+    const config = validateConfig(
+      validEnv({ AZURE_VENV_CACHE_DIR: '/env/cache', AZURE_VENV_CACHE_KEY: 'env-key' }),
+      { cacheDir: '/opt/cache', cacheKey: 'opt-key', cacheMaxAge: 1000 },
+    );
+    expect(config!.cache).toEqual({ dir: '/opt/cache', key: 'opt-key', maxAge: 1000 });
+  });
+});
+
+describe('validateConfig - include/exclude globs', () => {
+  it('defaults to no filters', () => {
+    const config = validateConfig(validEnv());
+    expect(config!.include).toEqual([]);
+    expect(config!.exclude).toEqual([]);
+  });
+
+  it('splits comma-separated lists, keeping brace alternations together', () => {
+    const config = validateConfig(
+      validEnv({ AZURE_VENV_INCLUDE: 'config/**, *.{json,yaml}', AZURE_VENV_EXCLUDE: '*.zip,,docs/' }),
+    );
+    expect(config!.include).toEqual(['config/**', '*.{json,yaml}']);
+    expect(config!.exclude).toEqual(['*.zip', 'docs/']);
+  });
+
+  it('options override the env vars', () => {
+    const config = validateConfig(validEnv({ AZURE_VENV_INCLUDE: '*.json' }), { include: ['*.yaml'], exclude: ['x/'] });
+    expect(config!.include).toEqual(['*.yaml']);
+    expect(config!.exclude).toEqual(['x/']);
+  });
+});
+
+describe('validateConfig - size limits', () => {
+  it('defaults to no limits and eager loading', () => {
+    const config = validateConfig(validEnv());
+    expect(config!.maxBlobSize).toBeNull();
+    expect(config!.memoryBudget).toBeNull();
+    expect(config!.lazyOversized).toBe(false);
+  });
+
+  it('parses byte sizes with optional unit suffixes', () => {
+    const config = validateConfig(
+      validEnv({ AZURE_VENV_MAX_BLOB_SIZE: '512kb', AZURE_VENV_MEMORY_BUDGET: '2 GB', AZURE_VENV_LAZY_OVERSIZED: 'true' }),
+    );
+    expect(config!.maxBlobSize).toBe(512 * 1024);
+    expect(config!.memoryBudget).toBe(2 * 1024 ** 3);
+    expect(config!.lazyOversized).toBe(true);
+  });
+
+  it('rejects invalid byte sizes', () => {
+    expect(() => validateConfig(validEnv({ AZURE_VENV_MAX_BLOB_SIZE: '10TB' }))).toThrow(ConfigurationError);
+    expect(() => validateConfig(validEnv({ AZURE_VENV_MEMORY_BUDGET: '0' }))).toThrow(/AZURE_VENV_MEMORY_BUDGET/);
+  });
+
+  it('options override the env vars', () => {
+    const config = validateConfig(validEnv({ AZURE_VENV_MAX_BLOB_SIZE: '1MB' }), { maxBlobSize: 10, memoryBudget: 20 });
+    expect(config!.maxBlobSize).toBe(10);
+    expect(config!.memoryBudget).toBe(20);
+  });
+});
+
+describe('validateConfig - load mode', () => {
+  it('defaults to eager loading with a 64 MiB lazy cache', () => {
+    const config = validateConfig(validEnv());
+    expect(config!.loadMode).toBe('eager');
+    expect(config!.lazyCacheSize).toBe(64 * 1024 * 1024);
+  });
+
+  it('sizes the lazy cache from AZURE_VENV_LAZY_CACHE_SIZE, then the memory budget', () => {
+    expect(validateConfig(validEnv({ AZURE_VENV_LOAD_MODE: 'lazy', AZURE_VENV_LAZY_CACHE_SIZE: '8MB' }))!.lazyCacheSize)
+      .toBe(8 * 1024 * 1024);
+    expect(validateConfig(validEnv({ AZURE_VENV_MEMORY_BUDGET: '1MB' }))!.lazyCacheSize).toBe(1024 * 1024);
+  });
+
+  it('rejects an unknown load mode', () => {
+    expect(() => validateConfig(validEnv({ AZURE_VENV_LOAD_MODE: 'sometimes' }))).toThrow(ConfigurationError);
+  });
+});
+
+describe('validateConfig - retries', () => {
+  it('defaults to 3 retries starting at 1000 ms', () => {
+    const config = validateConfig(validEnv());
+    expect(config!.maxRetries).toBe(3);
+    expect(config!.retryDelay).toBe(1000);
+  });
+
+  it('reads AZURE_VENV_MAX_RETRIES and AZURE_VENV_RETRY_DELAY, allowing 0', () => {
+    const config = validateConfig(validEnv({ AZURE_VENV_MAX_RETRIES: '0', AZURE_VENV_RETRY_DELAY: '250' }));
+    expect(config!.maxRetries).toBe(0);
+    expect(config!.retryDelay).toBe(250);
+  });
+
+  it('rejects out-of-range values', () => {
+    expect(() => validateConfig(validEnv({ AZURE_VENV_MAX_RETRIES: '11' }))).toThrow(ConfigurationError);
+    expect(() => validateConfig(validEnv({ AZURE_VENV_RETRY_DELAY: '-1' }))).toThrow(ConfigurationError);
+    expect(() => validateConfig(validEnv({ AZURE_VENV_RETRY_DELAY: '60001' }))).toThrow(ConfigurationError);
+  });
+
+  it('options override the env vars', () => {
+    const config = validateConfig(validEnv({ AZURE_VENV_MAX_RETRIES: '5' }), { maxRetries: 1, retryDelay: 0 });
+    expect(config!.maxRetries).toBe(1);
+    expect(config!.retryDelay).toBe(0);
+  });
+});
+
+describe('validateConfig - remote .env files', () => {
+  it('defaults to the .env at the prefix root', () => {
+    expect(validateConfig(validEnv())!.envFiles).toEqual(['.env']);
+    expect(validateConfig(validEnv({ AZURE_VENV: 'https://myaccount.blob.core.windows.net/mycontainer/prod' }))!.envFiles)
+      .toEqual(['prod/.env']);
+  });
+
+  it('reads AZURE_VENV_ENV_FILES in order', () => {
+    const config = validateConfig(validEnv({ AZURE_VENV_ENV_FILES: 'shared/.env, prod/.env,prod/.env.eu' }));
+    expect(config!.envFiles).toEqual(['shared/.env', 'prod/.env', 'prod/.env.eu']);
+  });
+
+  it('rejects an empty list or a file listed twice', () => {
+    expect(() => validateConfig(validEnv({ AZURE_VENV_ENV_FILES: ' , ' }))).toThrow(ConfigurationError);
+    expect(() => validateConfig(validEnv({ AZURE_VENV_ENV_FILES: 'a/.env,a/.env' }))).toThrow(ConfigurationError);
+    expect(() => validateConfig(validEnv(), { envFiles: [] })).toThrow(ConfigurationError);
+  });
+
+  it('options override the env var', () => {
+    const config = validateConfig(validEnv({ AZURE_VENV_ENV_FILES: 'a/.env' }), { envFiles: ['b/.env'] });
+    expect(config!.envFiles).toEqual(['b/.env']);
+  });
+});
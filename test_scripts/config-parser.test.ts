@@ -90,3 +90,70 @@ describe('parseBlobUrl', () => {
     expect(result.accountUrl.endsWith('/')).toBe(false);
   });
 });
+
+describe('parseBlobUrl URL styles', () => {
+  it('accepts sovereign cloud endpoints in standard style', () => {
+    const china = parseBlobUrl('https://acct.blob.core.chinacloudapi.cn/c');
+    expect(china.accountUrl).toBe('https://acct.blob.core.chinacloudapi.cn');
+    expect(china.accountName).toBe('acct');
+
+    const gov = parseBlobUrl('https://acct.blob.core.usgovcloudapi.net/c/p');
+    expect(gov.accountName).toBe('acct');
+    expect(gov.prefix).toBe('p/');
+  });
+
+  it('accepts private link endpoints and reports the standard style', () => {
+    const result = parseBlobUrl('https://acct.privatelink.blob.core.windows.net/c');
+    expect(result.accountName).toBe('acct');
+    expect(result.style).toBe('standard');
+  });
+
+  it('custom-host accepts any HTTPS host and keeps the port', () => {
+    const result = parseBlobUrl('https://acct.storage.example.com:8443/c/cfg', 'custom-host');
+    expect(result.accountUrl).toBe('https://acct.storage.example.com:8443');
+    expect(result.accountName).toBe('acct');
+    expect(result.containerName).toBe('c');
+    expect(result.prefix).toBe('cfg/');
+  });
+
+  it('custom-host still requires HTTPS', () => {
+    expect(() =>
+      parseBlobUrl('http://acct.storage.example.com/c', 'custom-host'),
+    ).toThrow(/HTTPS/);
+  });
+
+  it('path-style parses an Azurite URL with the account in the path', () => {
+    const result = parseBlobUrl('http://127.0.0.1:10000/devstoreaccount1/c/a/b', 'path-style');
+    expect(result.accountUrl).toBe('http://127.0.0.1:10000/devstoreaccount1');
+    expect(result.accountName).toBe('devstoreaccount1');
+    expect(result.containerName).toBe('c');
+    expect(result.prefix).toBe('a/b/');
+    expect(result.style).toBe('path-style');
+  });
+
+  it('path-style requires both account and container segments', () => {
+    expect(() => parseBlobUrl('http://localhost:10000/', 'path-style')).toThrow(/account name/);
+    expect(() => parseBlobUrl('http://localhost:10000/devstoreaccount1', 'path-style')).toThrow(
+      /container name/,
+    );
+  });
+
+  it('non-blob host error mentions AZURE_VENV_URL_STYLE', () => {
+    expect(() => parseBlobUrl('https://example.com/c')).toThrow(/AZURE_VENV_URL_STYLE/);
+  });
+
+  it('file:// URLs select the local style whatever the requested style', () => {
+    const result = parseBlobUrl('file:///srv/config/', 'custom-host');
+    expect(result).toEqual({
+      accountUrl: 'file://',
+      accountName: '',
+      containerName: '/srv/config',
+      prefix: '',
+      style: 'local',
+    });
+  });
+
+  it('local style requires a file:// URL', () => {
+    expect(() => parseBlobUrl('https://acct.blob.core.windows.net/c', 'local')).toThrow(/file:\/\//);
+  });
+});
@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { z } from 'zod';
+import { createEnvAccessor, env as liveEnv } from '../src/env/accessor.js';
+import { createTestHarness } from '../src/testing/index.js';
+import type { TestHarness } from '../src/testing/index.js';
+import type { EnvDetails } from '../src/types/index.js';
+import { ConfigurationError, EnvValidationError } from '../src/errors/index.js';
+
+const details: EnvDetails = {
+  variables: {
+    PORT: '8080',
+    RETRIES: '3.5',
+    DEBUG: 'Yes',
+    TIMEOUT: '1h30m',
+    FLAGS: '{"beta":true}',
+    HOSTS: ' a, b,,c ',
+    EMPTY: '',
+    NULL_JSON: 'null',
+  },
+  sources: {
+    PORT: 'remote',
+    RETRIES: 'remote',
+    DEBUG: 'local',
+    TIMEOUT: 'remote',
+    FLAGS: 'remote',
+    HOSTS: 'os',
+    EMPTY: 'local',
+    NULL_JSON: 'local',
+  },
+  localKeys: ['DEBUG', 'EMPTY', 'NULL_JSON'],
+  remoteKeys: ['FLAGS', 'PORT', 'RETRIES', 'TIMEOUT'],
+  osKeys: ['HOSTS'],
+  remoteFiles: { PORT: 'prod/.env', RETRIES: 'prod/.env.shared', TIMEOUT: 'prod/.env', FLAGS: 'prod/.env' },
+  secretKeys: [],
+};
+
+describe('createEnvAccessor', () => {
+  const env = createEnvAccessor(details, { UNTRACKED: '42', PORT: 'ignored' });
+
+  it('parses values of every supported type', () => {
+    expect(env.getString('PORT')).toBe('8080');
+    expect(env.getInt('PORT')).toBe(8080);
+    expect(env.getBool('DEBUG')).toBe(true);
+    expect(env.getDuration('TIMEOUT')).toBe(90 * 60 * 1000);
+    expect(env.getJson<{ beta: boolean }>('FLAGS')).toEqual({ beta: true });
+    expect(env.getJson('NULL_JSON', { fallback: true })).toBeNull();
+    expect(env.getList('HOSTS')).toEqual(['a', 'b', 'c']);
+  });
+
+  it('accepts plain milliseconds and fractional units as durations', () => {
+    const durations = createEnvAccessor(details, { D1: '1500', D2: '2.5s', D3: '500MS', D4: '1d2h' });
+
+    expect(durations.getDuration('D1')).toBe(1500);
+    expect(durations.getDuration('D2')).toBe(2500);
+    expect(durations.getDuration('D3')).toBe(500);
+    expect(durations.getDuration('D4')).toBe(26 * 60 * 60 * 1000);
+  });
+
+  it('returns the default for unset and empty variables', () => {
+    expect(env.getInt('MISSING')).toBeUndefined();
+    expect(env.getInt('MISSING', 1)).toBe(1);
+    expect(env.getBool('EMPTY', false)).toBe(false);
+    expect(env.getList('MISSING', ['x'])).toEqual(['x']);
+    expect(env.getString('EMPTY', 'default')).toBe('');
+  });
+
+  it('reads untracked variables from the environment as OS variables', () => {
+    expect(env.getInt('UNTRACKED')).toBe(42);
+    expect(env.sourceOf('UNTRACKED')).toBe('os');
+    expect(env.sourceOf('PORT')).toBe('remote');
+    expect(env.sourceOf('MISSING')).toBeUndefined();
+  });
+
+  it('throws ConfigurationError naming the key and its source, without the value', () => {
+    let error: unknown;
+    try {
+      env.getInt('RETRIES');
+    } catch (e: unknown) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(ConfigurationError);
+    expect((error as ConfigurationError).parameter).toBe('RETRIES');
+    expect((error as ConfigurationError).message).toBe(
+      'RETRIES must be an integer (source: remote, prod/.env.shared)',
+    );
+    expect(() => env.getBool('PORT')).toThrow(/PORT must be .* \(source: remote, prod\/\.env\)/);
+    expect(() => env.getDuration('DEBUG')).toThrow(/DEBUG must be a duration .* \(source: local\)/);
+    expect(() => env.getJson('HOSTS')).toThrow(/HOSTS must be valid JSON \(source: os\)$/);
+  });
+
+  it('requires variables to be set and non-empty', () => {
+    expect(env.require('PORT')).toBe('8080');
+    expect(() => env.require('MISSING')).toThrow('MISSING is required but not set');
+    expect(() => env.require('EMPTY')).toThrow('EMPTY is required but empty (source: local)');
+  });
+});
+
+describe('createEnvAccessor with a sync result', () => {
+  const harness = createTestHarness({
+    prefix: 'prod/',
+    blobs: { 'prod/.env': 'ACCESSOR_PORT=5432\nACCESSOR_TIMEOUT=30s' },
+  });
+
+  it('reads the variables applied by the sync', async () => {
+    const result = await harness.initAzureVenv();
+    const env = createEnvAccessor(result.envDetails);
+
+    expect(env.getInt('ACCESSOR_PORT')).toBe(5432);
+    expect(env.getDuration('ACCESSOR_TIMEOUT')).toBe(30000);
+    expect(env.sourceOf('ACCESSOR_PORT')).toBe('remote');
+  });
+});
+
+describe('env', () => {
+  let harness: TestHarness;
+
+  beforeEach(() => {
+    harness = createTestHarness({
+      prefix: 'prod/',
+      blobs: {
+        'prod/.env': 'LIVE_PORT=5432',
+        'assets.yaml': { content: 'a', metadata: { source_registry: 'reg', source_path: 'assets.yaml' } },
+      },
+    });
+  });
+
+  it('follows the latest sync but not the asset store sync', async () => {
+    process.env.LIVE_PORT = '1';
+    expect(liveEnv.sourceOf('LIVE_PORT')).toBe('os');
+    delete process.env.LIVE_PORT;
+
+    await harness.initAzureVenv();
+    expect(liveEnv.getInt('LIVE_PORT')).toBe(5432);
+    expect(liveEnv.sourceOf('LIVE_PORT')).toBe('remote');
+
+    // Rebinding to the asset container's details would report LIVE_PORT as an OS variable
+    harness.source.deleteBlob('prod/.env');
+    await harness.initAssetStore({ registry: 'reg' });
+    expect(liveEnv.sourceOf('LIVE_PORT')).toBe('remote');
+  });
+
+  it('is left unchanged by a sync rejected by the env schema', async () => {
+    await harness.initAzureVenv();
+    expect(liveEnv.sourceOf('LIVE_PORT')).toBe('remote');
+
+    harness.source.setBlob('prod/.env', 'LIVE_PORT=5432\nLIVE_HOST=db');
+    const envSchema = z.object({ LIVE_PORT: z.coerce.number().max(1024) });
+    await expect(harness.initAzureVenv({ envSchema })).rejects.toBeInstanceOf(EnvValidationError);
+
+    expect(liveEnv.sourceOf('LIVE_HOST')).toBe('os');
+    expect(liveEnv.getInt('LIVE_PORT')).toBe(5432);
+  });
+
+  it('follows watch mode updates of the remote .env', async () => {
+    const watch = await harness.watchAzureVenv({ pollInterval: 5000 });
+
+    harness.source.setBlob('prod/.env', 'LIVE_PORT=6543');
+    await harness.clock.tick(5000);
+    watch.stop();
+
+    expect(liveEnv.getInt('LIVE_PORT')).toBe(6543);
+    expect(liveEnv.sourceOf('LIVE_PORT')).toBe('remote');
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { diffEnvDetails, hasEnvChanges } from '../src/env/diff.js';
+import type { EnvDetails } from '../src/types/index.js';
+
+function details(
+  variables: Record<string, string>,
+  sources: EnvDetails['sources'],
+): EnvDetails {
+  return { variables, sources, localKeys: [], remoteKeys: [], osKeys: [], remoteFiles: {}, secretKeys: [] };
+}
+
+describe('diffEnvDetails', () => {
+  const previous = details(
+    { KEEP: 'same', UPDATE: 'old', MOVE: 'v', DROP: 'gone' },
+    { KEEP: 'remote', UPDATE: 'remote', MOVE: 'remote', DROP: 'remote' },
+  );
+  const next = details(
+    { KEEP: 'same', UPDATE: 'new', MOVE: 'v', NEW: 'fresh' },
+    { KEEP: 'remote', UPDATE: 'remote', MOVE: 'local', NEW: 'remote' },
+  );
+
+  it('reports added, changed and removed keys with their sources', () => {
+    const diff = diffEnvDetails(previous, next);
+
+    expect(diff.added).toEqual([{ key: 'NEW', source: 'remote' }]);
+    expect(diff.changed).toEqual([
+      { key: 'MOVE', source: 'local', previousSource: 'remote' },
+      { key: 'UPDATE', source: 'remote', previousSource: 'remote' },
+    ]);
+    expect(diff.removed).toEqual([{ key: 'DROP', previousSource: 'remote' }]);
+    expect(diff.timestamp).toBeInstanceOf(Date);
+  });
+
+  it('omits values by default', () => {
+    const diff = diffEnvDetails(previous, next);
+    for (const change of [...diff.added, ...diff.changed, ...diff.removed]) {
+      expect(change).not.toHaveProperty('value');
+      expect(change).not.toHaveProperty('previousValue');
+    }
+  });
+
+  it('includes values when requested', () => {
+    const diff = diffEnvDetails(previous, next, true);
+
+    expect(diff.added[0].value).toBe('fresh');
+    expect(diff.changed.find((c) => c.key === 'UPDATE')).toMatchObject({
+      value: 'new',
+      previousValue: 'old',
+    });
+    expect(diff.removed[0].previousValue).toBe('gone');
+  });
+
+  it('hasEnvChanges() is false for identical states', () => {
+    expect(hasEnvChanges(diffEnvDetails(previous, previous))).toBe(false);
+    expect(hasEnvChanges(diffEnvDetails(previous, next))).toBe(true);
+  });
+});
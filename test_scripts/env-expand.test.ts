@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { expandVariables } from '../src/env/expand.js';
+import { applyPrecedence } from '../src/env/precedence.js';
+import { validateConfig } from '../src/config/validator.js';
+import { createTestHarness } from '../src/testing/index.js';
+import type { TestHarness } from '../src/testing/index.js';
+import type { Logger } from '../src/logging/logger.js';
+import type { EnvRecord, EnvLoadResult, WatchResult } from '../src/types/index.js';
+import { EnvExpansionError } from '../src/errors/index.js';
+
+describe('expandVariables', () => {
+  let logger: Logger;
+
+  beforeEach(() => {
+    logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+  });
+
+  /** Apply the tiers, with the OS keys set in process.env first. */
+  const apply = (os: EnvRecord, local: EnvRecord, remote: EnvRecord): EnvLoadResult => {
+    Object.assign(process.env, os);
+    return applyPrecedence(new Set(Object.keys(os)), local, remote, logger);
+  };
+
+  it('expands references across the OS, remote and local tiers', () => {
+    const envResult = apply(
+      { EXP_PORT: '5432' },
+      { EXP_HOST: 'localhost', EXP_LOCAL_URL: 'http://$EXP_HOST/' },
+      { EXP_HOST: 'db.internal', EXP_DB_URL: 'postgres://${EXP_HOST}:${EXP_PORT}/${EXP_NAME:-app}' },
+    );
+
+    const expanded = expandVariables(envResult, logger, { failOnError: false });
+
+    expect(process.env.EXP_DB_URL).toBe('postgres://db.internal:5432/app');
+    expect(process.env.EXP_LOCAL_URL).toBe('http://db.internal/');
+    expect(expanded.variables.EXP_DB_URL).toBe('postgres://db.internal:5432/app');
+    expect(expanded.remoteKeys).toEqual(envResult.remoteKeys);
+  });
+
+  it('expands nested defaults, escapes and undefined references', () => {
+    const envResult = apply(
+      {},
+      {},
+      {
+        EXP_FALLBACK: 'fb',
+        EXP_NESTED: '${EXP_UNSET:-${EXP_FALLBACK}-x}',
+        EXP_ESCAPED: 'cost \\$5 ${not a ref}',
+        EXP_EMPTY: '[${EXP_UNSET}]',
+      },
+    );
+
+    const expanded = expandVariables(envResult, logger, { failOnError: false });
+
+    expect(expanded.variables.EXP_NESTED).toBe('fb-x');
+    expect(expanded.variables.EXP_ESCAPED).toBe('cost $5 ${not a ref}');
+    expect(expanded.variables.EXP_EMPTY).toBe('[]');
+  });
+
+  it('never expands OS values or resolved secrets', () => {
+    const envResult = apply(
+      { EXP_OS: '$EXP_REMOTE' },
+      {},
+      { EXP_OS: 'remote', EXP_REMOTE: 'r', EXP_SECRET: 'pa$EXP_REMOTE' },
+    );
+
+    const expanded = expandVariables(envResult, logger, { secretKeys: ['EXP_SECRET'], failOnError: false });
+
+    expect(expanded.variables.EXP_OS).toBe('$EXP_REMOTE');
+    expect(expanded.variables.EXP_SECRET).toBe('pa$EXP_REMOTE');
+  });
+
+  it('throws EnvExpansionError naming the keys of a cycle when failOnError is true', () => {
+    const envResult = apply({}, { EXP_A: '${EXP_B}' }, { EXP_B: 'x${EXP_C}', EXP_C: '$EXP_A' });
+
+    let error: unknown;
+    try {
+      expandVariables(envResult, logger, { failOnError: true });
+    } catch (e: unknown) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(EnvExpansionError);
+    expect((error as EnvExpansionError).keys).toEqual(['EXP_A', 'EXP_B', 'EXP_C']);
+    expect((error as EnvExpansionError).message).toContain('EXP_A -> EXP_B -> EXP_C -> EXP_A');
+  });
+
+  it('leaves the keys of a cycle unexpanded and expands the rest when failOnError is false', () => {
+    const envResult = apply({}, {}, { EXP_SELF: 'a$EXP_SELF', EXP_USER: '<$EXP_SELF>', EXP_OK: '$EXP_USER!' });
+
+    const expanded = expandVariables(envResult, logger, { failOnError: false });
+
+    expect(expanded.variables.EXP_SELF).toBe('a$EXP_SELF');
+    expect(expanded.variables.EXP_USER).toBe('<a$EXP_SELF>');
+    expect(expanded.variables.EXP_OK).toBe('<a$EXP_SELF>!');
+    expect(logger.error).toHaveBeenCalledWith(expect.stringContaining('EXP_SELF -> EXP_SELF'));
+  });
+});
+
+describe('AZURE_VENV_EXPAND configuration', () => {
+  const env = {
+    AZURE_VENV: 'https://myaccount.blob.core.windows.net/mycontainer',
+    AZURE_VENV_SAS_TOKEN: 'sv=2022-11-02&sig=abc123',
+  };
+
+  it('is off by default and read from the env var, the option winning', () => {
+    expect(validateConfig(env)!.expand).toBe(false);
+    expect(validateConfig({ ...env, AZURE_VENV_EXPAND: 'true' })!.expand).toBe(true);
+    expect(validateConfig({ ...env, AZURE_VENV_EXPAND: 'true' }, { expand: false })!.expand).toBe(false);
+    expect(() => validateConfig({ ...env, AZURE_VENV_EXPAND: 'yes' })).toThrow();
+  });
+});
+
+describe('expansion during sync', () => {
+  let harness: TestHarness;
+  let watch: WatchResult | undefined;
+
+  beforeEach(() => {
+    harness = createTestHarness({
+      prefix: 'prod/',
+      blobs: { 'prod/.env': 'SYNC_EXP_HOST=db.internal\nSYNC_EXP_URL=postgres://${SYNC_EXP_HOST}/app' },
+    });
+  });
+
+  afterEach(() => {
+    watch?.stop();
+    watch = undefined;
+  });
+
+  it('stores values literally unless expansion is enabled', async () => {
+    await harness.initAzureVenv();
+    expect(process.env.SYNC_EXP_URL).toBe('postgres://${SYNC_EXP_HOST}/app');
+    // Variables applied by the first sync would count as OS variables in the second
+    harness.restoreEnv();
+
+    const result = await harness.initAzureVenv({ expand: true });
+    expect(process.env.SYNC_EXP_URL).toBe('postgres://db.internal/app');
+    expect(result.envDetails.variables.SYNC_EXP_URL).toBe('postgres://db.internal/app');
+  });
+
+  it('re-expands when watch mode re-applies the remote .env', async () => {
+    watch = await harness.watchAzureVenv({ expand: true, pollInterval: 5000 });
+
+    harness.source.setBlob('prod/.env', 'SYNC_EXP_HOST=db2.internal\nSYNC_EXP_URL=postgres://${SYNC_EXP_HOST}/app');
+    await harness.clock.tick(5000);
+
+    expect(process.env.SYNC_EXP_URL).toBe('postgres://db2.internal/app');
+    expect(watch.getCurrentSnapshot().envDetails.variables.SYNC_EXP_URL).toBe('postgres://db2.internal/app');
+  });
+
+  it('fails the sync on a cycle when failOnError is true', async () => {
+    harness.source.setBlob('prod/.env', 'SYNC_EXP_A=$SYNC_EXP_B\nSYNC_EXP_B=$SYNC_EXP_A');
+
+    await expect(harness.initAzureVenv({ expand: true, failOnError: true })).rejects.toBeInstanceOf(EnvExpansionError);
+  });
+});
@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach } from 'vitest';
 import { applyPrecedence } from '../src/env/precedence.js';
 import type { Logger } from '../src/logging/logger.js';
 
@@ -13,23 +13,9 @@ function createMockLogger(): Logger {
 
 describe('applyPrecedence', () => {
   let logger: Logger;
-  let savedEnv: NodeJS.ProcessEnv;
 
   beforeEach(() => {
     logger = createMockLogger();
-    savedEnv = { ...process.env };
-  });
-
-  afterEach(() => {
-    // Restore process.env exactly
-    for (const key of Object.keys(process.env)) {
-      if (!(key in savedEnv)) {
-        delete process.env[key];
-      }
-    }
-    for (const [key, value] of Object.entries(savedEnv)) {
-      process.env[key] = value;
-    }
   });
 
   it('should let OS vars take precedence over remote and local', () => {
@@ -113,4 +99,37 @@ describe('applyPrecedence', () => {
     expect(process.env['NEW_LOCAL']).toBe('lv');
     expect(process.env['NEW_REMOTE']).toBe('rv');
   });
+
+  it('should report no removals on first application', () => {
+    const result = applyPrecedence(new Set<string>(), {}, { FIRST_REMOTE: 'r' }, logger);
+
+    expect(result.removedKeys).toEqual([]);
+    expect(result.restoredKeys).toEqual([]);
+  });
+
+  it('should unset previously remote keys that are no longer in any tier', () => {
+    const osSnapshot = new Set<string>();
+    const first = applyPrecedence(osSnapshot, {}, { STALE_REMOTE: 'r', KEPT_REMOTE: 'k' }, logger);
+
+    const second = applyPrecedence(osSnapshot, {}, { KEPT_REMOTE: 'k' }, logger, first.remoteKeys);
+
+    expect(process.env['STALE_REMOTE']).toBeUndefined();
+    expect(process.env['KEPT_REMOTE']).toBe('k');
+    expect(second.removedKeys).toEqual(['STALE_REMOTE']);
+    expect(second.variables).not.toHaveProperty('STALE_REMOTE');
+  });
+
+  it('should fall back to the local value for previously remote keys', () => {
+    const osSnapshot = new Set<string>();
+    const localEnv = { FALLBACK_KEY: 'local' };
+    const first = applyPrecedence(osSnapshot, localEnv, { FALLBACK_KEY: 'remote' }, logger);
+    expect(process.env['FALLBACK_KEY']).toBe('remote');
+
+    const second = applyPrecedence(osSnapshot, localEnv, {}, logger, first.remoteKeys);
+
+    expect(process.env['FALLBACK_KEY']).toBe('local');
+    expect(second.sources['FALLBACK_KEY']).toBe('local');
+    expect(second.restoredKeys).toEqual(['FALLBACK_KEY']);
+    expect(second.removedKeys).toEqual([]);
+  });
 });
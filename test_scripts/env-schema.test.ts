@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { z } from 'zod';
+import { parseEnv } from '../src/env/schema.js';
+import type { EnvSchema } from '../src/env/schema.js';
+import { initAzureVenv } from '../src/initialize.js';
+import { createTestHarness } from '../src/testing/index.js';
+import type { TestHarness } from '../src/testing/index.js';
+import type { EnvChangeEvent, WatchChangeEvent, WatchResult } from '../src/types/index.js';
+import { EnvValidationError } from '../src/errors/index.js';
+
+const schema = z.object({
+  SCHEMA_PORT: z.coerce.number().int(),
+  SCHEMA_HOST: z.string().min(1),
+  SCHEMA_DEBUG: z.enum(['true', 'false']).default('false').transform((value) => value === 'true'),
+});
+
+describe('parseEnv', () => {
+  it('returns the parsed output of the schema', () => {
+    expect(parseEnv(schema, { SCHEMA_PORT: '8080', SCHEMA_HOST: 'db', OTHER: 'x', UNSET: undefined })).toEqual({
+      SCHEMA_PORT: 8080,
+      SCHEMA_HOST: 'db',
+      SCHEMA_DEBUG: false,
+    });
+  });
+
+  it('throws EnvValidationError naming each failed variable but no value', () => {
+    let error: unknown;
+    try {
+      parseEnv(schema, { SCHEMA_PORT: 'not-a-port' });
+    } catch (e: unknown) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(EnvValidationError);
+    expect((error as EnvValidationError).issues.map((issue) => issue.key)).toEqual(['SCHEMA_PORT', 'SCHEMA_HOST']);
+    expect((error as EnvValidationError).message).not.toContain('not-a-port');
+  });
+
+  it('reports issues not tied to a variable as (root)', () => {
+    const refined = z.object({ A: z.string().optional() }).refine((env) => env.A !== undefined, 'A is required');
+
+    expect(() => parseEnv(refined, {})).toThrow(/\(root\): A is required/);
+  });
+});
+
+describe('envSchema during sync', () => {
+  let harness: TestHarness;
+  let watch: WatchResult<z.infer<typeof schema>> | undefined;
+
+  beforeEach(() => {
+    harness = createTestHarness({
+      prefix: 'prod/',
+      blobs: { 'prod/.env': 'SCHEMA_PORT=5432\nSCHEMA_HOST=db.internal' },
+    });
+  });
+
+  afterEach(() => {
+    watch?.stop();
+    watch = undefined;
+  });
+
+  it('returns the parsed config of the merged environment', async () => {
+    const result = await harness.initAzureVenv({ envSchema: schema });
+
+    expect(result.env).toEqual({ SCHEMA_PORT: 5432, SCHEMA_HOST: 'db.internal', SCHEMA_DEBUG: false });
+  });
+
+  it('validates the merged variables only, not unrelated OS variables', async () => {
+    process.env.SCHEMA_UNRELATED = 'os';
+    const seen: EnvSchema<Record<string, string>> = {
+      safeParse: (input) => ({ success: true, data: input as Record<string, string> }),
+    };
+
+    const result = await harness.initAzureVenv({ envSchema: seen });
+
+    expect(result.env).toEqual({ SCHEMA_PORT: '5432', SCHEMA_HOST: 'db.internal' });
+  });
+
+  it('leaves env undefined without a schema', async () => {
+    const result = await harness.initAzureVenv();
+
+    expect(result.env).toBeUndefined();
+  });
+
+  it('throws EnvValidationError even when failOnError is false', async () => {
+    harness.source.setBlob('prod/.env', 'SCHEMA_PORT=5432');
+
+    await expect(harness.initAzureVenv({ envSchema: schema, failOnError: false }))
+      .rejects.toBeInstanceOf(EnvValidationError);
+  });
+
+  it('validates the local .env when AZURE_VENV is not configured', async () => {
+    const rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'env-schema-test-'));
+    try {
+      await fs.writeFile(path.join(rootDir, '.env'), 'SCHEMA_PORT=3000\nSCHEMA_HOST=localhost\n');
+      // An OS variable wins over the local .env value it replaces; both are removed after the test
+      process.env.SCHEMA_PORT = '4000';
+
+      const result = await initAzureVenv({ envSchema: schema, rootDir, logLevel: 'error' });
+
+      expect(result.attempted).toBe(false);
+      expect(result.env).toEqual({ SCHEMA_PORT: 4000, SCHEMA_HOST: 'localhost', SCHEMA_DEBUG: false });
+      expect(result.envDetails.sources).toEqual({ SCHEMA_PORT: 'os', SCHEMA_HOST: 'local' });
+    } finally {
+      await fs.rm(rootDir, { recursive: true, force: true });
+    }
+  });
+
+  it('re-validates when watch mode re-applies the remote .env and keeps the previous environment on failure', async () => {
+    const logSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    watch = await harness.watchAzureVenv({ envSchema: schema, pollInterval: 5000 });
+
+    harness.source.setBlob('prod/.env', 'SCHEMA_PORT=6543\nSCHEMA_HOST=db2.internal');
+    await harness.clock.tick(5000);
+    expect(watch.getCurrentSnapshot().env.SCHEMA_PORT).toBe(6543);
+
+    harness.source.setBlob('prod/.env', 'SCHEMA_PORT=oops\nSCHEMA_HOST=db2.internal');
+    await harness.clock.tick(5000);
+    expect(process.env.SCHEMA_PORT).toBe('6543');
+    expect(watch.getCurrentSnapshot().envDetails.variables.SCHEMA_PORT).toBe('6543');
+    expect(watch.getCurrentSnapshot().env.SCHEMA_PORT).toBe(6543);
+    expect(watch.initialSync.env.SCHEMA_PORT).toBe(5432);
+    expect(logSpy).toHaveBeenCalledWith(expect.stringContaining('SCHEMA_PORT'));
+    expect(logSpy).toHaveBeenCalledWith(expect.stringContaining('keeping the previous config'));
+    logSpy.mockRestore();
+  });
+
+  it('does not report a rejected re-apply and tries it again on the next poll', async () => {
+    const logSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const changes: (readonly WatchChangeEvent[])[] = [];
+    const envChanges: EnvChangeEvent[] = [];
+    watch = await harness.watchAzureVenv({
+      envSchema: schema,
+      pollInterval: 5000,
+      onChange: (batch) => {
+        changes.push(batch);
+      },
+      onEnvChange: (event) => {
+        envChanges.push(event);
+      },
+    });
+
+    harness.source.setBlob('prod/.env', 'SCHEMA_PORT=oops\nSCHEMA_HOST=db2.internal');
+    await harness.clock.tick(5000);
+    await harness.clock.tick(5000);
+    expect(watch.getCurrentSnapshot().version).toBe(0);
+    expect(changes).toHaveLength(0);
+    expect(envChanges).toHaveLength(0);
+    expect(logSpy.mock.calls.filter(([message]) => String(message).includes('keeping the previous config')))
+      .toHaveLength(2);
+
+    // Diffed against the environment that was applied, not the rejected file
+    harness.source.setBlob('prod/.env', 'SCHEMA_PORT=5432\nSCHEMA_HOST=db2.internal');
+    await harness.clock.tick(5000);
+    expect(watch.getCurrentSnapshot().version).toBe(1);
+    expect(changes.map((batch) => batch.map(({ type, blobName }) => [type, blobName]))).toEqual([
+      [['modified', 'prod/.env']],
+    ]);
+    expect(envChanges.map((event) => event.changed.map((change) => change.key))).toEqual([['SCHEMA_HOST']]);
+    logSpy.mockRestore();
+  });
+});
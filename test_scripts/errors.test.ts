@@ -6,6 +6,11 @@ import {
   AuthenticationError,
   SyncError,
   PathTraversalError,
+  IntegrityError,
+  SyncAbortedError,
+  SecretResolutionError,
+  EnvExpansionError,
+  EnvValidationError,
 } from '../src/errors/index.js';
 
 describe('AzureVenvError (base)', () => {
@@ -161,3 +166,91 @@ describe('PathTraversalError', () => {
     expect(err.name).toBe('PathTraversalError');
   });
 });
+
+describe('IntegrityError', () => {
+  it('is an instance of AzureVenvError and Error', () => {
+    const err = new IntegrityError('mismatch', 'app.json', 'md5', 'expected', 'actual');
+    expect(err).toBeInstanceOf(Error);
+    expect(err).toBeInstanceOf(AzureVenvError);
+    expect(err).toBeInstanceOf(IntegrityError);
+  });
+
+  it('has code INTEGRITY_ERROR and the name property', () => {
+    const err = new IntegrityError('mismatch', 'app.json', 'sha256', 'aa', 'bb');
+    expect(err.code).toBe('INTEGRITY_ERROR');
+    expect(err.name).toBe('IntegrityError');
+  });
+
+  it('stores the blob name, algorithm and both hashes', () => {
+    const err = new IntegrityError('mismatch', 'app.json', 'sha256', 'aa', 'bb');
+    expect(err.blobName).toBe('app.json');
+    expect(err.algorithm).toBe('sha256');
+    expect(err.expected).toBe('aa');
+    expect(err.actual).toBe('bb');
+  });
+});
+
+describe('SyncAbortedError', () => {
+  it('is an instance of AzureVenvError and Error', () => {
+    const err = new SyncAbortedError('stopped', 'deadline');
+    expect(err).toBeInstanceOf(Error);
+    expect(err).toBeInstanceOf(AzureVenvError);
+    expect(err).toBeInstanceOf(SyncAbortedError);
+  });
+
+  it('has code SYNC_ABORTED, the name property and the reason', () => {
+    const err = new SyncAbortedError('stopped', 'cancelled');
+    expect(err.code).toBe('SYNC_ABORTED');
+    expect(err.name).toBe('SyncAbortedError');
+    expect(err.reason).toBe('cancelled');
+  });
+});
+
+describe('SecretResolutionError', () => {
+  it('is an instance of AzureVenvError and Error', () => {
+    const err = new SecretResolutionError('unresolvable', 'DB_PASSWORD', 'secretref://vault/db');
+    expect(err).toBeInstanceOf(Error);
+    expect(err).toBeInstanceOf(AzureVenvError);
+    expect(err).toBeInstanceOf(SecretResolutionError);
+  });
+
+  it('has the correct code, name, key and reference', () => {
+    const err = new SecretResolutionError('unresolvable', 'DB_PASSWORD', 'secretref://vault/db');
+    expect(err.code).toBe('SECRET_RESOLUTION_ERROR');
+    expect(err.name).toBe('SecretResolutionError');
+    expect(err.key).toBe('DB_PASSWORD');
+    expect(err.reference).toBe('secretref://vault/db');
+  });
+});
+
+describe('EnvExpansionError', () => {
+  it('is an instance of AzureVenvError and Error', () => {
+    const err = new EnvExpansionError('cycle', ['A', 'B']);
+    expect(err).toBeInstanceOf(Error);
+    expect(err).toBeInstanceOf(AzureVenvError);
+    expect(err).toBeInstanceOf(EnvExpansionError);
+  });
+
+  it('has the correct code, name and keys', () => {
+    const err = new EnvExpansionError('cycle', ['A', 'B']);
+    expect(err.code).toBe('ENV_EXPANSION_ERROR');
+    expect(err.name).toBe('EnvExpansionError');
+    expect(err.keys).toEqual(['A', 'B']);
+  });
+});
+
+describe('EnvValidationError', () => {
+  it('is an instance of AzureVenvError and Error', () => {
+    const err = new EnvValidationError('invalid', [{ key: 'PORT', message: 'Required' }]);
+    expect(err).toBeInstanceOf(Error);
+    expect(err).toBeInstanceOf(AzureVenvError);
+    expect(err).toBeInstanceOf(EnvValidationError);
+  });
+
+  it('has the correct code, name and issues', () => {
+    const err = new EnvValidationError('invalid', [{ key: 'PORT', message: 'Required' }]);
+    expect(err.code).toBe('ENV_VALIDATION_ERROR');
+    expect(err.name).toBe('EnvValidationError');
+    expect(err.issues).toEqual([{ key: 'PORT', message: 'Required' }]);
+  });
+});
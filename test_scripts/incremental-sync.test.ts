@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { createTestHarness } from '../src/testing/index.js';
+import type { TestHarness } from '../src/testing/index.js';
+
+const META = { source_registry: 'reg', source_path: 'agents.yaml' };
+
+describe('incremental sync', () => {
+  let harness: TestHarness;
+
+  beforeEach(() => {
+    harness = createTestHarness({
+      prefix: 'prod/',
+      blobs: { 'prod/a.json': '{"a":1}', 'prod/b.json': '{"b":1}' },
+    });
+  });
+
+  /** Blob names downloaded since the given call count, ignoring the remote .env fetch. */
+  const downloadsSince = (count: number): string[] =>
+    harness.source.calls.download.slice(count).filter((name) => !name.endsWith('.env'));
+
+  it('downloads everything without a previous result', async () => {
+    const result = await harness.initAzureVenv();
+
+    expect(result.downloaded).toBe(2);
+    expect(result.reused).toBe(0);
+  });
+
+  it('reuses unchanged blobs and downloads changed ones', async () => {
+    const first = await harness.initAzureVenv();
+    harness.source.setBlob('prod/b.json', '{"b":2}');
+    const before = harness.source.calls.download.length;
+
+    const second = await harness.initAzureVenv({ previous: first });
+
+    expect(downloadsSince(before)).toEqual(['prod/b.json']);
+    expect(second.reused).toBe(1);
+    expect(second.downloaded).toBe(1);
+    expect(second.blobs.map((b) => b.content.toString())).toEqual(['{"a":1}', '{"b":2}']);
+    expect(second.blobs[0].content).toBe(first.blobs[0].content);
+  });
+
+  it('reuses a blob whose ETag changed but whose content MD5 did not', async () => {
+    const first = await harness.initAzureVenv();
+    const etag = harness.source.setBlob('prod/a.json', '{"a":1}');
+    const before = harness.source.calls.download.length;
+
+    const second = await harness.initAzureVenv({ previous: first });
+
+    expect(downloadsSince(before)).toEqual([]);
+    expect(second.reused).toBe(2);
+    expect(second.blobs[0].etag).toBe(etag);
+  });
+
+  it('drops blobs that were deleted and downloads new ones', async () => {
+    const first = await harness.initAzureVenv();
+    harness.source.deleteBlob('prod/a.json');
+    harness.source.setBlob('prod/c.json', '{"c":1}');
+
+    const second = await harness.initAzureVenv({ previous: first });
+
+    expect(second.blobs.map((b) => b.relativePath)).toEqual(['b.json', 'c.json']);
+    expect(second.reused).toBe(1);
+    expect(second.downloaded).toBe(1);
+  });
+
+  it('reuses blobs from the offline cache when no previous result is passed', async () => {
+    const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'incremental-sync-test-'));
+    try {
+      const cacheOptions = { cacheDir: path.join(tmpDir, 'cache'), cacheKey: 'passphrase' };
+      await harness.initAzureVenv(cacheOptions);
+      harness.restoreEnv();
+      const before = harness.source.calls.download.length;
+
+      const second = await harness.initAzureVenv(cacheOptions);
+
+      expect(downloadsSince(before)).toEqual([]);
+      expect(second.reused).toBe(2);
+      expect(second.servedFromCache).toBe(false);
+    } finally {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+    }
+  });
+
+  it('AssetStore.refresh() only downloads changed blobs', async () => {
+    harness = createTestHarness({
+      blobs: {
+        'agents.yaml': { content: 'v1', metadata: META },
+        'tools.yaml': { content: 't1', metadata: { ...META, source_path: 'tools.yaml' } },
+      },
+    });
+    const store = await harness.initAssetStore({ registry: 'reg' });
+
+    harness.source.setBlob('agents.yaml', { content: 'v2', metadata: META });
+    const before = harness.source.calls.download.length;
+    await store.refresh();
+
+    expect(downloadsSince(before)).toEqual(['agents.yaml']);
+    expect(store.getAsset('agents.yaml')).toBe('v2');
+    expect(store.getAsset('tools.yaml')).toBe('t1');
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { createHash } from 'node:crypto';
+import { verifyBlobIntegrity } from '../src/sync/integrity.js';
+import { initAzureVenv } from '../src/initialize.js';
+import { createFakeBlobSource, createTestHarness, FAKE_AZURE_VENV_URL, FAKE_SAS_TOKEN } from '../src/testing/index.js';
+import type { TestHarness } from '../src/testing/index.js';
+import type { BlobInfo } from '../src/azure/types.js';
+import type { BlobSource } from '../src/source/types.js';
+import { IntegrityError } from '../src/errors/index.js';
+
+const CONTENT = Buffer.from('{"v":1}');
+const MD5 = createHash('md5').update(CONTENT).digest('base64');
+const SHA256 = createHash('sha256').update(CONTENT).digest('hex');
+
+function blobInfo(overrides: Partial<BlobInfo> = {}): BlobInfo {
+  return { name: 'app.json', etag: '"0x1"', lastModified: new Date(0), contentLength: CONTENT.length, ...overrides };
+}
+
+describe('verifyBlobIntegrity', () => {
+  it('returns the hex SHA-256 when no hashes are published', () => {
+    expect(verifyBlobIntegrity(blobInfo(), CONTENT)).toBe(SHA256);
+  });
+
+  it('accepts content matching Content-MD5 and the content_sha256 metadata', () => {
+    const blob = blobInfo({ contentMD5: MD5, metadata: { content_sha256: SHA256.toUpperCase() } });
+    expect(verifyBlobIntegrity(blob, CONTENT)).toBe(SHA256);
+  });
+
+  it('rejects an MD5 mismatch', () => {
+    try {
+      verifyBlobIntegrity(blobInfo({ contentMD5: MD5 }), Buffer.from('tampered'));
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(IntegrityError);
+      expect((error as IntegrityError).algorithm).toBe('md5');
+      expect((error as IntegrityError).expected).toBe(MD5);
+    }
+  });
+
+  it('rejects a SHA-256 metadata mismatch', () => {
+    expect(() => verifyBlobIntegrity(blobInfo({ metadata: { content_sha256: 'ab'.repeat(32) } }), CONTENT))
+      .toThrow(IntegrityError);
+  });
+});
+
+describe('integrity verification during sync', () => {
+  let harness: TestHarness;
+
+  it('exposes the SHA-256 of every downloaded blob', async () => {
+    harness = createTestHarness({ blobs: { 'app.json': CONTENT } });
+
+    const result = await harness.initAzureVenv();
+
+    expect(result.blobs[0].sha256).toBe(SHA256);
+  });
+
+  it('fails a blob whose download does not match its Content-MD5', async () => {
+    harness = createTestHarness();
+    const fake = createFakeBlobSource({ blobs: { 'app.json': CONTENT, 'other.json': '{}' } });
+    // Listing reports the original MD5, downloads of app.json return altered bytes
+    const tampering: BlobSource = {
+      listBlobs: (prefix) => fake.listBlobs(prefix),
+      downloadToBuffer: async (name) => (name === 'app.json' ? Buffer.from('tampered') : fake.downloadToBuffer(name)),
+    };
+
+    process.env.AZURE_VENV = FAKE_AZURE_VENV_URL;
+    process.env.AZURE_VENV_SAS_TOKEN = FAKE_SAS_TOKEN;
+    const result = await initAzureVenv({ source: tampering, logLevel: 'error' });
+
+    expect(result.failedBlobs).toEqual(['app.json']);
+    expect(result.blobs.map((b) => b.relativePath)).toEqual(['other.json']);
+  });
+
+  it('fails a blob whose content does not match its content_sha256 metadata', async () => {
+    harness = createTestHarness({
+      blobs: { 'app.json': { content: CONTENT, metadata: { content_sha256: 'ab'.repeat(32) } } },
+    });
+
+    const result = await harness.initAzureVenv();
+
+    expect(result.failedBlobs).toEqual(['app.json']);
+  });
+
+  it('rejects lazy loads that fail verification', async () => {
+    harness = createTestHarness({
+      blobs: { 'app.json': { content: CONTENT, metadata: { content_sha256: 'ab'.repeat(32) } } },
+    });
+
+    const result = await harness.initAzureVenv({ loadMode: 'lazy' });
+
+    await expect(result.blobs[0].load!()).rejects.toBeInstanceOf(IntegrityError);
+  });
+});
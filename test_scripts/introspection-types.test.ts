@@ -12,6 +12,8 @@ describe('Introspection types on SyncResult', () => {
       localKeys: [],
       remoteKeys: [],
       osKeys: [],
+      remoteFiles: {},
+      secretKeys: [],
     });
   });
 
@@ -78,6 +80,7 @@ describe('Introspection types on SyncResult', () => {
       localKeys: ['DB_HOST'],
       remoteKeys: ['API_KEY'],
       osKeys: [],
+      remoteFiles: { API_KEY: 'prod/.env' },
     };
 
     expect(Object.keys(details.variables)).toHaveLength(2);
@@ -85,6 +88,7 @@ describe('Introspection types on SyncResult', () => {
     expect(details.localKeys).toContain('DB_HOST');
     expect(details.remoteKeys).toContain('API_KEY');
     expect(details.osKeys).toHaveLength(0);
+    expect(details.remoteFiles['API_KEY']).toBe('prod/.env');
   });
 
   it('SyncResult can be constructed with all fields including introspection', () => {
@@ -94,6 +98,7 @@ describe('Introspection types on SyncResult', () => {
       downloaded: 3,
       failed: 0,
       failedBlobs: [],
+      skippedBlobs: [],
       duration: 1500,
       remoteEnvLoaded: true,
       envSources: { DB_HOST: 'remote' },
@@ -122,7 +127,15 @@ describe('Introspection types on SyncResult', () => {
         localKeys: [],
         remoteKeys: ['DB_HOST'],
         osKeys: [],
+        remoteFiles: { DB_HOST: 'p/.env' },
       },
+      servedFromCache: false,
+      cacheAge: null,
+      sources: [],
+      env: undefined,
+      reused: 0,
+      excluded: 0,
+      timedOut: false,
     };
 
     expect(result.blobs).toHaveLength(1);
@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import { LruBufferCache } from '../src/sync/lazy.js';
+import { loadBlobContent } from '../src/index.js';
+import { createTestHarness } from '../src/testing/index.js';
+import type { TestHarness } from '../src/testing/index.js';
+import { ConfigurationError } from '../src/errors/index.js';
+
+describe('LruBufferCache', () => {
+  it('evicts the least recently used entries to stay within capacity', () => {
+    const cache = new LruBufferCache(10);
+    cache.set('a', Buffer.alloc(4));
+    cache.set('b', Buffer.alloc(4));
+    cache.get('a');
+    cache.set('c', Buffer.alloc(4));
+
+    expect(cache.get('a')).toBeDefined();
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('c')).toBeDefined();
+    expect(cache.bytes).toBe(8);
+  });
+
+  it('never caches a buffer larger than the capacity', () => {
+    const cache = new LruBufferCache(10);
+    cache.set('big', Buffer.alloc(11));
+    expect(cache.size).toBe(0);
+  });
+
+  it('shares one load between concurrent callers and does not cache failures', async () => {
+    const cache = new LruBufferCache(100);
+    let calls = 0;
+    const loader = async (): Promise<Buffer> => {
+      calls++;
+      return Buffer.from('x');
+    };
+
+    await Promise.all([cache.getOrLoad('k', loader), cache.getOrLoad('k', loader)]);
+    expect(calls).toBe(1);
+
+    await expect(cache.getOrLoad('bad', () => Promise.reject(new Error('boom')))).rejects.toThrow('boom');
+    expect(await cache.getOrLoad('bad', loader)).toEqual(Buffer.from('x'));
+  });
+});
+
+describe('lazy load mode', () => {
+  let harness: TestHarness;
+
+  /** Blob names downloaded so far, ignoring the remote .env fetch. */
+  const downloads = (): string[] => harness.source.calls.download.filter((name) => !name.endsWith('.env'));
+
+  it('lists blobs without downloading them', async () => {
+    harness = createTestHarness({ blobs: { 'a.json': '{"a":1}', 'b.json': '{"b":1}' } });
+
+    const result = await harness.initAzureVenv({ loadMode: 'lazy' });
+
+    expect(result.blobs.map((b) => [b.relativePath, b.size, b.etag])).toEqual([
+      ['a.json', 7, '"0x1"'],
+      ['b.json', 7, '"0x2"'],
+    ]);
+    expect(result.downloaded).toBe(0);
+    expect(downloads()).toEqual([]);
+  });
+
+  it('downloads content on first use and serves it from the cache afterwards', async () => {
+    harness = createTestHarness({ blobs: { 'a.json': '{"a":1}' } });
+    const result = await harness.initAzureVenv({ loadMode: 'lazy' });
+    const blob = result.blobs[0];
+
+    expect((await loadBlobContent(blob)).toString()).toBe('{"a":1}');
+    expect((await blob.load!()).toString()).toBe('{"a":1}');
+    expect(downloads()).toEqual(['a.json']);
+  });
+
+  it('rejects reading content synchronously, cached or not', async () => {
+    harness = createTestHarness({ blobs: { 'a.json': '{"a":1}' } });
+    const result = await harness.initAzureVenv({ loadMode: 'lazy' });
+    const blob = result.blobs[0];
+
+    expect(() => blob.content).toThrow(ConfigurationError);
+    await blob.load!();
+    expect(() => blob.content).toThrow(/not held in memory in lazy mode; use load\(\)/);
+    expect(downloads()).toEqual(['a.json']);
+  });
+
+  it('re-downloads content evicted from the LRU cache', async () => {
+    harness = createTestHarness({ blobs: { 'a.txt': 'x'.repeat(8), 'b.txt': 'y'.repeat(8) } });
+    const result = await harness.initAzureVenv({ loadMode: 'lazy', lazyCacheSize: 10 });
+    const [a, b] = result.blobs;
+
+    await a.load!();
+    await b.load!();
+    await a.load!();
+
+    expect(downloads()).toEqual(['a.txt', 'b.txt', 'a.txt']);
+  });
+
+  it('watch mode swaps in an accessor for the new version of a modified blob', async () => {
+    harness = createTestHarness({ blobs: { 'app.json': '{"v":1}' } });
+    const watch = await harness.watchAzureVenv({ pollInterval: 5000, loadMode: 'lazy' });
+    expect((await loadBlobContent(watch.getCurrentSnapshot().blobs[0])).toString()).toBe('{"v":1}');
+
+    harness.source.setBlob('app.json', '{"v":2}');
+    await harness.clock.tick(5000);
+
+    expect((await loadBlobContent(watch.getCurrentSnapshot().blobs[0])).toString()).toBe('{"v":2}');
+    watch.stop();
+  });
+
+  it('AssetStore.loadAsset fetches lazily loaded assets', async () => {
+    harness = createTestHarness({
+      blobs: { 'agents.yaml': { content: 'v1', metadata: { source_registry: 'reg', source_path: 'agents.yaml' } } },
+    });
+    const store = await harness.initAssetStore({ registry: 'reg', loadMode: 'lazy' });
+
+    expect(store.hasAsset('agents.yaml')).toBe(true);
+    expect(await store.loadAsset('agents.yaml')).toBe('v1');
+    expect(await store.loadRawAsset('agents.yaml')).toEqual(Buffer.from('v1'));
+  });
+
+  it('AssetStore rejects the synchronous getters in lazy mode', async () => {
+    harness = createTestHarness({
+      blobs: { 'agents.yaml': { content: 'v1', metadata: { source_registry: 'reg', source_path: 'agents.yaml' } } },
+    });
+    const store = await harness.initAssetStore({ registry: 'reg', loadMode: 'lazy' });
+    await store.loadAsset('agents.yaml');
+
+    expect(() => store.getAsset('agents.yaml')).toThrow('getAsset() is not available on an asset store synced in lazy mode; use loadAsset()');
+    expect(() => store.getRawAsset('agents.yaml')).toThrow(ConfigurationError);
+    expect(() => store.getJsonAsset('agents.yaml')).toThrow(/use loadJsonAsset\(\)/);
+  });
+});
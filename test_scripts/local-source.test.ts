@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { LocalDirectoryBlobSource } from '../src/source/local.js';
+import { createBlobSource } from '../src/source/factory.js';
+import { AzureVenvBlobClient } from '../src/azure/client.js';
+import { validateConfig } from '../src/config/validator.js';
+import { initAzureVenv } from '../src/initialize.js';
+import { AzureConnectionError, PathTraversalError, SyncError } from '../src/errors/index.js';
+import type { BlobSource } from '../src/source/types.js';
+import type { Logger } from '../src/logging/logger.js';
+
+function createMockLogger(): Logger {
+  return {
+    debug: () => {},
+    info: () => {},
+    warn: () => {},
+    error: () => {},
+  };
+}
+
+/** Write a file below the root directory, creating parent directories. */
+async function writeFixture(root: string, name: string, content: string): Promise<void> {
+  const filePath = path.join(root, name);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, content, 'utf-8');
+}
+
+describe('LocalDirectoryBlobSource', () => {
+  let tmpDir: string;
+  let source: LocalDirectoryBlobSource;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'local-source-test-'));
+    source = new LocalDirectoryBlobSource(tmpDir, createMockLogger());
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('lists files recursively with posix names, filtered by prefix', async () => {
+    await writeFixture(tmpDir, 'prod/app.json', '{}');
+    await writeFixture(tmpDir, 'prod/nested/deep.txt', 'deep');
+    await writeFixture(tmpDir, 'dev/app.json', '{}');
+
+    const all = await source.listBlobs('');
+    expect(all.map((b) => b.name)).toEqual(['dev/app.json', 'prod/app.json', 'prod/nested/deep.txt']);
+
+    const prod = await source.listBlobs('prod/');
+    expect(prod.map((b) => b.name)).toEqual(['prod/app.json', 'prod/nested/deep.txt']);
+    expect(prod[1].contentLength).toBe(4);
+  });
+
+  it('reads metadata from sidecar files and hides them from the listing', async () => {
+    await writeFixture(tmpDir, 'agents.yaml', 'a: 1');
+    await writeFixture(
+      tmpDir,
+      'agents.yaml.meta.json',
+      JSON.stringify({ source_registry: 'github.com/org/repo', source_path: 'config/agents.yaml', size: 3 }),
+    );
+
+    const blobs = await source.listBlobs('');
+
+    expect(blobs).toHaveLength(1);
+    expect(blobs[0].metadata).toEqual({
+      source_registry: 'github.com/org/repo',
+      source_path: 'config/agents.yaml',
+    });
+  });
+
+  it('ignores an invalid sidecar file', async () => {
+    await writeFixture(tmpDir, 'a.txt', 'a');
+    await writeFixture(tmpDir, 'a.txt.meta.json', 'not json');
+
+    const blobs = await source.listBlobs('');
+    expect(blobs[0].metadata).toEqual({});
+  });
+
+  it('changes the ETag when the content changes', async () => {
+    await writeFixture(tmpDir, 'a.txt', 'one');
+    const [before] = await source.listBlobs('');
+
+    await writeFixture(tmpDir, 'a.txt', 'three');
+    const [after] = await source.listBlobs('');
+
+    expect(after.etag).not.toBe(before.etag);
+  });
+
+  it('downloads file content', async () => {
+    await writeFixture(tmpDir, 'dir/a.txt', 'hello');
+    const buffer = await source.downloadToBuffer('dir/a.txt');
+    expect(buffer.toString('utf-8')).toBe('hello');
+  });
+
+  it('throws SyncError for a missing blob', async () => {
+    await expect(source.downloadToBuffer('missing.txt')).rejects.toBeInstanceOf(SyncError);
+  });
+
+  it('throws PathTraversalError for names escaping the root', async () => {
+    await expect(source.downloadToBuffer('../outside.txt')).rejects.toBeInstanceOf(PathTraversalError);
+    await expect(source.downloadToBuffer('/etc/passwd')).rejects.toBeInstanceOf(PathTraversalError);
+  });
+
+  it('throws AzureConnectionError when the root directory does not exist', async () => {
+    const missing = new LocalDirectoryBlobSource(path.join(tmpDir, 'nope'), createMockLogger());
+    await expect(missing.listBlobs('')).rejects.toBeInstanceOf(AzureConnectionError);
+  });
+});
+
+describe('createBlobSource', () => {
+  it('selects the source from the URL style, preferring an injected source', () => {
+    const logger = createMockLogger();
+    const local = validateConfig({ AZURE_VENV: pathToFileURL(os.tmpdir()).href })!;
+    const azure = validateConfig({
+      AZURE_VENV: 'https://myaccount.blob.core.windows.net/c',
+      AZURE_VENV_SAS_TOKEN: 'sv=2020-08-04&sig=x',
+    })!;
+    const injected: BlobSource = {
+      listBlobs: async () => [],
+      downloadToBuffer: async () => Buffer.alloc(0),
+    };
+
+    expect(createBlobSource(local, logger)).toBeInstanceOf(LocalDirectoryBlobSource);
+    expect(createBlobSource(azure, logger)).toBeInstanceOf(AzureVenvBlobClient);
+    expect(createBlobSource(azure, logger, injected)).toBe(injected);
+  });
+});
+
+describe('initAzureVenv with a file:// AZURE_VENV', () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'local-init-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('syncs blobs and the remote .env from the directory without credentials', async () => {
+    const remoteDir = path.join(tmpDir, 'remote');
+    await writeFixture(remoteDir, '.env', 'LOCAL_SOURCE_TEST_VAR=from-directory');
+    await writeFixture(remoteDir, 'config/app.json', '{"ok":true}');
+    await writeFixture(remoteDir, 'config/app.json.meta.json', '{"source_registry":"reg"}');
+
+    process.env.AZURE_VENV = pathToFileURL(remoteDir).href;
+    delete process.env.AZURE_VENV_SAS_TOKEN;
+
+    const result = await initAzureVenv({ rootDir: tmpDir, logLevel: 'error' });
+
+    expect(result.attempted).toBe(true);
+    expect(result.remoteEnvLoaded).toBe(true);
+    expect(process.env.LOCAL_SOURCE_TEST_VAR).toBe('from-directory');
+    expect(result.blobs.map((b) => b.relativePath)).toEqual(['config/app.json']);
+    expect(result.blobs[0].sourceRegistry).toBe('reg');
+    expect(result.blobs[0].content.toString('utf-8')).toBe('{"ok":true}');
+  });
+});
@@ -0,0 +1,192 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { validateConfig } from '../src/config/validator.js';
+import { createFakeBlobSource, createTestHarness, FAKE_SAS_TOKEN } from '../src/testing/index.js';
+import type { FakeBlobSource, TestHarness } from '../src/testing/index.js';
+import type { AzureVenvSourceOptions } from '../src/config/types.js';
+import type { WatchChangeEvent } from '../src/types/index.js';
+import { ConfigurationError } from '../src/errors/index.js';
+
+const PRIMARY = {
+  AZURE_VENV: 'https://myaccount.blob.core.windows.net/mycontainer/app',
+  AZURE_VENV_SAS_TOKEN: 'sv=2022-11-02&ss=b&srt=co&sp=rl&sig=abc123',
+};
+
+describe('additional source configuration', () => {
+  it('reads the numbered sources in ascending order with their defaults', () => {
+    const config = validateConfig({
+      ...PRIMARY,
+      AZURE_VENV_2: 'https://other.blob.core.windows.net/shared/base',
+      AZURE_VENV_SAS_TOKEN_2: '?sv=2022-11-02&sig=two',
+      AZURE_VENV_NAME_2: 'shared',
+      AZURE_VENV_1: 'https://myaccount.blob.core.windows.net/team',
+      AZURE_VENV_SAS_TOKEN_1: 'sv=2022-11-02&sig=one',
+      AZURE_VENV_ENV_FILES_1: 'team/.env,team/.env.prod',
+    });
+
+    expect(config!.sourceName).toBe('');
+    expect(config!.additionalSources.map((s) => s.name)).toEqual(['source1', 'shared']);
+    expect(config!.additionalSources[0].envFiles).toEqual(['team/.env', 'team/.env.prod']);
+    expect(config!.additionalSources[1].envFiles).toEqual(['base/.env']);
+    expect(config!.additionalSources[1].sasToken).toBe('sv=2022-11-02&sig=two');
+  });
+
+  it('lets options.sources replace the numbered sources', () => {
+    const config = validateConfig(
+      { ...PRIMARY, AZURE_VENV_1: 'https://myaccount.blob.core.windows.net/team', AZURE_VENV_SAS_TOKEN_1: 'sig=one' },
+      { sources: [{ name: 'assets', url: 'https://myaccount.blob.core.windows.net/assets', sasToken: 'sig=a' }] },
+    );
+
+    expect(config!.additionalSources.map((s) => s.name)).toEqual(['assets']);
+    expect(validateConfig(PRIMARY, { sources: [] })!.additionalSources).toEqual([]);
+  });
+
+  it('rejects incomplete, misnamed and duplicate sources', () => {
+    expect(() => validateConfig({ ...PRIMARY, AZURE_VENV_1: 'https://myaccount.blob.core.windows.net/team' }))
+      .toThrow(/AZURE_VENV_SAS_TOKEN_1 is missing/);
+    expect(() => validateConfig({ ...PRIMARY, AZURE_VENV_SAS_TOKEN_1: 'sig=one' }))
+      .toThrow(/AZURE_VENV_1 is missing/);
+    expect(() => validateConfig({ AZURE_VENV_1: 'https://myaccount.blob.core.windows.net/team' }))
+      .toThrow(/AZURE_VENV is missing/);
+
+    const source = { url: 'https://myaccount.blob.core.windows.net/team', sasToken: 'sig=one' };
+    expect(() => validateConfig(PRIMARY, { sources: [{ ...source, name: 'a/b' }] })).toThrow(ConfigurationError);
+    expect(() => validateConfig(PRIMARY, { sources: [{ ...source, name: 'a' }, { ...source, name: 'a' }] }))
+      .toThrow(/used more than once/);
+  });
+});
+
+describe('initAzureVenv with multiple sources', () => {
+  let harness: TestHarness;
+  let team: FakeBlobSource;
+  let shared: FakeBlobSource;
+  let sources: AzureVenvSourceOptions[];
+
+  beforeEach(() => {
+    harness = createTestHarness({
+      prefix: 'app/',
+      blobs: { 'app/.env': 'MULTI_LEVEL=app', 'app/config.json': '{"app":true}' },
+    });
+    team = createFakeBlobSource({
+      blobs: { 'team/.env': 'MULTI_LEVEL=team\nMULTI_TEAM=yes', 'team/config.json': '{"team":true}' },
+    });
+    shared = createFakeBlobSource({
+      blobs: { 'base/.env': 'MULTI_LEVEL=shared\nMULTI_TEAM=no\nMULTI_SHARED=yes', 'base/logo.png': 'png' },
+    });
+    sources = [
+      { name: 'team', url: 'https://team.blob.core.windows.net/c/team', sasToken: FAKE_SAS_TOKEN, source: team },
+      { name: 'shared', url: 'https://shared.blob.core.windows.net/c/base', sasToken: FAKE_SAS_TOKEN, source: shared },
+    ];
+  });
+
+  it('lets AZURE_VENV win over earlier sources, and earlier sources over later ones', async () => {
+    const result = await harness.initAzureVenv({ sources });
+
+    expect(process.env.MULTI_LEVEL).toBe('app');
+    expect(process.env.MULTI_TEAM).toBe('yes');
+    expect(process.env.MULTI_SHARED).toBe('yes');
+    expect(result.envDetails.remoteFiles).toEqual({
+      MULTI_LEVEL: 'app/.env',
+      MULTI_TEAM: 'team:team/.env',
+      MULTI_SHARED: 'shared:base/.env',
+    });
+  });
+
+  it('namespaces the blobs of each additional source under its name', async () => {
+    const result = await harness.initAzureVenv({ sources });
+
+    expect(result.blobs.map((b) => [b.relativePath, b.sourceName])).toEqual([
+      ['config.json', undefined],
+      ['shared/logo.png', 'shared'],
+      ['team/config.json', 'team'],
+    ]);
+    expect(result.fileTree.map((node) => node.name)).toEqual(['shared', 'team', 'config.json']);
+  });
+
+  it('reports per-source statistics and qualifies failed blobs by source', async () => {
+    team.failNext('download', 'timeout', { blobName: 'team/config.json', times: 10 });
+
+    const result = await harness.initAzureVenv({ sources, maxRetries: 0 });
+
+    expect(result.sources.map(({ name, downloaded, failed, remoteEnvLoaded }) => ({ name, downloaded, failed, remoteEnvLoaded })))
+      .toEqual([
+        { name: '', downloaded: 1, failed: 0, remoteEnvLoaded: true },
+        { name: 'team', downloaded: 0, failed: 1, remoteEnvLoaded: true },
+        { name: 'shared', downloaded: 1, failed: 0, remoteEnvLoaded: true },
+      ]);
+    expect(result.sources[2].url).toBe('https://shared.blob.core.windows.net/c/base/');
+    expect(result.downloaded).toBe(2);
+    expect(result.failedBlobs).toEqual(['team:team/config.json']);
+  });
+
+  it('shares one memory budget across all sources', async () => {
+    // 12 bytes from AZURE_VENV fit; 13 more from the team source would exceed 20 bytes together
+    const result = await harness.initAzureVenv({ sources, memoryBudget: 20 });
+
+    expect(result.blobs.map((b) => b.relativePath)).toEqual(['config.json', 'shared/logo.png']);
+    expect(result.skippedBlobs.map((b) => [b.relativePath, b.reason])).toEqual([
+      ['team/config.json', 'memory-budget'],
+    ]);
+  });
+
+  it('syncs AZURE_VENV alone without additional sources', async () => {
+    const result = await harness.initAzureVenv();
+
+    expect(result.sources.map((s) => s.name)).toEqual(['']);
+    expect(result.blobs.every((b) => b.sourceName === undefined)).toBe(true);
+  });
+
+  it('polls the additional sources in watch mode', async () => {
+    const changes: WatchChangeEvent[] = [];
+    const watch = await harness.watchAzureVenv({
+      sources,
+      pollInterval: 5000,
+      onChange: (batch) => {
+        changes.push(...batch);
+      },
+    });
+
+    team.setBlob('team/config.json', '{"team":2}');
+    team.setBlob('team/.env', 'MULTI_LEVEL=team\nMULTI_TEAM=changed');
+    shared.deleteBlob('base/logo.png');
+    await harness.clock.tick(5000);
+    watch.stop();
+
+    const snapshot = watch.getCurrentSnapshot();
+    expect(snapshot.version).toBe(1);
+    expect(snapshot.blobs.map((b) => [b.relativePath, b.content.toString()])).toEqual([
+      ['config.json', '{"app":true}'],
+      ['team/config.json', '{"team":2}'],
+    ]);
+    expect(changes.map(({ type, blobName, relativePath }) => [type, blobName, relativePath])).toEqual([
+      ['modified', 'team:team/config.json', 'team/config.json'],
+      ['deleted', 'shared:base/logo.png', 'shared/logo.png'],
+      ['modified', 'team:team/.env', 'team/.env'],
+    ]);
+
+    // AZURE_VENV still wins over the team source; the team source still wins over the shared one
+    expect(process.env.MULTI_LEVEL).toBe('app');
+    expect(process.env.MULTI_TEAM).toBe('changed');
+    expect(snapshot.envDetails.remoteFiles).toEqual({
+      MULTI_LEVEL: 'app/.env',
+      MULTI_TEAM: 'team:team/.env',
+      MULTI_SHARED: 'shared:base/.env',
+    });
+  });
+
+  it('keeps blobs of the same name in different sources apart in watch mode', async () => {
+    const mirror = createFakeBlobSource({ blobs: { 'app/config.json': '{"mirror":1}' } });
+    const watch = await harness.watchAzureVenv({
+      sources: [{ name: 'mirror', url: 'https://mirror.blob.core.windows.net/c/app', sasToken: FAKE_SAS_TOKEN, source: mirror }],
+      pollInterval: 5000,
+    });
+
+    mirror.setBlob('app/config.json', '{"mirror":2}');
+    await harness.clock.tick(5000);
+    watch.stop();
+
+    expect(watch.getCurrentSnapshot().blobs.map((b) => [b.relativePath, b.content.toString()])).toEqual([
+      ['config.json', '{"app":true}'],
+      ['mirror/config.json', '{"mirror":2}'],
+    ]);
+  });
+});
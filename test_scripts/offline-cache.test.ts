@@ -0,0 +1,194 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { OfflineCache } from '../src/cache/offline-cache.js';
+import { createTestHarness } from '../src/testing/index.js';
+import type { TestHarness } from '../src/testing/index.js';
+import type { ParsedBlobUrl } from '../src/config/types.js';
+import type { BlobContent } from '../src/types/index.js';
+import type { Logger } from '../src/logging/logger.js';
+import { AzureConnectionError } from '../src/errors/index.js';
+
+function createMockLogger(): Logger {
+  return {
+    debug: () => {},
+    info: () => {},
+    warn: () => {},
+    error: () => {},
+  };
+}
+
+const BLOB_URL: ParsedBlobUrl = {
+  accountUrl: 'https://myaccount.blob.core.windows.net',
+  accountName: 'myaccount',
+  containerName: 'mycontainer',
+  prefix: 'prod/',
+  style: 'standard',
+};
+
+const BLOB: BlobContent = {
+  blobName: 'prod/app.json',
+  relativePath: 'app.json',
+  content: Buffer.from('{"secret":"s3cr3t-value"}'),
+  size: 25,
+  etag: '"0x1"',
+  lastModified: '2026-01-01T00:00:00.000Z',
+  sourceRegistry: 'reg',
+};
+
+describe('OfflineCache', () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'offline-cache-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  function cache(key = 'passphrase', maxAge: number | null = null): OfflineCache {
+    return new OfflineCache({ dir: path.join(tmpDir, 'cache'), key, maxAge }, BLOB_URL, createMockLogger());
+  }
+
+  it('round-trips remote env files, ETags and blobs', async () => {
+    const remoteEnvFiles = [
+      { blobName: 'shared/.env', env: { API_KEY: 'shared' } },
+      { blobName: 'prod/.env', env: { API_KEY: 'k' }, etag: '"env1"' },
+    ];
+    await cache().save({ remoteEnvFiles, blobs: [BLOB] }, 1000);
+
+    const loaded = await cache().load(5000);
+
+    expect(loaded).not.toBeNull();
+    expect(loaded!.savedAt).toBe(1000);
+    expect(loaded!.remoteEnvFiles).toEqual(remoteEnvFiles);
+    expect(loaded!.blobs).toEqual([BLOB]);
+  });
+
+  it('encrypts the file at rest with owner-only permissions', async () => {
+    const store = cache();
+    await store.save({ remoteEnvFiles: [{ blobName: 'prod/.env', env: { API_KEY: 'plain-api-key' } }], blobs: [BLOB] });
+
+    const raw = await fs.readFile(store.filePath);
+    expect(raw.includes('plain-api-key')).toBe(false);
+    expect(raw.includes('s3cr3t-value')).toBe(false);
+    expect(raw.includes(BLOB.content.toString('base64'))).toBe(false);
+
+    const stats = await fs.stat(store.filePath);
+    expect(stats.mode & 0o777).toBe(0o600);
+  });
+
+  it('returns null for a missing cache, a wrong key or a corrupted file', async () => {
+    expect(await cache().load()).toBeNull();
+
+    const store = cache();
+    await store.save({ remoteEnvFiles: [], blobs: [BLOB] });
+    expect(await cache('other-passphrase').load()).toBeNull();
+
+    const raw = await fs.readFile(store.filePath);
+    raw[raw.length - 1] ^= 0xff;
+    await fs.writeFile(store.filePath, raw);
+    expect(await cache().load()).toBeNull();
+  });
+
+  it('ignores entries older than the maximum age', async () => {
+    await cache('passphrase', 1000).save({ remoteEnvFiles: [], blobs: [] }, 0);
+
+    expect(await cache('passphrase', 1000).load(1000)).not.toBeNull();
+    expect(await cache('passphrase', 1000).load(1001)).toBeNull();
+  });
+
+  it('keeps one file per source', () => {
+    const other = new OfflineCache(
+      { dir: tmpDir, key: 'k', maxAge: null },
+      { ...BLOB_URL, prefix: 'dev/' },
+      createMockLogger(),
+    );
+    expect(path.basename(other.filePath)).not.toBe(path.basename(cache().filePath));
+  });
+});
+
+describe('initAzureVenv offline cache fallback', () => {
+  let tmpDir: string;
+  let harness: TestHarness;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'offline-fallback-test-'));
+    harness = createTestHarness({
+      prefix: 'prod/',
+      blobs: { 'prod/.env': 'CACHE_TEST_VAR=remote', 'prod/app.json': '{"v":1}' },
+    });
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  const cacheOptions = (): { cacheDir: string; cacheKey: string } => ({
+    cacheDir: path.join(tmpDir, 'cache'),
+    cacheKey: 'passphrase',
+  });
+
+  it('serves the last successful sync when the source is unreachable', async () => {
+    const first = await harness.initAzureVenv(cacheOptions());
+    expect(first.servedFromCache).toBe(false);
+    expect(first.cacheAge).toBeNull();
+
+    harness.restoreEnv();
+    harness.source.failNext('list', 'timeout');
+    harness.source.failNext('download', 'timeout');
+
+    const second = await harness.initAzureVenv(cacheOptions());
+
+    expect(second.servedFromCache).toBe(true);
+    expect(second.cacheAge).toBeGreaterThanOrEqual(0);
+    expect(second.remoteEnvLoaded).toBe(true);
+    expect(second.blobs.map((b) => b.content.toString())).toEqual(['{"v":1}']);
+    expect(process.env.CACHE_TEST_VAR).toBe('remote');
+  });
+
+  it('returns the failed result when no cache entry exists', async () => {
+    harness.source.failNext('list', 'timeout');
+
+    const result = await harness.initAzureVenv(cacheOptions());
+
+    expect(result.servedFromCache).toBe(false);
+    expect(result.blobs).toEqual([]);
+  });
+
+  it('still throws with failOnError=true', async () => {
+    await harness.initAzureVenv(cacheOptions());
+    harness.source.failNext('list', 'timeout');
+
+    await expect(harness.initAzureVenv({ ...cacheOptions(), failOnError: true })).rejects.toBeInstanceOf(
+      AzureConnectionError,
+    );
+  });
+
+  it('does not replace the cache with an incomplete sync', async () => {
+    await harness.initAzureVenv(cacheOptions());
+
+    harness.source.setBlob('prod/app.json', '{"v":2}');
+    harness.source.failNext('download', 'timeout', { blobName: 'prod/app.json' });
+    await harness.initAzureVenv(cacheOptions());
+
+    harness.source.failNext('list', 'timeout');
+    const fallback = await harness.initAzureVenv(cacheOptions());
+    expect(fallback.blobs.map((b) => b.content.toString())).toEqual(['{"v":1}']);
+  });
+
+  it('watch mode leaves the cache state after the first successful poll', async () => {
+    await harness.initAzureVenv(cacheOptions());
+    harness.source.failNext('list', 'timeout');
+
+    const watch = await harness.watchAzureVenv({ ...cacheOptions(), pollInterval: 5000 });
+    expect(watch.getCurrentSnapshot().servedFromCache).toBe(true);
+
+    await harness.clock.tick(5000);
+    expect(watch.getCurrentSnapshot().servedFromCache).toBe(false);
+    expect(watch.getCurrentSnapshot().cacheAge).toBeNull();
+    watch.stop();
+  });
+});
@@ -0,0 +1,167 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { applyPrecedence } from '../src/env/precedence.js';
+import { validateConfig } from '../src/config/validator.js';
+import { createTestHarness } from '../src/testing/index.js';
+import type { TestHarness } from '../src/testing/index.js';
+import type { Logger } from '../src/logging/logger.js';
+import type { EnvPrecedence, WatchResult } from '../src/types/index.js';
+import { ConfigurationError } from '../src/errors/index.js';
+
+const logger: Logger = { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} };
+
+describe('applyPrecedence with a configured order', () => {
+  it('lets local override remote and OS with local,remote,os', () => {
+    process.env.ORDER_SHARED = 'os';
+    process.env.ORDER_OS_REMOTE = 'os';
+    const precedence: EnvPrecedence = { order: ['local', 'remote', 'os'], overrides: {} };
+
+    const result = applyPrecedence(
+      new Set(['ORDER_SHARED', 'ORDER_OS_REMOTE']),
+      { ORDER_SHARED: 'local' },
+      { ORDER_SHARED: 'remote', ORDER_OS_REMOTE: 'remote' },
+      logger,
+      [],
+      { precedence },
+    );
+
+    expect(process.env.ORDER_SHARED).toBe('local');
+    expect(process.env.ORDER_OS_REMOTE).toBe('remote');
+    expect(result.sources).toEqual({ ORDER_SHARED: 'local', ORDER_OS_REMOTE: 'remote' });
+    expect(result.localKeys).toEqual(['ORDER_SHARED']);
+    expect(result.remoteKeys).toEqual(['ORDER_SHARED', 'ORDER_OS_REMOTE']);
+    expect(result.osKeys).toEqual([]);
+  });
+
+  it('applies per-key orders over the global order', () => {
+    process.env.ORDER_PINNED = 'os';
+    const precedence: EnvPrecedence = {
+      order: ['remote', 'os', 'local'],
+      overrides: { ORDER_PINNED: ['os', 'remote', 'local'], ORDER_LOCAL: ['local', 'os', 'remote'] },
+    };
+
+    const result = applyPrecedence(
+      new Set(['ORDER_PINNED']),
+      { ORDER_LOCAL: 'local', ORDER_OTHER: 'local' },
+      { ORDER_PINNED: 'remote', ORDER_LOCAL: 'remote', ORDER_OTHER: 'remote' },
+      logger,
+      [],
+      { precedence },
+    );
+
+    expect(result.sources).toEqual({ ORDER_PINNED: 'os', ORDER_LOCAL: 'local', ORDER_OTHER: 'remote' });
+    expect(process.env.ORDER_PINNED).toBe('os');
+    expect(result.osKeys).toEqual(['ORDER_PINNED']);
+  });
+
+  it('restores the captured OS value when an outranking remote key disappears', () => {
+    process.env.ORDER_RESTORE = 'os';
+    process.env.ORDER_RESTORE_LOCAL = 'os';
+    const osEnv = { ...process.env };
+    const osSnapshot = new Set(['ORDER_RESTORE', 'ORDER_RESTORE_LOCAL']);
+    const options = { precedence: { order: ['remote', 'os', 'local'], overrides: {} } as EnvPrecedence, osEnv };
+    const localEnv = { ORDER_RESTORE_LOCAL: 'local' };
+
+    const first = applyPrecedence(
+      osSnapshot,
+      localEnv,
+      { ORDER_RESTORE: 'remote', ORDER_RESTORE_LOCAL: 'remote' },
+      logger,
+      [],
+      options,
+    );
+    expect(process.env.ORDER_RESTORE).toBe('remote');
+
+    const second = applyPrecedence(osSnapshot, localEnv, {}, logger, first.remoteKeys, options);
+
+    expect(process.env.ORDER_RESTORE).toBe('os');
+    expect(process.env.ORDER_RESTORE_LOCAL).toBe('os');
+    expect(second.sources).toEqual({ ORDER_RESTORE_LOCAL: 'os' });
+    expect(second.restoredKeys).toEqual(['ORDER_RESTORE', 'ORDER_RESTORE_LOCAL']);
+    expect(second.removedKeys).toEqual([]);
+  });
+});
+
+describe('AZURE_VENV_PRECEDENCE configuration', () => {
+  const env = {
+    AZURE_VENV: 'https://myaccount.blob.core.windows.net/mycontainer',
+    AZURE_VENV_SAS_TOKEN: 'sv=2022-11-02&sig=abc123',
+  };
+
+  it('defaults to os,remote,local without overrides', () => {
+    expect(validateConfig(env)!.precedence).toEqual({ order: ['os', 'remote', 'local'], overrides: {} });
+  });
+
+  it('reads the order and the per-key overrides from env vars, options winning', () => {
+    const config = validateConfig({
+      ...env,
+      AZURE_VENV_PRECEDENCE: 'local, remote, os',
+      AZURE_VENV_PRECEDENCE_OVERRIDES: 'DB_URL=os,remote,local; API_KEY=remote,os,local;',
+    });
+    expect(config!.precedence).toEqual({
+      order: ['local', 'remote', 'os'],
+      overrides: { DB_URL: ['os', 'remote', 'local'], API_KEY: ['remote', 'os', 'local'] },
+    });
+
+    const overridden = validateConfig(
+      { ...env, AZURE_VENV_PRECEDENCE: 'local,remote,os', AZURE_VENV_PRECEDENCE_OVERRIDES: 'DB_URL=os,remote,local' },
+      { precedence: ['remote', 'os', 'local'], precedenceOverrides: { PORT: ['local', 'os', 'remote'] } },
+    );
+    expect(overridden!.precedence).toEqual({
+      order: ['remote', 'os', 'local'],
+      overrides: { PORT: ['local', 'os', 'remote'] },
+    });
+  });
+
+  it('rejects orders that do not list each tier once', () => {
+    expect(() => validateConfig({ ...env, AZURE_VENV_PRECEDENCE: 'local,remote' })).toThrow(/os, remote and local once/);
+    expect(() => validateConfig({ ...env, AZURE_VENV_PRECEDENCE: 'os,os,local' })).toThrow(ConfigurationError);
+    expect(() => validateConfig({ ...env, AZURE_VENV_PRECEDENCE_OVERRIDES: 'DB_URL' })).toThrow(/KEY=os,remote,local/);
+    expect(() => validateConfig({ ...env, AZURE_VENV_PRECEDENCE_OVERRIDES: 'A=os,remote,local;A=local,remote,os' }))
+      .toThrow(/more than once/);
+
+    let error: unknown;
+    try {
+      validateConfig(env, { precedenceOverrides: { PORT: ['local', 'cloud', 'os'] as never } });
+    } catch (e: unknown) {
+      error = e;
+    }
+    expect((error as ConfigurationError).parameter).toBe('precedenceOverrides.PORT');
+  });
+});
+
+describe('configured precedence during sync', () => {
+  let harness: TestHarness;
+  let watch: WatchResult | undefined;
+
+  beforeEach(() => {
+    process.env.SYNC_ORDER_OS = 'os';
+    harness = createTestHarness({
+      prefix: 'prod/',
+      blobs: { 'prod/.env': 'SYNC_ORDER_OS=remote\nSYNC_ORDER_REMOTE=remote' },
+    });
+  });
+
+  afterEach(() => {
+    watch?.stop();
+    watch = undefined;
+  });
+
+  it('lets remote override OS variables', async () => {
+    const result = await harness.initAzureVenv({ precedence: ['remote', 'os', 'local'] });
+
+    expect(process.env.SYNC_ORDER_OS).toBe('remote');
+    expect(result.envDetails.sources.SYNC_ORDER_OS).toBe('remote');
+    expect(result.envDetails.remoteFiles.SYNC_ORDER_OS).toBe('prod/.env');
+  });
+
+  it('restores the OS value when watch mode re-applies a remote .env without the key', async () => {
+    watch = await harness.watchAzureVenv({ precedence: ['remote', 'os', 'local'], pollInterval: 5000 });
+    expect(process.env.SYNC_ORDER_OS).toBe('remote');
+
+    harness.source.setBlob('prod/.env', 'SYNC_ORDER_REMOTE=remote');
+    await harness.clock.tick(5000);
+
+    expect(process.env.SYNC_ORDER_OS).toBe('os');
+    expect(watch.getCurrentSnapshot().envDetails.sources).toEqual({ SYNC_ORDER_REMOTE: 'remote' });
+  });
+});
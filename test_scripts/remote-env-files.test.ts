@@ -0,0 +1,109 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mergeRemoteEnvFiles } from '../src/env/remote-files.js';
+import { createTestHarness } from '../src/testing/index.js';
+import type { TestHarness } from '../src/testing/index.js';
+import type { WatchChangeEvent, WatchResult } from '../src/types/index.js';
+
+describe('mergeRemoteEnvFiles', () => {
+  it('lets later files override earlier ones and records the winning file', () => {
+    const merged = mergeRemoteEnvFiles([
+      { blobName: 'shared/.env', env: { LEVEL: 'shared', SHARED_ONLY: '1' } },
+      { blobName: 'prod/.env', env: { LEVEL: 'prod' } },
+      { blobName: 'prod/.env.eu', env: { REGION: 'eu' } },
+    ]);
+
+    expect(merged.env).toEqual({ LEVEL: 'prod', SHARED_ONLY: '1', REGION: 'eu' });
+    expect(merged.origins).toEqual({ LEVEL: 'prod/.env', SHARED_ONLY: 'shared/.env', REGION: 'prod/.env.eu' });
+  });
+
+  it('returns an empty tier without files', () => {
+    expect(mergeRemoteEnvFiles([])).toEqual({ env: {}, origins: {} });
+  });
+});
+
+describe('layered remote .env files', () => {
+  const ENV_FILES = ['shared/.env', 'prod/.env', 'prod/.env.eu'];
+  let harness: TestHarness;
+  let watch: WatchResult | undefined;
+
+  afterEach(() => {
+    watch?.stop();
+    watch = undefined;
+  });
+
+  it('merges the files in order and attributes each remote key to its file', async () => {
+    harness = createTestHarness({
+      prefix: 'prod/',
+      blobs: {
+        'shared/.env': 'LAYER_LEVEL=shared\nLAYER_SHARED=yes',
+        'prod/.env': 'LAYER_LEVEL=prod',
+        'prod/.env.eu': 'LAYER_REGION=eu',
+        'prod/app.json': '{}',
+      },
+    });
+
+    const result = await harness.initAzureVenv({ envFiles: ENV_FILES });
+
+    expect(result.remoteEnvLoaded).toBe(true);
+    expect(process.env.LAYER_LEVEL).toBe('prod');
+    expect(process.env.LAYER_SHARED).toBe('yes');
+    expect(result.envDetails.remoteFiles).toEqual({
+      LAYER_LEVEL: 'prod/.env',
+      LAYER_SHARED: 'shared/.env',
+      LAYER_REGION: 'prod/.env.eu',
+    });
+    // The .env files under the prefix are not synced as blobs
+    expect(result.blobs.map((b) => b.relativePath)).toEqual(['app.json']);
+    expect(result.excluded).toBe(0);
+  });
+
+  it('skips files that do not exist', async () => {
+    harness = createTestHarness({
+      prefix: 'prod/',
+      blobs: { 'prod/.env': 'LAYER_LEVEL=prod' },
+    });
+
+    const result = await harness.initAzureVenv({ envFiles: ENV_FILES });
+
+    expect(result.remoteEnvLoaded).toBe(true);
+    expect(result.envDetails.remoteFiles).toEqual({ LAYER_LEVEL: 'prod/.env' });
+  });
+
+  it('re-merges the files in watch mode when a file outside the prefix changes or one is deleted', async () => {
+    harness = createTestHarness({
+      prefix: 'prod/',
+      blobs: {
+        'shared/.env': 'LAYER_LEVEL=shared\nLAYER_SHARED=yes',
+        'prod/.env': 'LAYER_LEVEL=prod',
+      },
+    });
+    const batches: WatchChangeEvent[][] = [];
+    watch = await harness.watchAzureVenv({
+      envFiles: ENV_FILES,
+      pollInterval: 5000,
+      onChange: (changes) => {
+        batches.push([...changes]);
+      },
+    });
+
+    // Unchanged files are not reported
+    await harness.clock.tick(5000);
+    expect(batches).toHaveLength(0);
+
+    harness.source.setBlob('shared/.env', 'LAYER_LEVEL=shared\nLAYER_SHARED=updated');
+    await harness.clock.tick(5000);
+
+    expect(batches[0].map((c) => [c.type, c.blobName])).toEqual([['modified', 'shared/.env']]);
+    expect(process.env.LAYER_SHARED).toBe('updated');
+
+    harness.source.deleteBlob('prod/.env');
+    await harness.clock.tick(5000);
+
+    expect(batches[1].map((c) => [c.type, c.blobName])).toEqual([['deleted', 'prod/.env']]);
+    expect(process.env.LAYER_LEVEL).toBe('shared');
+    expect(watch.getCurrentSnapshot().envDetails.remoteFiles).toEqual({
+      LAYER_LEVEL: 'shared/.env',
+      LAYER_SHARED: 'shared/.env',
+    });
+  });
+});
@@ -0,0 +1,179 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { FileSecretResolver, parseSecretReference, resolveSecretReferences } from '../src/env/secrets.js';
+import { createMemorySecretResolver, createTestHarness } from '../src/testing/index.js';
+import type { MemorySecretResolver, TestHarness } from '../src/testing/index.js';
+import type { Logger } from '../src/logging/logger.js';
+import type { WatchResult } from '../src/types/index.js';
+import { SecretResolutionError } from '../src/errors/index.js';
+
+describe('parseSecretReference', () => {
+  it('parses Key Vault references with an optional version', () => {
+    expect(parseSecretReference('@keyvault(name=myvault;secret=db-password)')).toEqual({
+      provider: 'keyvault',
+      name: 'myvault/db-password',
+      raw: '@keyvault(name=myvault;secret=db-password)',
+    });
+    expect(parseSecretReference('@keyvault(secret=api-key; name=myvault; version=abc123)')).toMatchObject({
+      name: 'myvault/api-key',
+      version: 'abc123',
+    });
+  });
+
+  it('parses secretref URLs', () => {
+    expect(parseSecretReference('secretref://vault/app/db-password')).toEqual({
+      provider: 'vault',
+      name: 'app/db-password',
+      raw: 'secretref://vault/app/db-password',
+    });
+  });
+
+  it('returns null for plain values', () => {
+    expect(parseSecretReference('plain')).toBeNull();
+    expect(parseSecretReference('https://example.com/@keyvault(name=a;secret=b)')).toBeNull();
+  });
+
+  it('rejects malformed references', () => {
+    expect(() => parseSecretReference('@keyvault(name=myvault)')).toThrow(/required/);
+    expect(() => parseSecretReference('@keyvault(name=myvault;secret=a;vault=b)')).toThrow(/invalid parameter/);
+    expect(() => parseSecretReference('@keyvault(name=myvault;secret=a')).toThrow(/parenthesis/);
+    expect(() => parseSecretReference('secretref://vault')).toThrow(/secretref/);
+  });
+});
+
+describe('resolveSecretReferences', () => {
+  let logger: Logger;
+  let resolver: MemorySecretResolver;
+
+  beforeEach(() => {
+    logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    resolver = createMemorySecretResolver({ 'keyvault/myvault/db-password': 's3cret', 'vault/api-key': 'k3y' });
+  });
+
+  it('replaces references and reports the resolved keys', async () => {
+    const resolved = await resolveSecretReferences(
+      { DB_PASSWORD: '@keyvault(name=myvault;secret=db-password)', API_KEY: 'secretref://vault/api-key', HOST: 'db' },
+      resolver,
+      logger,
+      { failOnError: false },
+    );
+
+    expect(resolved.env).toEqual({ DB_PASSWORD: 's3cret', API_KEY: 'k3y', HOST: 'db' });
+    expect(resolved.secretKeys).toEqual(['API_KEY', 'DB_PASSWORD']);
+  });
+
+  it('leaves out unresolvable keys and never logs secret values', async () => {
+    const resolved = await resolveSecretReferences(
+      { DB_PASSWORD: '@keyvault(name=myvault;secret=db-password)', MISSING: 'secretref://vault/missing' },
+      resolver,
+      logger,
+      { failOnError: false },
+    );
+
+    expect(resolved.env).toEqual({ DB_PASSWORD: 's3cret' });
+    expect(logger.error).toHaveBeenCalledWith(expect.stringContaining("'MISSING' (secretref://vault/missing)"));
+    const logged = [logger.debug, logger.info, logger.error].flatMap((fn) => vi.mocked(fn).mock.calls.flat());
+    expect(logged.join('\n')).not.toContain('s3cret');
+  });
+
+  it('throws SecretResolutionError when failOnError is true', async () => {
+    const resolution = resolveSecretReferences({ MISSING: 'secretref://vault/missing' }, resolver, logger, {
+      failOnError: true,
+    });
+
+    await expect(resolution).rejects.toBeInstanceOf(SecretResolutionError);
+    await expect(resolution).rejects.toMatchObject({ key: 'MISSING', reference: 'secretref://vault/missing' });
+  });
+
+  it('treats a reference as unresolvable without a resolver', async () => {
+    await expect(
+      resolveSecretReferences({ API_KEY: 'secretref://vault/api-key' }, undefined, logger, { failOnError: true }),
+    ).rejects.toThrow(/no secretResolver/);
+  });
+});
+
+describe('FileSecretResolver', () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'file-secrets-test-'));
+    await fs.mkdir(path.join(tmpDir, 'keyvault', 'myvault'), { recursive: true });
+    await fs.writeFile(path.join(tmpDir, 'keyvault', 'myvault', 'db-password'), 's3cret\n', 'utf-8');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('reads one file per secret without the trailing newline', async () => {
+    const resolver = new FileSecretResolver(tmpDir);
+
+    await expect(resolver.resolve(parseSecretReference('@keyvault(name=myvault;secret=db-password)')!))
+      .resolves.toBe('s3cret');
+    await expect(resolver.resolve(parseSecretReference('secretref://keyvault/myvault/missing')!)).rejects.toThrow();
+  });
+
+  it('refuses names that leave the root directory', async () => {
+    const resolver = new FileSecretResolver(path.join(tmpDir, 'keyvault'));
+
+    await expect(resolver.resolve(parseSecretReference('secretref://myvault/../../etc/passwd')!))
+      .rejects.toThrow(/outside/);
+  });
+});
+
+describe('secret references in remote .env files', () => {
+  let harness: TestHarness;
+  let resolver: MemorySecretResolver;
+  let watch: WatchResult | undefined;
+
+  beforeEach(() => {
+    harness = createTestHarness({
+      prefix: 'prod/',
+      blobs: {
+        'prod/.env': 'SECRET_DB_PASSWORD=@keyvault(name=myvault;secret=db-password)\nSECRET_HOST=db.internal',
+      },
+    });
+    resolver = createMemorySecretResolver({ 'keyvault/myvault/db-password': 's3cret' });
+  });
+
+  afterEach(() => {
+    watch?.stop();
+    watch = undefined;
+  });
+
+  it('applies resolved secrets and marks their keys as secret', async () => {
+    const result = await harness.initAzureVenv({ secretResolver: resolver });
+
+    expect(process.env.SECRET_DB_PASSWORD).toBe('s3cret');
+    expect(result.envDetails.sources.SECRET_DB_PASSWORD).toBe('remote');
+    expect(result.envDetails.secretKeys).toEqual(['SECRET_DB_PASSWORD']);
+  });
+
+  it('fails the sync on an unresolvable reference only when failOnError is true', async () => {
+    resolver.deleteSecret('keyvault/myvault/db-password');
+
+    await expect(harness.initAzureVenv({ secretResolver: resolver, failOnError: true }))
+      .rejects.toBeInstanceOf(SecretResolutionError);
+
+    const result = await harness.initAzureVenv({ secretResolver: resolver });
+    expect(process.env.SECRET_DB_PASSWORD).toBeUndefined();
+    expect(process.env.SECRET_HOST).toBe('db.internal');
+    expect(result.envDetails.secretKeys).toEqual([]);
+  });
+
+  it('resolves the references again when watch mode re-applies the remote .env', async () => {
+    watch = await harness.watchAzureVenv({ secretResolver: resolver, pollInterval: 5000 });
+
+    resolver.setSecret('keyvault/myvault/api-key', 'k3y');
+    harness.source.setBlob(
+      'prod/.env',
+      'SECRET_DB_PASSWORD=@keyvault(name=myvault;secret=db-password)\nSECRET_API_KEY=secretref://keyvault/myvault/api-key',
+    );
+    await harness.clock.tick(5000);
+
+    expect(process.env.SECRET_API_KEY).toBe('k3y');
+    expect(watch.getCurrentSnapshot().envDetails.secretKeys).toEqual(['SECRET_API_KEY', 'SECRET_DB_PASSWORD']);
+  });
+});
@@ -0,0 +1,26 @@
+import { beforeEach, afterEach } from 'vitest';
+import { bindEnvDetails } from '../src/env/accessor.js';
+import { NO_OP_SYNC_RESULT } from '../src/types/index.js';
+
+/**
+ * Vitest setup file: every test starts from the process.env it found and leaves it as it was.
+ *
+ * Syncs apply remote variables to process.env and tests set AZURE_VENV_* variables directly;
+ * both are undone after each test, after the test file's own afterEach hooks, and the
+ * exported env accessor is reset to read process.env alone.
+ */
+let savedEnv: NodeJS.ProcessEnv = {};
+
+beforeEach(() => {
+  savedEnv = { ...process.env };
+});
+
+afterEach(() => {
+  for (const key of Object.keys(process.env)) {
+    if (!(key in savedEnv)) {
+      delete process.env[key];
+    }
+  }
+  Object.assign(process.env, savedEnv);
+  bindEnvDetails(NO_OP_SYNC_RESULT.envDetails);
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { createTestHarness } from '../src/testing/index.js';
+import type { TestHarness } from '../src/testing/index.js';
+
+describe('blob size limits and memory budget', () => {
+  let harness: TestHarness;
+
+  it('skips blobs over the maximum blob size without downloading them', async () => {
+    harness = createTestHarness({ blobs: { 'big.bin': 'x'.repeat(100), 'small.json': '{}' } });
+
+    const result = await harness.initAzureVenv({ maxBlobSize: 50 });
+
+    expect(result.blobs.map((b) => b.relativePath)).toEqual(['small.json']);
+    expect(result.skippedBlobs).toEqual([
+      { blobName: 'big.bin', relativePath: 'big.bin', size: 100, etag: '"0x1"', reason: 'max-blob-size' },
+    ]);
+    expect(result.totalBlobs).toBe(2);
+    expect(harness.source.calls.download).not.toContain('big.bin');
+  });
+
+  it('stops reading blobs once the memory budget is used up', async () => {
+    harness = createTestHarness({ blobs: { 'a.txt': 'x'.repeat(40), 'b.txt': 'x'.repeat(40), 'c.txt': 'x'.repeat(10) } });
+
+    const result = await harness.initAzureVenv({ memoryBudget: 60 });
+
+    expect(result.blobs.map((b) => b.relativePath)).toEqual(['a.txt', 'c.txt']);
+    expect(result.skippedBlobs.map((b) => [b.relativePath, b.reason])).toEqual([['b.txt', 'memory-budget']]);
+  });
+
+  it('attaches an on-demand loader when lazy loading is enabled', async () => {
+    harness = createTestHarness({ blobs: { 'big.bin': 'x'.repeat(100) } });
+
+    const eager = await harness.initAzureVenv({ maxBlobSize: 50 });
+    expect(eager.skippedBlobs[0].load).toBeUndefined();
+
+    harness.restoreEnv();
+    const lazy = await harness.initAzureVenv({ maxBlobSize: 50, lazyOversized: true });
+    const content = await lazy.skippedBlobs[0].load!();
+    expect(content.toString()).toBe('x'.repeat(100));
+  });
+
+  it('watch mode drops content of a blob that grows over the limit and picks it up again when it shrinks', async () => {
+    harness = createTestHarness({ blobs: { 'app.json': '{}' } });
+    const events: string[] = [];
+    const watch = await harness.watchAzureVenv({
+      pollInterval: 5000,
+      maxBlobSize: 50,
+      onChange: (changes) => {
+        events.push(...changes.map((c) => `${c.type}:${c.relativePath}`));
+      },
+    });
+
+    harness.source.setBlob('app.json', 'x'.repeat(100));
+    harness.source.setBlob('huge.bin', 'x'.repeat(100));
+    await harness.clock.tick(5000);
+
+    expect(events).toEqual(['deleted:app.json']);
+    expect(watch.getCurrentSnapshot().blobs).toEqual([]);
+    expect(watch.getCurrentSnapshot().skippedBlobs.map((b) => b.relativePath)).toEqual(['app.json', 'huge.bin']);
+
+    harness.source.setBlob('app.json', '{"v":2}');
+    harness.source.deleteBlob('huge.bin');
+    await harness.clock.tick(5000);
+
+    expect(events).toEqual(['deleted:app.json', 'added:app.json']);
+    expect(watch.getCurrentSnapshot().skippedBlobs).toEqual([]);
+    watch.stop();
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createSyncDeadline } from '../src/sync/deadline.js';
+import { abortError } from '../src/source/abort.js';
+import { initAzureVenv } from '../src/initialize.js';
+import { createFakeBlobSource, createTestHarness, FAKE_AZURE_VENV_URL, FAKE_SAS_TOKEN } from '../src/testing/index.js';
+import type { FakeBlobSource, TestHarness } from '../src/testing/index.js';
+import type { BlobSource } from '../src/source/types.js';
+import { ConfigurationError, SyncAbortedError } from '../src/errors/index.js';
+
+describe('createSyncDeadline', () => {
+  it('creates no signal without a deadline or caller signal', () => {
+    expect(createSyncDeadline(undefined, Date.now()).signal).toBeUndefined();
+    expect(createSyncDeadline({}, Date.now()).signal).toBeUndefined();
+  });
+
+  it('rejects a deadline that is not a positive number', () => {
+    expect(() => createSyncDeadline({ deadlineMs: 0 }, Date.now())).toThrow(ConfigurationError);
+    expect(() => createSyncDeadline({ deadlineMs: Number.NaN }, Date.now())).toThrow(ConfigurationError);
+  });
+
+  it('aborts with reason "deadline" once the deadline passes', async () => {
+    const deadline = createSyncDeadline({ deadlineMs: 10 }, Date.now());
+    try {
+      await new Promise((resolve) => setTimeout(resolve, 30));
+
+      expect(deadline.signal?.aborted).toBe(true);
+      expect(deadline.signal?.reason).toBeInstanceOf(SyncAbortedError);
+      expect((deadline.signal?.reason as SyncAbortedError).reason).toBe('deadline');
+    } finally {
+      deadline.dispose();
+    }
+  });
+
+  it('counts the deadline from the start time', () => {
+    const deadline = createSyncDeadline({ deadlineMs: 1000 }, Date.now() - 5000);
+
+    expect(deadline.signal?.aborted).toBe(true);
+    deadline.dispose();
+  });
+
+  it('aborts with reason "cancelled" when the caller aborts, even before the start', () => {
+    const caller = new AbortController();
+    const deadline = createSyncDeadline({ signal: caller.signal, deadlineMs: 60000 }, Date.now());
+
+    caller.abort();
+
+    expect((deadline.signal?.reason as SyncAbortedError).reason).toBe('cancelled');
+    deadline.dispose();
+
+    const preAborted = createSyncDeadline({ signal: caller.signal }, Date.now());
+    expect(preAborted.signal?.aborted).toBe(true);
+    preAborted.dispose();
+  });
+});
+
+describe('initAzureVenv deadline and cancellation', () => {
+  let harness: TestHarness;
+  let fake: FakeBlobSource;
+  let source: BlobSource;
+
+  beforeEach(() => {
+    harness = createTestHarness();
+    fake = createFakeBlobSource({ blobs: { 'a.json': 'a', 'b.json': 'b', 'c.json': 'c' } });
+    // b.json never finishes on its own: only the signal ends its download
+    source = {
+      listBlobs: (prefix, signal) => fake.listBlobs(prefix, signal),
+      downloadToBuffer: async (name, signal) => {
+        if (name !== 'b.json') {
+          return fake.downloadToBuffer(name, signal);
+        }
+        return new Promise<Buffer>((_, reject) => {
+          signal?.addEventListener('abort', () => reject(abortError(signal)), { once: true });
+        });
+      },
+    };
+    process.env.AZURE_VENV = FAKE_AZURE_VENV_URL;
+    process.env.AZURE_VENV_SAS_TOKEN = FAKE_SAS_TOKEN;
+  });
+
+  it('returns the blobs read before the deadline in a result flagged timedOut', async () => {
+    const result = await initAzureVenv({ source, deadlineMs: 50, concurrency: 1, logLevel: 'error' });
+
+    expect(result.timedOut).toBe(true);
+    expect(result.blobs.map((b) => b.relativePath)).toEqual(['a.json']);
+    expect(result.failedBlobs).toEqual(['b.json', 'c.json']);
+    // No download starts after the deadline
+    expect(fake.calls.download).not.toContain('c.json');
+  });
+
+  it('throws SyncAbortedError when failOnError is true', async () => {
+    const sync = initAzureVenv({ source, deadlineMs: 50, failOnError: true, logLevel: 'error' });
+
+    await expect(sync).rejects.toBeInstanceOf(SyncAbortedError);
+    await expect(sync).rejects.toMatchObject({ reason: 'deadline' });
+  });
+
+  it('returns an empty timed-out result when cancelled before the listing', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    const result = await initAzureVenv({ source, signal: controller.signal, logLevel: 'error' });
+
+    expect(result.attempted).toBe(true);
+    expect(result.timedOut).toBe(true);
+    expect(result.blobs).toEqual([]);
+    expect(fake.calls.list).toEqual([]);
+  });
+
+  it('is not flagged timedOut when the sync finishes in time', async () => {
+    fake.deleteBlob('b.json');
+
+    const result = await initAzureVenv({ source, deadlineMs: 60000, logLevel: 'error' });
+
+    expect(result.timedOut).toBe(false);
+    expect(result.downloaded).toBe(2);
+  });
+});
+
+describe('watchAzureVenv cancellation', () => {
+  let harness: TestHarness;
+
+  beforeEach(() => {
+    harness = createTestHarness({ prefix: 'prod/', blobs: { 'prod/a.json': 'a' } });
+  });
+
+  it('cancels only the initial sync with initialSyncSignal', async () => {
+    const controller = new AbortController();
+    // Cancelled while a.json downloads
+    const download = harness.source.downloadToBuffer.bind(harness.source);
+    vi.spyOn(harness.source, 'downloadToBuffer').mockImplementation(async (name, signal) => {
+      if (name === 'prod/a.json' && !controller.signal.aborted) {
+        controller.abort();
+        throw abortError(signal!);
+      }
+      return download(name, signal);
+    });
+
+    const watch = await harness.watchAzureVenv({ initialSyncSignal: controller.signal, pollInterval: 5000 });
+    expect(watch.initialSync.timedOut).toBe(true);
+    expect(watch.initialSync.blobs).toEqual([]);
+
+    await harness.clock.tick(5000);
+    expect(watch.getCurrentSnapshot().blobs.map((b) => b.relativePath)).toEqual(['a.json']);
+    watch.stop();
+  });
+
+  it('stops only the watcher with signal', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    const watch = await harness.watchAzureVenv({ signal: controller.signal, pollInterval: 5000 });
+    expect(watch.initialSync.timedOut).toBe(false);
+    expect(watch.initialSync.blobs.map((b) => b.relativePath)).toEqual(['a.json']);
+
+    const listed = harness.source.calls.list.length;
+    await harness.clock.tick(5000);
+    expect(harness.source.calls.list).toHaveLength(listed);
+    watch.stop();
+  });
+});
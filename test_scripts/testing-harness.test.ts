@@ -0,0 +1,219 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { createFakeBlobSource, createManualClock, createTestHarness } from '../src/testing/index.js';
+import type { TestHarness } from '../src/testing/index.js';
+import type { WatchChangeEvent, WatchResult } from '../src/types/index.js';
+import { AuthenticationError, AzureConnectionError, SyncError } from '../src/errors/index.js';
+import * as root from '../src/index.js';
+
+describe('testing entry point', () => {
+  it('is kept out of the package root', () => {
+    expect(Object.keys(root)).not.toContain('createTestHarness');
+    expect(Object.keys(root)).not.toContain('FAKE_SAS_TOKEN');
+  });
+});
+
+describe('createFakeBlobSource', () => {
+  it('lists blobs under a prefix with deterministic ETags and metadata', async () => {
+    const source = createFakeBlobSource({
+      blobs: {
+        'cfg/b.txt': 'b',
+        'cfg/a.txt': { content: 'a', metadata: { source_registry: 'reg' } },
+        'other/c.txt': 'c',
+      },
+      now: () => 1000,
+    });
+
+    const blobs = await source.listBlobs('cfg/');
+
+    expect(blobs.map((b) => [b.name, b.etag])).toEqual([
+      ['cfg/a.txt', '"0x2"'],
+      ['cfg/b.txt', '"0x1"'],
+    ]);
+    expect(blobs[0].metadata).toEqual({ source_registry: 'reg' });
+    expect(blobs[0].lastModified.getTime()).toBe(1000);
+    expect(source.calls.list).toEqual(['cfg/']);
+  });
+
+  it('assigns a new ETag on every update', async () => {
+    const source = createFakeBlobSource({ blobs: { 'a.txt': 'one' } });
+    const [before] = await source.listBlobs('');
+    const etag = source.setBlob('a.txt', 'two');
+
+    const [after] = await source.listBlobs('');
+    expect(after.etag).toBe(etag);
+    expect(after.etag).not.toBe(before.etag);
+    expect((await source.downloadToBuffer('a.txt')).toString()).toBe('two');
+  });
+
+  it('raises SyncError for missing blobs and after deletion', async () => {
+    const source = createFakeBlobSource({ blobs: { 'a.txt': 'a' } });
+    expect(source.deleteBlob('a.txt')).toBe(true);
+
+    await expect(source.downloadToBuffer('a.txt')).rejects.toBeInstanceOf(SyncError);
+    expect(source.blobNames()).toEqual([]);
+  });
+
+  it('injects failures for a number of calls, optionally per blob', async () => {
+    const source = createFakeBlobSource({ blobs: { 'a.txt': 'a', 'b.txt': 'b' } });
+    source.failNext('list', 'forbidden', { times: 2 });
+    source.failNext('download', 'timeout', { blobName: 'b.txt' });
+
+    await expect(source.listBlobs('')).rejects.toBeInstanceOf(AuthenticationError);
+    await expect(source.listBlobs('')).rejects.toBeInstanceOf(AuthenticationError);
+    await expect(source.listBlobs('')).resolves.toHaveLength(2);
+
+    await expect(source.downloadToBuffer('a.txt')).resolves.toEqual(Buffer.from('a'));
+    await expect(source.downloadToBuffer('b.txt')).rejects.toBeInstanceOf(AzureConnectionError);
+    await expect(source.downloadToBuffer('b.txt')).resolves.toEqual(Buffer.from('b'));
+  });
+
+  it('clearFailures drops pending failures', async () => {
+    const source = createFakeBlobSource();
+    source.failNext('list', new Error('boom'));
+    source.clearFailures();
+
+    await expect(source.listBlobs('')).resolves.toEqual([]);
+  });
+});
+
+describe('createManualClock', () => {
+  it('fires due timers in order and awaits their callbacks', async () => {
+    const clock = createManualClock(100);
+    const fired: string[] = [];
+
+    const slow = clock.setInterval(async () => {
+      await Promise.resolve();
+      fired.push(`a@${clock.now()}`);
+    }, 10);
+    clock.setInterval(() => {
+      fired.push(`b@${clock.now()}`);
+    }, 15);
+
+    await clock.tick(30);
+
+    expect(fired).toEqual(['a@110', 'b@115', 'a@120', 'a@130', 'b@130']);
+    expect(clock.now()).toBe(130);
+
+    clock.clearInterval(slow);
+    expect(clock.pendingTimers).toBe(1);
+  });
+});
+
+describe('createTestHarness', () => {
+  let harness: TestHarness;
+  let watch: WatchResult | undefined;
+
+  afterEach(() => {
+    watch?.stop();
+    watch = undefined;
+  });
+
+  it('drives initAzureVenv against the fake container', async () => {
+    harness = createTestHarness({
+      prefix: 'prod/',
+      blobs: { 'prod/.env': 'HARNESS_TEST_VAR=remote', 'prod/app.json': '{}', 'dev/app.json': '{}' },
+    });
+
+    const result = await harness.initAzureVenv();
+
+    expect(result.remoteEnvLoaded).toBe(true);
+    expect(result.blobs.map((b) => b.relativePath)).toEqual(['app.json']);
+    expect(process.env.HARNESS_TEST_VAR).toBe('remote');
+    expect(process.env.AZURE_VENV).toBeUndefined();
+
+    harness.restoreEnv();
+    expect(process.env.HARNESS_TEST_VAR).toBeUndefined();
+  });
+
+  it('drives watch polling with the manual clock', async () => {
+    harness = createTestHarness({ blobs: { 'app.json': '{"v":1}' }, startTime: 5_000 });
+    const batches: WatchChangeEvent[][] = [];
+
+    watch = await harness.watchAzureVenv({
+      pollInterval: 5000,
+      onChange: (changes) => {
+        batches.push([...changes]);
+      },
+    });
+
+    harness.source.setBlob('app.json', '{"v":2}');
+    harness.source.setBlob('new.txt', 'new');
+    await harness.clock.tick(5000);
+
+    expect(batches).toHaveLength(1);
+    expect(batches[0].map((c) => [c.type, c.blobName])).toEqual([
+      ['modified', 'app.json'],
+      ['added', 'new.txt'],
+    ]);
+    expect(batches[0][0].timestamp.getTime()).toBe(10_000);
+
+    const snapshot = watch.getCurrentSnapshot();
+    expect(snapshot.version).toBe(1);
+    expect(snapshot.lastUpdated).toBe(new Date(10_000).toISOString());
+  });
+
+  it('keeps the previous state when a poll hits a timeout', async () => {
+    harness = createTestHarness({ blobs: { 'app.json': '{}' } });
+    watch = await harness.watchAzureVenv({ pollInterval: 5000 });
+
+    harness.source.setBlob('app.json', '{"v":2}');
+    harness.source.failNext('list', 'timeout');
+    await harness.clock.tick(5000);
+    expect(watch.getCurrentSnapshot().version).toBe(0);
+
+    await harness.clock.tick(5000);
+    expect(watch.getCurrentSnapshot().version).toBe(1);
+  });
+
+  it('propagates authentication failures from initAzureVenv', async () => {
+    harness = createTestHarness({ blobs: { 'app.json': '{}' } });
+    harness.source.failNext('list', 'forbidden');
+
+    await expect(harness.initAzureVenv()).rejects.toBeInstanceOf(AuthenticationError);
+  });
+
+  it('drives initAssetStore and refresh()', async () => {
+    harness = createTestHarness({
+      blobs: {
+        'agents.yaml': { content: 'v1', metadata: { source_registry: 'reg', source_path: 'agents.yaml' } },
+      },
+    });
+
+    const store = await harness.initAssetStore({ registry: 'reg' });
+    expect(store.getAsset('agents.yaml')).toBe('v1');
+
+    harness.source.setBlob('agents.yaml', {
+      content: 'v2',
+      metadata: { source_registry: 'reg', source_path: 'agents.yaml' },
+    });
+    await store.refresh();
+    expect(store.getAsset('agents.yaml')).toBe('v2');
+  });
+
+  it('syncs assets without the application\'s blob filters and size limits', async () => {
+    process.env.AZURE_VENV_INCLUDE = 'other/**';
+    process.env.AZURE_VENV_MAX_BLOB_SIZE = '1';
+    harness = createTestHarness({
+      blobs: {
+        'agents.yaml': { content: 'v1', metadata: { source_registry: 'reg', source_path: 'agents.yaml' } },
+      },
+    });
+
+    const store = await harness.initAssetStore({ registry: 'reg' });
+
+    expect(store.getAsset('agents.yaml')).toBe('v1');
+  });
+
+  it('parses the asset URL without the application\'s URL style', async () => {
+    process.env.AZURE_VENV_URL_STYLE = 'path-style';
+    harness = createTestHarness({
+      blobs: {
+        'agents.yaml': { content: 'v1', metadata: { source_registry: 'reg', source_path: 'agents.yaml' } },
+      },
+    });
+
+    const store = await harness.initAssetStore({ registry: 'reg' });
+
+    expect(store.getAsset('agents.yaml')).toBe('v1');
+  });
+});
@@ -4,6 +4,8 @@ import type { AzureVenvBlobClient } from '../src/azure/client.js';
 import type { AzureVenvConfig } from '../src/config/types.js';
 import type { Logger } from '../src/logging/logger.js';
 import type { BlobInfo } from '../src/azure/types.js';
+import type { BlobContent, EnvChangeEvent, SyncResult, WatchChangeEvent } from '../src/types/index.js';
+import { NO_OP_SYNC_RESULT } from '../src/types/index.js';
 
 /** Create a mock logger with vi.fn() stubs. */
 function createMockLogger(): Logger {
@@ -28,19 +30,37 @@ function createMockConfig(overrides: Partial<AzureVenvConfig> = {}): AzureVenvCo
   return {
     blobUrl: {
       accountUrl: 'https://myaccount.blob.core.windows.net',
+      accountName: 'myaccount',
       containerName: 'mycontainer',
       prefix: 'test/',
+      style: 'standard',
     },
+    auth: { mode: 'sas', sasToken: 'sv=2020-08-04&sig=fakesig' },
     sasToken: 'sv=2020-08-04&sig=fakesig',
     sasExpiry: null,
     failOnError: false,
     concurrency: 5,
     timeout: 30000,
+    maxRetries: 3,
+    retryDelay: 1000,
     logLevel: 'info',
     rootDir: '/tmp/test-watcher',
     envPath: '.env',
+    envFiles: ['test/.env'],
+    expand: false,
+    precedence: { order: ['os', 'remote', 'local'], overrides: {} },
+    sourceName: '',
+    additionalSources: [],
     pollInterval: 5000, // Short interval for testing
     watchEnabled: true,
+    cache: null,
+    include: [],
+    exclude: [],
+    maxBlobSize: null,
+    memoryBudget: null,
+    lazyOversized: false,
+    loadMode: 'eager',
+    lazyCacheSize: 64 * 1024 * 1024,
     ...overrides,
   };
 }
@@ -157,6 +177,40 @@ describe('BlobWatcher', () => {
     handle.stop();
   });
 
+  it('removes the process signal handlers when stopped through the AbortSignal', async () => {
+    const sigintListeners = process.listenerCount('SIGINT');
+    const sigtermListeners = process.listenerCount('SIGTERM');
+    const abortController = new AbortController();
+    watcher.start({ signal: abortController.signal });
+    expect(process.listenerCount('SIGINT')).toBe(sigintListeners + 1);
+    expect(process.listenerCount('SIGTERM')).toBe(sigtermListeners + 1);
+
+    abortController.abort();
+
+    expect(process.listenerCount('SIGINT')).toBe(sigintListeners);
+    expect(process.listenerCount('SIGTERM')).toBe(sigtermListeners);
+  });
+
+  it('aborts the listing of a running poll when stopped', async () => {
+    let listSignal: AbortSignal | undefined;
+    vi.mocked(mockClient.listBlobs).mockImplementation((_prefix, signal) => {
+      listSignal = signal;
+      return new Promise((_resolve, reject) => {
+        signal?.addEventListener('abort', () => reject(new Error('aborted')));
+      });
+    });
+    const handle = watcher.start();
+
+    await vi.advanceTimersByTimeAsync(config.pollInterval);
+    expect(listSignal?.aborted).toBe(false);
+
+    handle.stop();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(listSignal?.aborted).toBe(true);
+    expect(mockLogger.error).not.toHaveBeenCalled();
+  });
+
   it('logs "no changes detected" when blob list matches known ETags', async () => {
     const handle = watcher.start();
 
@@ -178,8 +232,373 @@ describe('BlobWatcher', () => {
 
     await vi.advanceTimersByTimeAsync(config.pollInterval);
 
-    expect(mockClient.listBlobs).toHaveBeenCalledWith(config.blobUrl.prefix);
+    expect(mockClient.listBlobs).toHaveBeenCalledWith(config.blobUrl.prefix, expect.any(AbortSignal));
+
+    handle.stop();
+  });
+});
+
+describe('BlobWatcher live state', () => {
+  let mockLogger: Logger;
+  let config: AzureVenvConfig;
+
+  function blobInfo(name: string, etag: string): BlobInfo {
+    return {
+      name,
+      etag,
+      lastModified: new Date('2026-01-01T00:00:00Z'),
+      contentLength: 0,
+    };
+  }
+
+  function initialSync(blobs: BlobContent[]): SyncResult {
+    return {
+      ...NO_OP_SYNC_RESULT,
+      attempted: true,
+      totalBlobs: blobs.length,
+      downloaded: blobs.length,
+      blobs,
+    };
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    mockLogger = createMockLogger();
+    config = createMockConfig();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('getCurrentSnapshot() reflects the initial sync at version 0', () => {
+    const client = createMockClient();
+    const watcher = new BlobWatcher(config, client, mockLogger, new Set<string>(), {});
+    const blob: BlobContent = {
+      blobName: 'test/app.json',
+      relativePath: 'app.json',
+      content: Buffer.from('{}'),
+      size: 2,
+      etag: '"1"',
+      lastModified: '2026-01-01T00:00:00.000Z',
+    };
+
+    watcher.setInitialState(initialSync([blob]));
+    const snapshot = watcher.getCurrentSnapshot();
+
+    expect(snapshot.version).toBe(0);
+    expect(snapshot.blobs).toEqual([blob]);
+    expect(snapshot.fileTree).toHaveLength(1);
+  });
+
+  it('stores downloaded content for added and modified blobs', async () => {
+    const client = createMockClient();
+    const listBlobs = client.listBlobs as ReturnType<typeof vi.fn>;
+    const download = client.downloadToBuffer as ReturnType<typeof vi.fn>;
+    const watcher = new BlobWatcher(config, client, mockLogger, new Set<string>(), {});
+    watcher.setInitialState(initialSync([]));
+    const handle = watcher.start();
+
+    listBlobs.mockResolvedValue([blobInfo('test/config/app.json', '"1"')]);
+    download.mockResolvedValue(Buffer.from('v1'));
+    await vi.advanceTimersByTimeAsync(config.pollInterval);
+
+    let snapshot = watcher.getCurrentSnapshot();
+    expect(snapshot.version).toBe(1);
+    expect(snapshot.blobs).toHaveLength(1);
+    expect(snapshot.blobs[0].relativePath).toBe('config/app.json');
+    expect(snapshot.blobs[0].content.toString()).toBe('v1');
+    expect(snapshot.fileTree[0].name).toBe('config');
+
+    listBlobs.mockResolvedValue([blobInfo('test/config/app.json', '"2"')]);
+    download.mockResolvedValue(Buffer.from('v2'));
+    await vi.advanceTimersByTimeAsync(config.pollInterval);
+
+    snapshot = watcher.getCurrentSnapshot();
+    expect(snapshot.version).toBe(2);
+    expect(snapshot.blobs[0].content.toString()).toBe('v2');
+    expect(snapshot.blobs[0].etag).toBe('"2"');
+
+    handle.stop();
+  });
+
+  it('does not bump the version when nothing changed', async () => {
+    const client = createMockClient([blobInfo('test/.env', '"env"')]);
+    const watcher = new BlobWatcher(config, client, mockLogger, new Set<string>(), {});
+    watcher.setInitialState(initialSync([]), [{ blobName: 'test/.env', env: {}, etag: '"env"' }]);
+    const before = watcher.getCurrentSnapshot();
+    const handle = watcher.start();
+
+    await vi.advanceTimersByTimeAsync(config.pollInterval);
+
+    expect(watcher.getCurrentSnapshot()).toBe(before);
+    expect(client.downloadToBuffer).not.toHaveBeenCalled();
+
+    handle.stop();
+  });
+
+  it('keeps previous content and retries when a download fails', async () => {
+    const client = createMockClient();
+    const listBlobs = client.listBlobs as ReturnType<typeof vi.fn>;
+    const download = client.downloadToBuffer as ReturnType<typeof vi.fn>;
+    const watcher = new BlobWatcher(config, client, mockLogger, new Set<string>(), {});
+    watcher.setInitialState(initialSync([]));
+    const handle = watcher.start();
+
+    listBlobs.mockResolvedValue([blobInfo('test/a.txt', '"1"')]);
+    download.mockRejectedValueOnce(new Error('network down'));
+    await vi.advanceTimersByTimeAsync(config.pollInterval);
+
+    let snapshot = watcher.getCurrentSnapshot();
+    expect(snapshot.blobs).toHaveLength(0);
+    expect(snapshot.failedBlobs).toEqual(['test/a.txt']);
+
+    download.mockResolvedValue(Buffer.from('ok'));
+    await vi.advanceTimersByTimeAsync(config.pollInterval);
+
+    snapshot = watcher.getCurrentSnapshot();
+    expect(snapshot.blobs).toHaveLength(1);
+    expect(snapshot.failedBlobs).toEqual([]);
+    expect(snapshot.failed).toBe(0);
+
+    handle.stop();
+  });
+
+  it('does not report a deletion for a blob that never downloaded', async () => {
+    const client = createMockClient();
+    const listBlobs = client.listBlobs as ReturnType<typeof vi.fn>;
+    const download = client.downloadToBuffer as ReturnType<typeof vi.fn>;
+    const watcher = new BlobWatcher(config, client, mockLogger, new Set<string>(), {});
+    watcher.setInitialState(initialSync([]));
+    const onChange = vi.fn();
+    const handle = watcher.start({ onChange });
+
+    listBlobs.mockResolvedValue([blobInfo('test/a.txt', '"1"')]);
+    download.mockRejectedValueOnce(new Error('network down'));
+    await vi.advanceTimersByTimeAsync(config.pollInterval);
+    expect(watcher.getCurrentSnapshot().failedBlobs).toEqual(['test/a.txt']);
+
+    listBlobs.mockResolvedValue([]);
+    await vi.advanceTimersByTimeAsync(config.pollInterval);
+
+    expect(onChange).not.toHaveBeenCalled();
+    expect(watcher.getCurrentSnapshot().failedBlobs).toEqual([]);
+
+    handle.stop();
+  });
+
+  it('removes deleted blobs from the live state', async () => {
+    const client = createMockClient();
+    const listBlobs = client.listBlobs as ReturnType<typeof vi.fn>;
+    const watcher = new BlobWatcher(config, client, mockLogger, new Set<string>(), {});
+    const keep: BlobContent = {
+      blobName: 'test/keep.txt',
+      relativePath: 'keep.txt',
+      content: Buffer.from('keep'),
+      size: 4,
+      etag: '"k"',
+      lastModified: '2026-01-01T00:00:00.000Z',
+    };
+    const gone: BlobContent = { ...keep, blobName: 'test/gone.txt', relativePath: 'gone.txt', etag: '"g"' };
+    watcher.setInitialState(initialSync([keep, gone]));
+    const handle = watcher.start();
+
+    listBlobs.mockResolvedValue([blobInfo('test/keep.txt', '"k"')]);
+    await vi.advanceTimersByTimeAsync(config.pollInterval);
+
+    const snapshot = watcher.getCurrentSnapshot();
+    expect(snapshot.version).toBe(1);
+    expect(snapshot.blobs.map((b) => b.relativePath)).toEqual(['keep.txt']);
+    expect(mockLogger.info).toHaveBeenCalledWith(expect.stringContaining('1 deleted'));
+    expect(client.downloadToBuffer).not.toHaveBeenCalled();
+
+    handle.stop();
+  });
+
+  describe('remote .env deletion', () => {
+    it('drops remote variables and restores local values', async () => {
+      const client = createMockClient();
+      const listBlobs = client.listBlobs as ReturnType<typeof vi.fn>;
+      const download = client.downloadToBuffer as ReturnType<typeof vi.fn>;
+      const localEnv = { WATCH_SHARED: 'local' };
+      process.env.WATCH_SHARED = 'local';
+      const watcher = new BlobWatcher(config, client, mockLogger, new Set<string>(), localEnv);
+      watcher.setInitialState(initialSync([]));
+      const handle = watcher.start();
+
+      listBlobs.mockResolvedValue([blobInfo('test/.env', '"e1"')]);
+      download.mockResolvedValue(Buffer.from('WATCH_SHARED=remote\nWATCH_REMOTE_ONLY=yes\n'));
+      await vi.advanceTimersByTimeAsync(config.pollInterval);
+
+      expect(process.env.WATCH_SHARED).toBe('remote');
+      expect(process.env.WATCH_REMOTE_ONLY).toBe('yes');
+      expect(watcher.getCurrentSnapshot().remoteEnvLoaded).toBe(true);
+
+      listBlobs.mockResolvedValue([]);
+      await vi.advanceTimersByTimeAsync(config.pollInterval);
+
+      const snapshot = watcher.getCurrentSnapshot();
+      expect(process.env.WATCH_SHARED).toBe('local');
+      expect(process.env.WATCH_REMOTE_ONLY).toBeUndefined();
+      expect(snapshot.remoteEnvLoaded).toBe(false);
+      expect(snapshot.envDetails.sources.WATCH_SHARED).toBe('local');
+      expect(snapshot.envDetails.remoteKeys).toEqual([]);
+
+      handle.stop();
+    });
+
+    it('reports per-key environment diffs through onEnvChange', async () => {
+      const client = createMockClient();
+      const listBlobs = client.listBlobs as ReturnType<typeof vi.fn>;
+      const download = client.downloadToBuffer as ReturnType<typeof vi.fn>;
+      const onEnvChange = vi.fn();
+      const watcher = new BlobWatcher(config, client, mockLogger, new Set<string>(), { WATCH_SHARED: 'local' });
+      watcher.setInitialState(initialSync([]));
+      const handle = watcher.start({ onEnvChange });
+
+      listBlobs.mockResolvedValue([blobInfo('test/.env', '"e1"')]);
+      download.mockResolvedValue(Buffer.from('WATCH_SHARED=remote\nWATCH_REMOTE_ONLY=secret\n'));
+      await vi.advanceTimersByTimeAsync(config.pollInterval);
+
+      expect(onEnvChange).toHaveBeenCalledTimes(1);
+      const event = onEnvChange.mock.calls[0][0] as EnvChangeEvent;
+      expect(event.added).toEqual([
+        { key: 'WATCH_REMOTE_ONLY', source: 'remote' },
+        { key: 'WATCH_SHARED', source: 'remote' },
+      ]);
+
+      listBlobs.mockResolvedValue([blobInfo('test/.env', '"e2"')]);
+      download.mockResolvedValue(Buffer.from('WATCH_SHARED=remote\n'));
+      await vi.advanceTimersByTimeAsync(config.pollInterval);
+
+      expect(onEnvChange).toHaveBeenCalledTimes(2);
+      const second = onEnvChange.mock.calls[1][0] as EnvChangeEvent;
+      expect(second.added).toEqual([]);
+      expect(second.changed).toEqual([]);
+      expect(second.removed).toEqual([{ key: 'WATCH_REMOTE_ONLY', previousSource: 'remote' }]);
+
+      // Same content under a new ETag: no env diff, so no callback
+      listBlobs.mockResolvedValue([blobInfo('test/.env', '"e3"')]);
+      await vi.advanceTimersByTimeAsync(config.pollInterval);
+      expect(onEnvChange).toHaveBeenCalledTimes(2);
+
+      handle.stop();
+    });
+
+    it('includes values in env diffs only when includeEnvValues is set', async () => {
+      const client = createMockClient([blobInfo('test/.env', '"e1"')]);
+      (client.downloadToBuffer as ReturnType<typeof vi.fn>).mockResolvedValue(Buffer.from('WATCH_TOKEN=abc\n'));
+      const onEnvChange = vi.fn();
+      const watcher = new BlobWatcher(config, client, mockLogger, new Set<string>(), {});
+      watcher.setInitialState(initialSync([]));
+      const handle = watcher.start({ onEnvChange, includeEnvValues: true });
+
+      await vi.advanceTimersByTimeAsync(config.pollInterval);
+
+      const event = onEnvChange.mock.calls[0][0] as EnvChangeEvent;
+      expect(event.added).toEqual([{ key: 'WATCH_TOKEN', source: 'remote', value: 'abc' }]);
+
+      handle.stop();
+    });
+  });
+});
+
+describe('BlobWatcher change subscriptions', () => {
+  let mockLogger: Logger;
+  let config: AzureVenvConfig;
+
+  function blobInfo(name: string, etag: string): BlobInfo {
+    return {
+      name,
+      etag,
+      lastModified: new Date('2026-01-01T00:00:00Z'),
+      contentLength: 0,
+    };
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    mockLogger = createMockLogger();
+    config = createMockConfig();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('calls onChange with one batch per poll, including downloaded content', async () => {
+    const client = createMockClient([
+      blobInfo('test/a.json', '"1"'),
+      blobInfo('test/b.json', '"1"'),
+    ]);
+    (client.downloadToBuffer as ReturnType<typeof vi.fn>).mockImplementation(
+      async (name: string) => Buffer.from(`content of ${name}`),
+    );
+    const onChange = vi.fn();
+    const watcher = new BlobWatcher(config, client, mockLogger, new Set<string>(), {});
+    watcher.setInitialState(NO_OP_SYNC_RESULT);
+    const handle = watcher.start({ onChange });
+
+    await vi.advanceTimersByTimeAsync(config.pollInterval);
+
+    expect(onChange).toHaveBeenCalledTimes(1);
+    const batch = onChange.mock.calls[0][0] as WatchChangeEvent[];
+    expect(batch.map((c) => [c.type, c.relativePath])).toEqual([
+      ['added', 'a.json'],
+      ['added', 'b.json'],
+    ]);
+    expect(batch[0].blob?.content.toString()).toBe('content of test/a.json');
+
+    // Nothing changed: no further callback
+    await vi.advanceTimersByTimeAsync(config.pollInterval);
+    expect(onChange).toHaveBeenCalledTimes(1);
+
+    handle.stop();
+  });
+
+  it('logs listener errors without stopping the watcher', async () => {
+    const client = createMockClient([blobInfo('test/a.json', '"1"')]);
+    (client.downloadToBuffer as ReturnType<typeof vi.fn>).mockResolvedValue(Buffer.from('x'));
+    const watcher = new BlobWatcher(config, client, mockLogger, new Set<string>(), {});
+    watcher.setInitialState(NO_OP_SYNC_RESULT);
+    const handle = watcher.start({
+      onChange: () => {
+        throw new Error('listener boom');
+      },
+    });
+
+    await vi.advanceTimersByTimeAsync(config.pollInterval);
+
+    expect(mockLogger.error).toHaveBeenCalledWith(expect.stringContaining('listener boom'));
+    expect(watcher.getCurrentSnapshot().version).toBe(1);
+
+    handle.stop();
+  });
+
+  it('events() yields change batches and completes when the watcher stops', async () => {
+    const client = createMockClient();
+    const listBlobs = client.listBlobs as ReturnType<typeof vi.fn>;
+    (client.downloadToBuffer as ReturnType<typeof vi.fn>).mockResolvedValue(Buffer.from('x'));
+    const watcher = new BlobWatcher(config, client, mockLogger, new Set<string>(), {});
+    watcher.setInitialState(NO_OP_SYNC_RESULT);
+    const handle = watcher.start();
+    const iterator = watcher.events();
+
+    listBlobs.mockResolvedValue([blobInfo('test/a.json', '"1"')]);
+    await vi.advanceTimersByTimeAsync(config.pollInterval);
+    listBlobs.mockResolvedValue([]);
+    await vi.advanceTimersByTimeAsync(config.pollInterval);
+
+    const first = await iterator.next();
+    const second = await iterator.next();
+    expect(first.value?.map((c: WatchChangeEvent) => c.type)).toEqual(['added']);
+    expect(second.value?.map((c: WatchChangeEvent) => c.type)).toEqual(['deleted']);
+    expect(second.value?.[0].blob).toBeUndefined();
 
+    const pending = iterator.next();
     handle.stop();
+    expect(await pending).toEqual({ value: undefined, done: true });
   });
 });
@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import { runPool } from '../src/sync/pool.js';
+import { SyncEngine } from '../src/sync/engine.js';
+import { validateConfig } from '../src/config/validator.js';
+import { createLogger } from '../src/logging/logger.js';
+import { createFakeBlobSource, FAKE_AZURE_VENV_URL, FAKE_SAS_TOKEN } from '../src/testing/index.js';
+import type { BlobSource } from '../src/source/types.js';
+
+/** Promise with its resolver exposed, to settle tasks in a chosen order. */
+function deferred<T>(): { promise: Promise<T>; resolve: (value: T) => void } {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((r) => {
+    resolve = r;
+  });
+  return { promise, resolve };
+}
+
+/** Let pending promise callbacks run. */
+const flush = (): Promise<void> => new Promise((resolve) => setImmediate(resolve));
+
+describe('runPool', () => {
+  it('returns settled results in item order', async () => {
+    const results = await runPool([3, 1, 2], 2, async (n) => {
+      if (n === 1) {
+        throw new Error('one');
+      }
+      return n * 10;
+    });
+
+    expect(results[0]).toEqual({ status: 'fulfilled', value: 30 });
+    expect(results[1].status).toBe('rejected');
+    expect(results[2]).toEqual({ status: 'fulfilled', value: 20 });
+  });
+
+  it('starts the next task as soon as any task settles', async () => {
+    const gates = [deferred<void>(), deferred<void>(), deferred<void>(), deferred<void>()];
+    const started: number[] = [];
+
+    const run = runPool([0, 1, 2, 3], 2, async (n) => {
+      started.push(n);
+      await gates[n].promise;
+      return n;
+    });
+
+    await flush();
+    expect(started).toEqual([0, 1]);
+
+    // Item 0 stays slow; finishing item 1 must not wait for it
+    gates[1].resolve();
+    await flush();
+    expect(started).toEqual([0, 1, 2]);
+
+    gates[2].resolve();
+    await flush();
+    expect(started).toEqual([0, 1, 2, 3]);
+
+    gates[0].resolve();
+    gates[3].resolve();
+    expect((await run).map((r) => r.status)).toEqual(['fulfilled', 'fulfilled', 'fulfilled', 'fulfilled']);
+  });
+
+  it('never exceeds the concurrency limit', async () => {
+    let inFlight = 0;
+    let peak = 0;
+
+    await runPool(Array.from({ length: 20 }, (_, i) => i), 3, async () => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      await flush();
+      inFlight--;
+    });
+
+    expect(peak).toBe(3);
+  });
+
+  it('reports a synchronously throwing task as rejected', async () => {
+    const results = await runPool([1], 1, () => {
+      throw new Error('sync');
+    });
+
+    expect(results[0].status).toBe('rejected');
+  });
+
+  it('handles an empty item list', async () => {
+    expect(await runPool([], 4, async () => 1)).toEqual([]);
+  });
+});
+
+describe('SyncEngine.readBlobs concurrency', () => {
+  it('keeps downloading other blobs while one blob is slow', async () => {
+    const fake = createFakeBlobSource({
+      blobs: { 'a.json': 'a', 'b.json': 'b', 'c.json': 'c', 'd.json': 'd' },
+    });
+    const slow = deferred<void>();
+    const started: string[] = [];
+    const source: BlobSource = {
+      ...fake,
+      async downloadToBuffer(blobName) {
+        started.push(blobName);
+        if (blobName === 'a.json') {
+          await slow.promise;
+        }
+        return fake.downloadToBuffer(blobName);
+      },
+    };
+    const config = validateConfig(
+      { AZURE_VENV: FAKE_AZURE_VENV_URL, AZURE_VENV_SAS_TOKEN: FAKE_SAS_TOKEN },
+      { concurrency: 2 },
+    );
+    if (config === null) {
+      throw new Error('expected a configuration');
+    }
+    const engine = new SyncEngine(source, createLogger('error', FAKE_SAS_TOKEN));
+
+    const read = engine.readBlobs(config);
+    await flush();
+    await flush();
+
+    // With fixed batches, c.json and d.json would wait for a.json
+    expect(started).toEqual(['a.json', 'b.json', 'c.json', 'd.json']);
+
+    slow.resolve();
+    const result = await read;
+    expect(result.blobs.map((blob) => blob.relativePath)).toEqual(['a.json', 'b.json', 'c.json', 'd.json']);
+    expect(result.downloaded).toBe(4);
+  });
+});
@@ -5,6 +5,7 @@ export default defineConfig({
     globals: true,
     environment: 'node',
     include: ['__tests__/**/*.test.ts', 'test_scripts/**/*.test.ts'],
+    setupFiles: ['test_scripts/setup.ts'],
     coverage: {
       provider: 'v8',
       reporter: ['text', 'json', 'html'],